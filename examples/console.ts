@@ -8,6 +8,7 @@ import {
   VisualInterface,
   Rejection,
   PromptNode,
+  Parsers,
   Errors
 } from '../src/index'
 import { EventEmitter } from 'events'
@@ -70,6 +71,9 @@ class ConsolePrompt<T> extends Prompt<T, ConsoleMessage> {
       if (line === 'exit') {
         // Exits are optional
         emitter.emit('exit')
+      } else if (line === 'back') {
+        // Going back is optional
+        emitter.emit('back')
       } else {
         // REQUIRED
         // but emitting messages are required
@@ -106,15 +110,10 @@ const askName = new ConsolePrompt({
 } as ConsoleVisual, askNameFn)
 
 // Ask age Prompt that collects messages
-const askAgeFn: PromptFunction<AgePromptData, ConsoleMessage> = async function (m, data) {
-  if (isNaN(Number(m.content))) {
-    throw new Rejection(`That's not a number!`)
-  }
-  return {
-    ...data,
-    age: Number(m.content)
-  }
-}
+const askAgeFn: PromptFunction<AgePromptData, ConsoleMessage> = Parsers.bind('age', Parsers.integer({
+  min: 0,
+  message: `That's not a number!`
+}))
 const askAge = new ConsolePrompt(async (data) => ({
   text: `How old are you, ${data.name}?`,
   newline: true
@@ -0,0 +1,127 @@
+import { Schemas } from './Schema'
+
+export type DataChangeType = 'added'|'removed'|'changed'
+
+export interface DataChange {
+  /**
+   * Keys and indices from the root of the data to the value
+   */
+  path: Array<string|number>;
+  type: DataChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+const MUTATION_ERROR = /^Cannot (assign to read only property|add property|delete property|define property|redefine property)/
+
+export class DevTools {
+  /**
+   * Whether a value is a plain object or an array, which are
+   * the values that are frozen and compared by their fields
+   *
+   * @param value Value to check
+   */
+  static isStructure (value: unknown): value is Record<string, unknown>|Array<unknown> {
+    if (Array.isArray(value)) {
+      return true
+    }
+    if (typeof value !== 'object' || value === null) {
+      return false
+    }
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+  }
+
+  /**
+   * Freeze a value and every plain object and array within it,
+   * in place
+   *
+   * @param value Value to freeze
+   */
+  static deepFreeze<T> (value: T): T {
+    if (!this.isStructure(value) || Object.isFrozen(value)) {
+      return value
+    }
+    Object.freeze(value)
+    for (const key of Object.keys(value)) {
+      this.deepFreeze((value as Record<string, unknown>)[key])
+    }
+    return value
+  }
+
+  /**
+   * Whether an error was thrown by mutating frozen data in
+   * strict mode
+   *
+   * @param err Error to check
+   */
+  static isMutationError (err: unknown): boolean {
+    return err instanceof TypeError && MUTATION_ERROR.test(err.message)
+  }
+
+  /**
+   * Returns the changes from one value to another. Plain objects
+   * and arrays are compared by their fields, dates by their time
+   * and everything else by identity.
+   *
+   * @param before Value before
+   * @param after Value after
+   * @param path Path of both values
+   */
+  static diff (before: unknown, after: unknown, path: Array<string|number> = []): Array<DataChange> {
+    if (before === after) {
+      return []
+    }
+    if (before instanceof Date && after instanceof Date && before.getTime() === after.getTime()) {
+      return []
+    }
+    const bothArrays = Array.isArray(before) && Array.isArray(after)
+    const bothObjects = this.isStructure(before) && this.isStructure(after) && !Array.isArray(before) && !Array.isArray(after)
+    if (!bothArrays && !bothObjects) {
+      return [{ path, type: 'changed', before, after }]
+    }
+    const beforeRecord = before as Record<string, unknown>
+    const afterRecord = after as Record<string, unknown>
+    const beforeKeys = Object.keys(beforeRecord)
+    const keys = [...beforeKeys, ...Object.keys(afterRecord).filter(key => beforeKeys.indexOf(key) === -1)]
+    const changes: Array<DataChange> = []
+    for (const key of keys) {
+      const fieldPath = [...path, bothArrays ? Number(key) : key]
+      if (!(key in afterRecord)) {
+        changes.push({ path: fieldPath, type: 'removed', before: beforeRecord[key] })
+      } else if (!(key in beforeRecord)) {
+        changes.push({ path: fieldPath, type: 'added', after: afterRecord[key] })
+      } else {
+        changes.push(...this.diff(beforeRecord[key], afterRecord[key], fieldPath))
+      }
+    }
+    return changes
+  }
+
+  static formatValue (value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString()
+    }
+    const json = JSON.stringify(value)
+    return json === undefined ? String(value) : json
+  }
+
+  /**
+   * Returns the changes as lines such as ~ data.age: 20 -> 30
+   *
+   * @param changes Changes to format
+   */
+  static formatDiff (changes: Array<DataChange>): string {
+    return changes.map(change => {
+      const path = Schemas.formatPath(change.path)
+      switch (change.type) {
+        case 'added':
+          return `+ ${path}: ${this.formatValue(change.after)}`
+        case 'removed':
+          return `- ${path}: ${this.formatValue(change.before)}`
+        case 'changed':
+          return `~ ${path}: ${this.formatValue(change.before)} -> ${this.formatValue(change.after)}`
+      }
+    }).join('\n')
+  }
+}
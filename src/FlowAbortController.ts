@@ -0,0 +1,44 @@
+import { AbortSignalInterface } from './interfaces/AbortSignal'
+
+export class FlowAbortSignal implements AbortSignalInterface {
+  aborted = false
+  reason?: unknown
+  readonly listeners: Set<() => void> = new Set()
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  addEventListener (type: 'abort', listener: () => void): void {
+    this.listeners.add(listener)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  removeEventListener (type: 'abort', listener: () => void): void {
+    this.listeners.delete(listener)
+  }
+}
+
+/**
+ * Creates a signal to cancel runs with, for environments
+ * without an AbortController
+ */
+export class FlowAbortController {
+  readonly signal = new FlowAbortSignal()
+
+  /**
+   * Abort the signal and call its listeners. Aborting more
+   * than once does nothing.
+   *
+   * @param reason Why the flow is aborted
+   */
+  abort (reason?: unknown): void {
+    const { signal } = this
+    if (signal.aborted) {
+      return
+    }
+    signal.aborted = true
+    signal.reason = reason
+    // Listeners may remove themselves while they are called
+    for (const listener of [...signal.listeners]) {
+      listener()
+    }
+  }
+}
@@ -0,0 +1,383 @@
+import { EventEmitter } from 'events'
+import { PromptCollector } from './Prompt'
+import { PromptNode } from './PromptNode'
+import { PromptRunner, PromptRunnerOptions, PromptRunnerRunOptions } from './PromptRunner'
+import { ChannelInterface, ChannelCapabilities } from './interfaces/Channel'
+import { MessageInterface } from './interfaces/Message'
+import { PluginInterface } from './interfaces/Plugin'
+import { VisualInterface } from './interfaces/Visual'
+import { ManualClock } from './clocks/ManualClock'
+import { Rejection } from './errors/Rejection'
+import { UserLoopStopError } from './errors/user/UserLoopStopError'
+import { VisualRenderer } from './VisualRenderer'
+
+export type FlowTestStep = {
+  type: 'message';
+  content: string;
+}|{
+  type: 'click';
+  /**
+   * Value of the clicked button
+   */
+  value: string;
+}|{
+  type: 'reject';
+  content: string;
+  /**
+   * Expected message of the rejection
+   */
+  message?: string;
+}|{
+  type: 'exit';
+}|{
+  type: 'back';
+}|{
+  type: 'advance';
+  ms: number;
+}
+
+/**
+ * What happened to a step. Messages that end the prompt without
+ * being accepted, such as when the prompt function throws an
+ * error that is not a rejection, are an error. The stop keyword
+ * of a loop is stopped.
+ */
+export type FlowTestOutcome = 'accept'|'reject'|'ignore'|'stopped'|'error'|'exit'|'back'|'advance'
+
+type FlowTestState<DataType, MessageType extends MessageInterface> = {
+  /**
+   * Collector that is waiting for input
+   */
+  collector: PromptCollector<unknown, MessageType>|null;
+  /**
+   * Data of the last node of the tree that started. Prompts
+   * within a sub-flow do not change it.
+   */
+  data: DataType;
+  outcome: 'accept'|'reject'|'ignore'|'stopped'|null;
+  rejection: Rejection|null;
+  /**
+   * Inactivity warnings that are being sent
+   */
+  warnings: Array<Promise<void>>;
+}
+
+export interface FlowTestStepResult<DataType> {
+  step: FlowTestStep;
+  outcome: FlowTestOutcome;
+  /**
+   * Data after the step
+   */
+  data: DataType;
+  /**
+   * Visuals sent during the step
+   */
+  visuals: Array<VisualInterface>;
+  /**
+   * Message of the rejection if the input was rejected
+   */
+  rejection?: string;
+}
+
+export interface FlowTestResult<DataType> {
+  /**
+   * All visuals that were sent
+   */
+  visuals: Array<VisualInterface>;
+  /**
+   * IDs of the nodes that completed, in order
+   */
+  path: Array<string>;
+  /**
+   * Whether the run ended, either with data or an error
+   */
+  finished: boolean;
+  /**
+   * Data the run resolved with
+   */
+  data?: DataType;
+  /**
+   * Error the run rejected with
+   */
+  error?: Error;
+  steps: Array<FlowTestStepResult<DataType>>;
+}
+
+export interface FlowTesterOptions<DataType, MessageType extends MessageInterface> {
+  /**
+   * Options of the runner. The clock and collectors are always
+   * replaced by the tester's.
+   */
+  runner?: PromptRunnerOptions<DataType, MessageType>;
+  /**
+   * Options of each run, such as a deadline by the tester's
+   * clock, which starts at 0
+   */
+  run?: PromptRunnerRunOptions;
+  /**
+   * Create a message from its content. Defaults to an object
+   * with only the content.
+   */
+  createMessage?: (content: string) => MessageType;
+  /**
+   * Parts of visuals the channel of the tester can show.
+   * Defaults to none, so visuals are recorded as text.
+   */
+  capabilities?: ChannelCapabilities;
+}
+
+/**
+ * Channel that records every visual sent to it
+ */
+export class RecordingChannel<MessageType extends MessageInterface> implements ChannelInterface<MessageType> {
+  readonly visuals: Array<VisualInterface> = []
+  readonly createMessage: (content: string) => MessageType
+  readonly capabilities?: ChannelCapabilities
+
+  constructor (createMessage: (content: string) => MessageType, capabilities?: ChannelCapabilities) {
+    this.createMessage = createMessage
+    this.capabilities = capabilities
+  }
+
+  async send (visual: VisualInterface): Promise<MessageType> {
+    this.visuals.push(visual)
+    return this.createMessage(visual.text)
+  }
+}
+
+/**
+ * Runs a tree with scripted input and records what happens,
+ * without real collectors or timers
+ */
+export class FlowTester<DataType, MessageType extends MessageInterface> {
+  readonly rootNode: PromptNode<DataType, MessageType>
+  readonly initialData: DataType
+  readonly options: FlowTesterOptions<DataType, MessageType>
+
+  /**
+   * @param rootNode Root prompt node
+   * @param initialData Data the root node starts with
+   * @param options Tester options
+   */
+  constructor (rootNode: PromptNode<DataType, MessageType>, initialData: DataType, options: FlowTesterOptions<DataType, MessageType> = {}) {
+    this.rootNode = rootNode
+    this.initialData = initialData
+    this.options = options
+  }
+
+  /**
+   * Expect the input to be rejected, optionally with a message
+   *
+   * @param content Message content
+   * @param message Expected message of the rejection
+   */
+  static expectReject (content: string, message?: string): FlowTestStep {
+    return {
+      type: 'reject',
+      content,
+      message
+    }
+  }
+
+  /**
+   * Click a button of the last visual with buttons, which sends
+   * a message with its value. The step fails if that visual has
+   * no button with the value.
+   *
+   * @param value Value of the button
+   */
+  static click (value: string): FlowTestStep {
+    return {
+      type: 'click',
+      value
+    }
+  }
+
+  static exit (): FlowTestStep {
+    return {
+      type: 'exit'
+    }
+  }
+
+  static back (): FlowTestStep {
+    return {
+      type: 'back'
+    }
+  }
+
+  /**
+   * Move the time forward, running the timers that are due
+   *
+   * @param ms Milliseconds to move forward
+   */
+  static advance (ms: number): FlowTestStep {
+    return {
+      type: 'advance',
+      ms
+    }
+  }
+
+  /**
+   * Run the tree with every step of the script in order. Each
+   * step waits until the tree is waiting for input again.
+   *
+   * @param script Steps, where strings are message contents
+   */
+  async run (script: Array<string|FlowTestStep>): Promise<FlowTestResult<DataType>> {
+    const createMessage = this.options.createMessage || ((content: string): MessageType => ({ content } as MessageType))
+    const channel = new RecordingChannel(createMessage, this.options.capabilities)
+    const clock = new ManualClock()
+    const listeners: Set<() => void> = new Set()
+    const changed = (): void => listeners.forEach(listener => listener())
+    const waitUntil = (check: () => boolean): Promise<void> => new Promise(resolve => {
+      const listener = (): void => {
+        if (check()) {
+          listeners.delete(listener)
+          resolve()
+        }
+      }
+      listeners.add(listener)
+      listener()
+    })
+    const state: FlowTestState<DataType, MessageType> = {
+      collector: null,
+      data: this.initialData,
+      outcome: null,
+      rejection: null,
+      warnings: []
+    }
+    const createCollector = <CollectorDataType>(): PromptCollector<CollectorDataType, MessageType> => {
+      const emitter: PromptCollector<CollectorDataType, MessageType> = new EventEmitter()
+      // These listeners are added before the prompt's, so they run first
+      emitter.once('accept', () => {
+        state.outcome = 'accept'
+      })
+      emitter.on('reject', (message: MessageType, error: Rejection) => {
+        state.rejection = error
+      })
+      emitter.on('retry', () => {
+        state.outcome = 'reject'
+        changed()
+      })
+      emitter.on('ignore', () => {
+        state.outcome = 'ignore'
+        changed()
+      })
+      emitter.once('error', (err: Error) => {
+        if (err instanceof UserLoopStopError) {
+          state.outcome = 'stopped'
+        }
+      })
+      emitter.on('warning', (sending: Promise<void>) => {
+        state.warnings.push(sending)
+      })
+      emitter.once('stop', () => {
+        if (state.collector === emitter) {
+          state.collector = null
+        }
+        changed()
+      })
+      state.collector = emitter
+      changed()
+      return emitter
+    }
+    // Plugins only run for the nodes of the tree itself and not
+    // those of its sub-flows, which have data of their own
+    const recorder: PluginInterface<DataType, MessageType> = {
+      beforeNode: async (context): Promise<void> => {
+        state.data = context.data
+      }
+    }
+    const runnerOptions = this.options.runner || {}
+    const runner = new PromptRunner<DataType, MessageType>(this.initialData, {
+      ...runnerOptions,
+      plugins: [...(runnerOptions.plugins || []), recorder],
+      clock,
+      createCollector
+    })
+    const result: FlowTestResult<DataType> = {
+      visuals: channel.visuals,
+      path: [],
+      finished: false,
+      steps: []
+    }
+    runner.run(this.rootNode, channel, this.options.run)
+      .then(data => {
+        result.data = data
+      }, (err: Error) => {
+        result.error = err
+      })
+      .then(() => {
+        result.finished = true
+        changed()
+      })
+    const waitForInput = (): Promise<void> => waitUntil(() => result.finished || !!state.collector)
+    await waitForInput()
+    for (const item of script) {
+      const step: FlowTestStep = typeof item === 'string'
+        ? { type: 'message', content: item }
+        : item
+      const active = state.collector
+      if (result.finished || !active) {
+        throw new Error(`The flow ended before step ${result.steps.length + 1} (${JSON.stringify(step)})`)
+      }
+      const visualCount = channel.visuals.length
+      state.outcome = null
+      state.rejection = null
+      let stepOutcome: FlowTestOutcome
+      if (step.type === 'message' || step.type === 'reject' || step.type === 'click') {
+        if (step.type === 'click') {
+          const withButtons = channel.visuals.filter(visual => VisualRenderer.getButtons(visual).length > 0)
+          const lastButtons = withButtons.length > 0 ? VisualRenderer.getButtons(withButtons[withButtons.length - 1]) : []
+          const button = lastButtons.find(b => b.value === step.value)
+          if (!button) {
+            throw new Error(`Expected a button with the value "${step.value}" to click, but the last visual with buttons has ${lastButtons.length > 0 ? lastButtons.map(b => `"${b.value}"`).join(', ') : 'none'}`)
+          }
+          active.emit('message', VisualRenderer.createClick(createMessage(step.value), button))
+        } else {
+          active.emit('message', createMessage(step.content))
+        }
+        // Rejected and ignored input keeps the same collector
+        await waitUntil(() => state.outcome === 'reject' || state.outcome === 'ignore' || (state.collector !== active && (result.finished || !!state.collector)))
+        const outcome = state.outcome as FlowTestState<DataType, MessageType>['outcome']
+        stepOutcome = outcome || (state.rejection ? 'reject' : 'error')
+      } else if (step.type === 'advance') {
+        clock.advance(step.ms)
+        // Failed warnings end the run, which is waited for below
+        await Promise.all(state.warnings.splice(0).map(sending => sending.catch((): void => undefined)))
+        await waitUntil(() => state.collector === active || result.finished || !!state.collector)
+        stepOutcome = 'advance'
+      } else {
+        if (step.type === 'exit') {
+          active.emit('exit')
+        } else {
+          active.emit('back')
+        }
+        await waitForInput()
+        stepOutcome = step.type
+      }
+      // The listeners change the state, which narrowing does not know about
+      const rejection = state.rejection as Rejection|null
+      const rejectionMessage = rejection ? rejection.message : undefined
+      const finishedData = result.finished && !result.error ? result.data as DataType : state.data
+      result.steps.push({
+        step,
+        outcome: stepOutcome,
+        data: state.collector ? state.data : finishedData,
+        visuals: channel.visuals.slice(visualCount),
+        rejection: rejectionMessage
+      })
+      if (step.type === 'reject') {
+        if (stepOutcome !== 'reject') {
+          throw new Error(`Expected "${step.content}" to be rejected, but the outcome was ${stepOutcome}`)
+        }
+        if (step.message !== undefined && step.message !== rejectionMessage) {
+          throw new Error(`Expected "${step.content}" to be rejected with "${step.message}", but got "${rejectionMessage}"`)
+        }
+      }
+    }
+    const ids = runner.getTreeNodeIDs(this.rootNode)
+    result.path = runner.history.map(entry => ids.get(entry.node) as string)
+    return result
+  }
+}
@@ -0,0 +1,253 @@
+import { Prompt, PromptOptions, MessageFilter } from './Prompt'
+import { Parser } from './Parsers'
+import { MessageInterface } from './interfaces/Message'
+import { VisualInterface } from './interfaces/Visual'
+import { ChannelInterface } from './interfaces/Channel'
+import { Rejection } from './errors/Rejection'
+import { FormRejection, FormFieldFailure } from './errors/FormRejection'
+import { Localizer, LocalizationContext } from './Localizer'
+
+export interface FormField<DataType, FieldType extends keyof DataType = keyof DataType> {
+  /**
+   * Field of the data to set to the parsed value
+   */
+  field: FieldType;
+  /**
+   * Name of the field in visuals and rejections, which is
+   * also accepted as the key of key=value answers
+   */
+  label: string;
+  parser: Parser<DataType[FieldType]>;
+}
+
+export interface Form<DataType> {
+  /**
+   * Text shown above the fields
+   */
+  title: string;
+  fields: Array<FormField<DataType>>;
+  /**
+   * Separator of the values in a one-shot answer. Defaults to
+   * a comma.
+   */
+  delimiter?: string;
+}
+
+export interface FormAnswer<DataType> {
+  /**
+   * Parsed values of the fields that were valid
+   */
+  values: Partial<DataType>;
+  failures: Array<FormFieldFailure>;
+}
+
+export abstract class FormPrompt<DataType, MessageType extends MessageInterface> extends Prompt<DataType, MessageType> {
+  readonly form: Form<DataType>
+  /**
+   * What the filter decided for each message that reaches the
+   * prompt function
+   */
+  readonly answers: WeakMap<MessageType, Partial<DataType>|FormRejection>
+
+  /**
+   * @param form Fields to collect and how to parse them
+   * @param duration Duration of the collector in milliseconds
+   * @param options Prompt options
+   */
+  constructor (form: Form<DataType>, duration = 0, options: PromptOptions<DataType, MessageType> = {}) {
+    const answers: WeakMap<MessageType, Partial<DataType>|FormRejection> = new WeakMap()
+    super(async (data: DataType, localization: LocalizationContext) => FormPrompt.getFormVisual(form, localization), async (message: MessageType, data: DataType): Promise<DataType> => {
+      const answer = answers.get(message)
+      if (answer instanceof FormRejection) {
+        throw answer
+      }
+      return {
+        ...data,
+        ...answer
+      }
+    }, duration, options)
+    this.form = form
+    this.answers = answers
+  }
+
+  static getDelimiter<DataType> (form: Form<DataType>): string {
+    return form.delimiter || ','
+  }
+
+  /**
+   * Returns the title followed by the fields to answer with
+   *
+   * @param form Form to render
+   * @param localization Locale and messages of the prompt
+   */
+  static getFormVisual<DataType> (form: Form<DataType>, localization = new Localizer().createContext()): VisualInterface {
+    const labels = form.fields.map(field => field.label)
+    const fields = localization.t('forms.fields', {
+      fields: labels.join(`${this.getDelimiter(form)} `)
+    })
+    return {
+      text: `${form.title}\n${fields}`
+    }
+  }
+
+  /**
+   * Returns the line that asks for a single field
+   *
+   * @param field Field to ask for
+   * @param localization Locale and messages of the prompt
+   */
+  static getFieldQuestion<DataType> (field: FormField<DataType>, localization = new Localizer().createContext()): string {
+    return localization.t('forms.question', {
+      field: field.label
+    })
+  }
+
+  /**
+   * Parse the value of a field, returning the failure if the
+   * parser rejects it
+   *
+   * @param field Field of the value
+   * @param content Value to parse
+   * @param values Values to set the parsed value in
+   * @param localization Locale and messages of the prompt
+   */
+  static parseField<DataType> (field: FormField<DataType>, content: string, values: Partial<DataType>, localization = new Localizer().createContext()): FormFieldFailure|null {
+    try {
+      values[field.field] = field.parser(content.trim())
+      return null
+    } catch (err) {
+      if (!(err instanceof Rejection)) {
+        throw err
+      }
+      return {
+        label: field.label,
+        message: Localizer.localizeRejection(err, localization).message
+      }
+    }
+  }
+
+  /**
+   * Returns the field that a key of a key=value pair names,
+   * matching its label or field name while ignoring case
+   *
+   * @param form Form of the field
+   * @param key Key of the pair
+   */
+  static findField<DataType> (form: Form<DataType>, key: string): FormField<DataType>|undefined {
+    const input = key.trim().toLowerCase()
+    return form.fields.find(field => field.label.toLowerCase() === input || String(field.field).toLowerCase() === input)
+  }
+
+  /**
+   * Parse a one-shot answer. Answers with an equals sign are
+   * key=value pairs in any order, and other answers are values
+   * in the order of the fields. Empty values are left missing.
+   *
+   * @param form Form to answer
+   * @param content Message content
+   * @param localization Locale and messages of the prompt
+   */
+  static parseAnswer<DataType> (form: Form<DataType>, content: string, localization = new Localizer().createContext()): FormAnswer<DataType> {
+    const values: Partial<DataType> = {}
+    const failures: Array<FormFieldFailure> = []
+    const parts = content.split(this.getDelimiter(form))
+    if (content.includes('=')) {
+      for (const part of parts) {
+        const separator = part.indexOf('=')
+        const key = separator === -1 ? part : part.slice(0, separator)
+        if (!key.trim()) {
+          continue
+        }
+        const field = this.findField(form, key)
+        if (!field) {
+          failures.push({
+            label: key.trim(),
+            message: localization.t('forms.unknownField')
+          })
+          continue
+        }
+        const value = separator === -1 ? '' : part.slice(separator + 1)
+        const failure = value.trim() ? this.parseField(field, value, values, localization) : null
+        if (failure) {
+          failures.push(failure)
+        }
+      }
+    } else {
+      const { fields } = form
+      if (parts.length > fields.length) {
+        failures.push({
+          label: fields[fields.length - 1].label,
+          message: localization.t('forms.tooManyValues', {
+            count: fields.length
+          })
+        })
+      }
+      parts.slice(0, fields.length).forEach((part, index) => {
+        const failure = part.trim() ? this.parseField(fields[index], part, values, localization) : null
+        if (failure) {
+          failures.push(failure)
+        }
+      })
+    }
+    return {
+      values,
+      failures
+    }
+  }
+
+  /**
+   * Answers that leave fields missing are ignored by the
+   * message filter after the next field is asked for
+   */
+  handlesFilteredAnswers (): boolean {
+    return true
+  }
+
+  /**
+   * Handle answers until every field has a valid value. The
+   * first answer may have every field, and the fields that
+   * are still missing or invalid are then asked for one at a
+   * time. Answers with invalid values reach the prompt function
+   * to be rejected with a FormRejection that names the fields,
+   * and the answer that completes the form reaches it to be
+   * merged into the data. The values are tracked per collector,
+   * so this prompt can be used by several runs at once.
+   *
+   * @param channel The channel to collect from
+   * @param data The data before this prompt
+   * @param localization Locale and messages of the prompt
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  createMessageFilter (channel: ChannelInterface<MessageType>, data: DataType, localization = new Localizer().createContext()): MessageFilter<MessageType> {
+    const { fields } = this.form
+    let values: Partial<DataType> = {}
+    let asking: FormField<DataType>|null = null
+    return async (message: MessageType): Promise<boolean> => {
+      const failures: Array<FormFieldFailure> = []
+      if (asking) {
+        const failure = FormPrompt.parseField(asking, message.content, values, localization)
+        if (failure) {
+          failures.push(failure)
+        }
+      } else {
+        const answer = FormPrompt.parseAnswer(this.form, message.content, localization)
+        values = answer.values
+        failures.push(...answer.failures)
+      }
+      const missing = fields.filter(field => !(field.field in values))
+      asking = missing.length > 0 ? missing[0] : null
+      if (failures.length > 0) {
+        this.answers.set(message, new FormRejection(failures, asking ? FormPrompt.getFieldQuestion(asking, localization) : undefined))
+        return true
+      }
+      if (asking) {
+        await this.sendVisual({
+          text: FormPrompt.getFieldQuestion(asking, localization)
+        }, channel)
+        return false
+      }
+      this.answers.set(message, values)
+      return true
+    }
+  }
+}
@@ -0,0 +1,328 @@
+import { Rejection } from './errors/Rejection'
+
+export type PluralCategory = 'zero'|'one'|'two'|'few'|'many'|'other'
+
+/**
+ * Forms of a message for each plural category of a locale,
+ * chosen by the count parameter
+ */
+export type PluralMessage = {
+  [category in PluralCategory]?: string;
+} & {
+  other: string;
+}
+
+export type CatalogMessage = string|PluralMessage
+
+/**
+ * Messages of a locale keyed by their ID
+ */
+export interface MessageCatalog {
+  [id: string]: CatalogMessage;
+}
+
+/**
+ * Values for the {name} placeholders of a message. The count
+ * parameter also chooses the form of plural messages.
+ */
+export interface MessageParams {
+  [name: string]: unknown;
+}
+
+/**
+ * Returns the plural category of a count
+ */
+export type PluralRule = (count: number) => PluralCategory
+
+export interface LocalizerOptions {
+  /**
+   * Locale for runs that resolve none, and whose catalog is
+   * used for the messages that other catalogs miss. Defaults
+   * to "en".
+   */
+  defaultLocale?: string;
+  catalogs?: {
+    [locale: string]: MessageCatalog;
+  };
+  /**
+   * Plural rules of locales that Intl.PluralRules does not
+   * support
+   */
+  pluralRules?: {
+    [locale: string]: PluralRule;
+  };
+  /**
+   * Called when a locale has no message for an ID, once per
+   * locale and ID. Missing messages are not reported by default.
+   */
+  onMissing?: (id: string, locale: string) => void;
+}
+
+export interface LocalizationContext {
+  /**
+   * Locale of the current prompt
+   */
+  locale: string;
+  /**
+   * Returns the message of an ID in the locale
+   *
+   * @param id Message ID
+   * @param params Values of the placeholders
+   */
+  t: (id: string, params?: MessageParams) => string;
+}
+
+/**
+ * English messages of the errors and parsers of this library,
+ * which are used when no catalog has them
+ */
+export const BUILT_IN_MESSAGES: MessageCatalog = {
+  'errors.inactivity': 'User reached timeout for inactivity',
+  'errors.exit': 'User voluntarily exited prompt',
+  'errors.back': 'User navigated back to the previous prompt',
+  'errors.rejectionLimit': 'User reached the limit of rejected attempts',
+  'errors.sessionTimeout': 'User did not finish before the session deadline',
+  'forms.fields': 'Answer with: {fields}',
+  'forms.question': 'Please enter {field}',
+  'forms.unknownField': 'Unknown field',
+  'forms.tooManyValues': 'Expected at most {count} values',
+  'menus.choice': 'Please choose one of: {choices}',
+  'pages.footer': 'Page {page} of {count}',
+  'pages.footer.navigation': 'Page {page} of {count} (next, prev, page <number>)',
+  'parsers.number': 'Please enter a number',
+  'parsers.number.between': 'Please enter a number between {min} and {max}',
+  'parsers.number.min': 'Please enter a number of at least {min}',
+  'parsers.number.max': 'Please enter a number of at most {max}',
+  'parsers.integer': 'Please enter a whole number',
+  'parsers.integer.between': 'Please enter a whole number between {min} and {max}',
+  'parsers.integer.min': 'Please enter a whole number of at least {min}',
+  'parsers.integer.max': 'Please enter a whole number of at most {max}',
+  'parsers.text.between': 'Please enter a text with a length between {min} and {max}',
+  'parsers.text.min': 'Please enter a text with a length of at least {min}',
+  'parsers.list.between': 'Please enter a list separated by "{separator}" with a number of items between {min} and {max}',
+  'parsers.list.min': 'Please enter a list separated by "{separator}" with a number of items of at least {min}',
+  'parsers.regex': 'Please enter a valid value',
+  'parsers.yesNo': 'Please answer yes or no',
+  'parsers.oneOf': 'Please enter one of: {choices}',
+  'parsers.email': 'Please enter a valid email address',
+  'parsers.url': 'Please enter a valid URL',
+  'parsers.isoDate': 'Please enter a date such as 2020-04-30',
+  'visuals.choice': 'Please choose one of: {choices}'
+}
+
+type PluralRulesConstructor = new (locale: string) => {
+  select (count: number): string;
+}
+
+export class Localizer {
+  readonly defaultLocale: string
+  readonly catalogs: Map<string, MessageCatalog> = new Map()
+  readonly pluralRules: Map<string, PluralRule> = new Map()
+  readonly onMissing: (id: string, locale: string) => void
+  /**
+   * Locales and IDs that were reported missing
+   */
+  readonly missing: Set<string> = new Set()
+
+  /**
+   * @param options Catalogs, plural rules and missing message reports
+   */
+  constructor (options: LocalizerOptions = {}) {
+    const { catalogs = {}, pluralRules = {} } = options
+    this.defaultLocale = options.defaultLocale || 'en'
+    this.onMissing = options.onMissing || ((): void => undefined)
+    for (const locale of Object.keys(catalogs)) {
+      this.addCatalog(locale, catalogs[locale])
+    }
+    for (const locale of Object.keys(pluralRules)) {
+      this.pluralRules.set(locale, pluralRules[locale])
+    }
+  }
+
+  /**
+   * Add messages to the catalog of a locale, replacing the
+   * ones with the same IDs
+   *
+   * @param locale Locale of the messages
+   * @param catalog Messages to add
+   */
+  addCatalog (locale: string, catalog: MessageCatalog): this {
+    this.catalogs.set(locale, {
+      ...this.catalogs.get(locale),
+      ...catalog
+    })
+    return this
+  }
+
+  /**
+   * Returns the language of a locale, such as "pt" for "pt-BR"
+   *
+   * @param locale Locale
+   */
+  static getLanguage (locale: string): string {
+    return locale.split('-')[0]
+  }
+
+  /**
+   * Returns the plural category of a count in the English
+   * rules, for locales without any rules
+   *
+   * @param count Count
+   */
+  static getDefaultPluralCategory (count: number): PluralCategory {
+    return count === 1 ? 'one' : 'other'
+  }
+
+  /**
+   * Replace the {name} placeholders of a message with its
+   * parameters. Placeholders without a parameter are kept.
+   *
+   * @param text Message
+   * @param params Values of the placeholders
+   */
+  static interpolate (text: string, params: MessageParams = {}): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name]
+      if (value === undefined || value === null) {
+        return placeholder
+      }
+      return Array.isArray(value) ? value.join(', ') : String(value)
+    })
+  }
+
+  /**
+   * Returns the English text of a built-in message
+   *
+   * @param id Message ID
+   * @param params Values of the placeholders
+   */
+  static getBuiltIn (id: string, params: MessageParams = {}): string {
+    const message = BUILT_IN_MESSAGES[id]
+    if (message === undefined) {
+      return id
+    }
+    return this.format(message, params, count => this.getDefaultPluralCategory(count))
+  }
+
+  /**
+   * Choose the form of a message for the count parameter and
+   * interpolate its parameters
+   *
+   * @param message Message of a catalog
+   * @param params Values of the placeholders
+   * @param rule Plural rule of the locale
+   */
+  static format (message: CatalogMessage, params: MessageParams, rule: PluralRule): string {
+    if (typeof message === 'string') {
+      return this.interpolate(message, params)
+    }
+    const count = typeof params.count === 'number' ? params.count : 0
+    return this.interpolate(message[rule(count)] || message.other, params)
+  }
+
+  /**
+   * Set the message of a rejection to its message in a locale,
+   * if it has an ID
+   *
+   * @param rejection Rejection to localize
+   * @param context Localization of the current prompt
+   */
+  static localizeRejection<T extends Rejection> (rejection: T, context: LocalizationContext): T {
+    if (rejection.id !== undefined) {
+      rejection.message = context.t(rejection.id, rejection.params)
+    }
+    return rejection
+  }
+
+  /**
+   * Returns the plural rule of a locale, from the given rules
+   * or from Intl.PluralRules if it supports the locale
+   *
+   * @param locale Locale
+   */
+  getPluralRule (locale: string): PluralRule {
+    const rule = this.pluralRules.get(locale) || this.pluralRules.get(Localizer.getLanguage(locale))
+    if (rule) {
+      return rule
+    }
+    const { PluralRules } = Intl as unknown as { PluralRules?: PluralRulesConstructor }
+    if (!PluralRules) {
+      return Localizer.getDefaultPluralCategory
+    }
+    const rules = new PluralRules(locale)
+    return (count: number): PluralCategory => rules.select(count) as PluralCategory
+  }
+
+  /**
+   * Returns the message of an ID in a locale or its language,
+   * where English also has the built-in messages
+   *
+   * @param locale Locale
+   * @param id Message ID
+   */
+  find (locale: string, id: string): CatalogMessage|undefined {
+    const language = Localizer.getLanguage(locale)
+    const catalogs = [this.catalogs.get(locale), this.catalogs.get(language)]
+    if (language === 'en') {
+      catalogs.push(BUILT_IN_MESSAGES)
+    }
+    for (const catalog of catalogs) {
+      if (catalog && catalog[id] !== undefined) {
+        return catalog[id]
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Report a missing message once per locale and ID
+   *
+   * @param id Message ID
+   * @param locale Locale without the message
+   */
+  reportMissing (id: string, locale: string): void {
+    const key = `${locale}:${id}`
+    if (this.missing.has(key)) {
+      return
+    }
+    this.missing.add(key)
+    this.onMissing(id, locale)
+  }
+
+  /**
+   * Returns the message of an ID in a locale. Messages that the
+   * locale does not have are reported, and fall back to the
+   * default locale, the built-in messages and then the ID.
+   *
+   * @param locale Locale
+   * @param id Message ID
+   * @param params Values of the placeholders
+   */
+  translate (locale: string, id: string, params: MessageParams = {}): string {
+    const message = this.find(locale, id)
+    if (message !== undefined) {
+      return Localizer.format(message, params, this.getPluralRule(locale))
+    }
+    this.reportMissing(id, locale)
+    const fallback = this.find(this.defaultLocale, id)
+    if (fallback !== undefined) {
+      return Localizer.format(fallback, params, this.getPluralRule(this.defaultLocale))
+    }
+    if (locale !== this.defaultLocale) {
+      this.reportMissing(id, this.defaultLocale)
+    }
+    return Localizer.getBuiltIn(id, params)
+  }
+
+  /**
+   * Create the context that visuals and prompts localize with
+   *
+   * @param locale Locale of the prompt
+   */
+  createContext (locale = this.defaultLocale): LocalizationContext {
+    return {
+      locale,
+      t: (id, params): string => this.translate(locale, id, params)
+    }
+  }
+}
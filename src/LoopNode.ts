@@ -0,0 +1,121 @@
+import { MessageFilter } from './Prompt'
+import { PromptNode, PromptNodeCondition } from './PromptNode'
+import { SubFlowNode } from './SubFlowNode'
+import { MessageInterface } from './interfaces/Message'
+import { UserLoopStopError } from './errors/user/UserLoopStopError'
+
+export interface Loop<DataType, ItemType, FieldType extends keyof DataType> {
+  /**
+   * Array field of the data that the result of every
+   * iteration is appended to
+   */
+  field: FieldType;
+  /**
+   * Returns the data an iteration starts with
+   *
+   * @param data The data before the iteration
+   * @param index Index of the item the iteration collects
+   */
+  start: (data: DataType, index: number) => Promise<ItemType>;
+  /**
+   * Checked after every iteration with the data that includes
+   * its item. The loop stops once it returns true.
+   */
+  until?: (data: DataType) => Promise<boolean>;
+  /**
+   * Message content that stops the loop from any prompt of an
+   * iteration, ignoring case. The iteration is dropped.
+   */
+  stopKeyword?: string;
+  /**
+   * Number of items the loop collects before it can stop
+   */
+  min?: number;
+  /**
+   * Number of items the loop stops at
+   */
+  max?: number;
+}
+
+/**
+ * Node that runs a child tree repeatedly to collect a list of
+ * items. Each iteration starts with its own data, and the data
+ * it finishes with is appended to an array field.
+ */
+export class LoopNode<DataType, ItemType, MessageType extends MessageInterface, FieldType extends keyof DataType = keyof DataType> extends SubFlowNode<DataType, ItemType, MessageType> {
+  readonly loop: Loop<DataType, ItemType, FieldType>
+
+  /**
+   * @param rootNode Root node of the tree that every iteration runs
+   * @param loop How to start each iteration and when to stop
+   * @param condition Condition for this node to run
+   * @param id Stable identifier of this node, used to resume sessions
+   */
+  constructor (rootNode: PromptNode<ItemType, MessageType>, loop: Loop<DataType, ItemType, FieldType>, condition?: PromptNodeCondition<DataType>, id?: string) {
+    super(rootNode, {
+      input: (data: DataType): Promise<ItemType> => loop.start(data, LoopNode.getItems(loop, data).length),
+      output: async (data: DataType, item: ItemType): Promise<DataType> => ({
+        ...data,
+        [loop.field]: [...LoopNode.getItems(loop, data), item]
+      })
+    }, condition, id)
+    this.loop = loop
+  }
+
+  /**
+   * Returns the items collected so far
+   *
+   * @param loop Loop of the items
+   * @param data Data with the array field
+   */
+  static getItems<DataType, ItemType, FieldType extends keyof DataType> (loop: Loop<DataType, ItemType, FieldType>, data: DataType): Array<ItemType> {
+    const items = data[loop.field] as unknown as Array<ItemType>|undefined
+    return items || []
+  }
+
+  /**
+   * Whether the loop has collected fewer items than its maximum
+   *
+   * @param data The data before the iteration
+   */
+  hasRoom (data: DataType): boolean {
+    const { max } = this.loop
+    return max === undefined || LoopNode.getItems(this.loop, data).length < max
+  }
+
+  /**
+   * Whether another iteration runs after one has finished
+   *
+   * @param data The data after the iteration
+   */
+  async shouldRepeat (data: DataType): Promise<boolean> {
+    const { min = 0, until } = this.loop
+    if (!this.hasRoom(data)) {
+      return false
+    }
+    if (LoopNode.getItems(this.loop, data).length < min || !until) {
+      return true
+    }
+    return !await until(data)
+  }
+
+  /**
+   * Create a filter that stops the loop with a UserLoopStopError
+   * when the stop keyword is sent. The keyword is passed on as
+   * input until the minimum number of items is collected.
+   *
+   * @param data The data before the iteration
+   */
+  createStopFilter (data: DataType): MessageFilter<MessageType>|undefined {
+    const { stopKeyword, min = 0 } = this.loop
+    if (stopKeyword === undefined || LoopNode.getItems(this.loop, data).length < min) {
+      return undefined
+    }
+    return async (message: MessageType): Promise<boolean> => {
+      if (message.content.trim().toLowerCase() === stopKeyword.toLowerCase()) {
+        throw new UserLoopStopError()
+      }
+      return true
+    }
+  }
+}
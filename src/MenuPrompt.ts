@@ -0,0 +1,126 @@
+import { Prompt, PromptOptions } from './Prompt'
+import { PromptNode, PromptNodeCondition } from './PromptNode'
+import { Parsers, Parser } from './Parsers'
+import { MessageInterface } from './interfaces/Message'
+import { VisualInterface } from './interfaces/Visual'
+
+export interface MenuOption<ValueType> {
+  label: string;
+  value: ValueType;
+  /**
+   * Other words that select this option
+   */
+  aliases?: Array<string>;
+}
+
+export interface Menu<DataType, FieldType extends keyof DataType> {
+  /**
+   * Text shown above the numbered options
+   */
+  title: string;
+  /**
+   * Field of the data to set to the value of the selected option
+   */
+  field: FieldType;
+  options: Array<MenuOption<DataType[FieldType]>>;
+  /**
+   * Message of the rejection for invalid input
+   */
+  message?: string;
+}
+
+export abstract class MenuPrompt<DataType, MessageType extends MessageInterface, FieldType extends keyof DataType = keyof DataType> extends Prompt<DataType, MessageType> {
+  readonly menu: Menu<DataType, FieldType>
+
+  /**
+   * @param menu Options to choose from and the field to set
+   * @param duration Duration of the collector in milliseconds
+   * @param options Prompt options
+   */
+  constructor (menu: Menu<DataType, FieldType>, duration = 0, options: PromptOptions<DataType, MessageType> = {}) {
+    super(MenuPrompt.getMenuVisual(menu), Parsers.bind(menu.field, MenuPrompt.createMenuParser(menu)), duration, options)
+    this.menu = menu
+  }
+
+  /**
+   * Returns the title followed by the numbered options
+   *
+   * @param menu Menu to render
+   */
+  static getMenuVisual<DataType, FieldType extends keyof DataType> (menu: Menu<DataType, FieldType>): VisualInterface {
+    const lines = menu.options.map((option, index) => `${index + 1}. ${option.label}`)
+    return {
+      text: [menu.title, ...lines].join('\n')
+    }
+  }
+
+  /**
+   * Returns the option selected by its label, one of its
+   * aliases or its number, ignoring case. Labels and aliases
+   * that are numbers win over the numbers of options.
+   *
+   * @param options Options to choose from
+   * @param content Message content
+   */
+  static findOption<ValueType> (options: Array<MenuOption<ValueType>>, content: string): MenuOption<ValueType>|undefined {
+    const input = content.trim().toLowerCase()
+    const named = options.find(option => {
+      const words = [option.label, ...(option.aliases || [])]
+      return words.some(word => word.toLowerCase() === input)
+    })
+    if (named || !/^\d+$/.test(input)) {
+      return named
+    }
+    return options[Number(input) - 1]
+  }
+
+  /**
+   * Create a parser that returns the value of the selected
+   * option, and rejects with the valid choices otherwise
+   *
+   * @param menu Menu to choose from
+   */
+  static createMenuParser<DataType, FieldType extends keyof DataType> (menu: Menu<DataType, FieldType>): Parser<DataType[FieldType]> {
+    return (content: string): DataType[FieldType] => {
+      const option = this.findOption(menu.options, content)
+      if (!option) {
+        const choices = menu.options.map((o, index) => `${index + 1}. ${o.label}`)
+        throw Parsers.createRejection(menu, 'menus.choice', {
+          choices
+        })
+      }
+      return option.value
+    }
+  }
+
+  /**
+   * Create a condition that passes when an option is selected.
+   * The condition is named after the option so that it shows
+   * up in exported diagrams.
+   *
+   * @param option Option to check for
+   */
+  createOptionCondition (option: MenuOption<DataType[FieldType]>): PromptNodeCondition<DataType> {
+    const { field } = this.menu
+    const condition = async (data: DataType): Promise<boolean> => data[field] === option.value
+    Object.defineProperty(condition, 'name', {
+      value: `${String(field)} is ${option.label}`
+    })
+    return condition
+  }
+
+  /**
+   * Create one conditional node per option, in the same order
+   * as the options. Set them as the children of this prompt's
+   * node to branch on the selection.
+   *
+   * @param prompts Prompt to run for each option
+   */
+  createNodes (prompts: Array<Prompt<DataType, MessageType>>): Array<PromptNode<DataType, MessageType>> {
+    const { options } = this.menu
+    if (prompts.length !== options.length) {
+      throw new Error(`Expected ${options.length} prompts for the menu options, but got ${prompts.length}`)
+    }
+    return options.map((option, index) => new PromptNode(prompts[index], this.createOptionCondition(option)))
+  }
+}
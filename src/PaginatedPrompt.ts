@@ -0,0 +1,157 @@
+import { Prompt, PromptFunction, PromptOptions, MessageFilter } from './Prompt'
+import { MessageInterface } from './interfaces/Message'
+import { VisualInterface } from './interfaces/Visual'
+import { ChannelInterface } from './interfaces/Channel'
+import { Localizer, LocalizationContext } from './Localizer'
+
+export interface PaginatedList<DataType, ItemType> {
+  /**
+   * Text shown above the items of every page
+   */
+  title?: string;
+  /**
+   * Items to list, or a function that returns them given the data
+   */
+  items: Array<ItemType>|((data: DataType) => Promise<Array<ItemType>>);
+  /**
+   * Number of items on each page, which must be a positive
+   * integer
+   */
+  pageSize: number;
+  /**
+   * Returns the line of an item
+   *
+   * @param item Item to format
+   * @param index Index of the item within all items
+   */
+  formatItem?: (item: ItemType, index: number) => string;
+}
+
+export abstract class PaginatedPrompt<DataType, MessageType extends MessageInterface, ItemType = string> extends Prompt<DataType, MessageType> {
+  readonly list: PaginatedList<DataType, ItemType>
+
+  /**
+   * @param list Items to list and how to show them
+   * @param f Prompt function, which receives every message that is not navigation
+   * @param duration Duration of the collector in milliseconds
+   * @param options Prompt options
+   */
+  constructor (list: PaginatedList<DataType, ItemType>, f?: PromptFunction<DataType, MessageType>, duration = 0, options: PromptOptions<DataType, MessageType> = {}) {
+    super(async (data: DataType, localization: LocalizationContext) => {
+      const items = await PaginatedPrompt.resolveItems(list, data)
+      return PaginatedPrompt.getPageVisual(list, items, 0, localization)
+    }, f, duration, options)
+    if (!Number.isInteger(list.pageSize) || list.pageSize < 1) {
+      throw new Error(`Page size must be a positive integer, but got ${list.pageSize}`)
+    }
+    this.list = list
+  }
+
+  /**
+   * Returns the items of a list given the data
+   *
+   * @param list Paginated list
+   * @param data Prompt data
+   */
+  static async resolveItems<DataType, ItemType> (list: PaginatedList<DataType, ItemType>, data: DataType): Promise<Array<ItemType>> {
+    const { items } = list
+    return typeof items === 'function' ? items(data) : items
+  }
+
+  static getPageCount (itemCount: number, pageSize: number): number {
+    return Math.max(1, Math.ceil(itemCount / pageSize))
+  }
+
+  /**
+   * Returns the visual of a page. Items are numbered across
+   * all pages so that their numbers do not depend on the page.
+   *
+   * @param list Paginated list
+   * @param items Items of the list
+   * @param page Index of the page
+   * @param localization Locale and messages of the prompt
+   */
+  static getPageVisual<DataType, ItemType> (list: PaginatedList<DataType, ItemType>, items: Array<ItemType>, page: number, localization = new Localizer().createContext()): VisualInterface {
+    const { title, pageSize } = list
+    const formatItem = list.formatItem || ((item: ItemType, index: number): string => `${index + 1}. ${item}`)
+    const start = page * pageSize
+    const lines = items.slice(start, start + pageSize)
+      .map((item, index) => formatItem(item, start + index))
+    const pageCount = this.getPageCount(items.length, pageSize)
+    const footer = localization.t(pageCount > 1 ? 'pages.footer.navigation' : 'pages.footer', {
+      page: page + 1,
+      count: pageCount
+    })
+    return {
+      text: [
+        ...(title ? [title] : []),
+        ...lines,
+        footer
+      ].join('\n')
+    }
+  }
+
+  /**
+   * Returns the page that navigation input moves to, or null
+   * if the input is not navigation. Pages beyond the first or
+   * last page stay on the first or last page.
+   *
+   * @param content Message content
+   * @param page Index of the current page
+   * @param pageCount Number of pages
+   */
+  static getNavigation (content: string, page: number, pageCount: number): number|null {
+    const input = content.trim().toLowerCase()
+    let target: number
+    if (input === 'next') {
+      target = page + 1
+    } else if (input === 'prev' || input === 'previous') {
+      target = page - 1
+    } else {
+      const match = input.match(/^page\s+(\d+)$/)
+      if (!match) {
+        return null
+      }
+      target = Number(match[1]) - 1
+    }
+    return Math.min(Math.max(target, 0), pageCount - 1)
+  }
+
+  /**
+   * Returns the item selected by its number across all pages
+   *
+   * @param items Items of the list
+   * @param content Message content
+   */
+  static findItem<ItemType> (items: Array<ItemType>, content: string): ItemType|undefined {
+    const input = content.trim()
+    if (!/^\d+$/.test(input)) {
+      return undefined
+    }
+    return items[Number(input) - 1]
+  }
+
+  /**
+   * Handle navigation input by sending the page it moves to.
+   * The current page is tracked per collector, so this prompt
+   * can be used by several runs at once.
+   *
+   * @param channel The channel to collect from
+   * @param data The data before this prompt
+   * @param localization Locale and messages of the prompt
+   */
+  createMessageFilter (channel: ChannelInterface<MessageType>, data: DataType, localization?: LocalizationContext): MessageFilter<MessageType> {
+    let page = 0
+    return async (message: MessageType): Promise<boolean> => {
+      const items = await PaginatedPrompt.resolveItems(this.list, data)
+      const pageCount = PaginatedPrompt.getPageCount(items.length, this.list.pageSize)
+      const target = PaginatedPrompt.getNavigation(message.content, page, pageCount)
+      if (target === null) {
+        return true
+      }
+      page = target
+      await this.sendVisual(PaginatedPrompt.getPageVisual(this.list, items, page, localization), channel)
+      return false
+    }
+  }
+}
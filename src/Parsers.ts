@@ -0,0 +1,335 @@
+import { URL } from 'url'
+import { PromptFunction } from './Prompt'
+import { MessageInterface } from './interfaces/Message'
+import { Rejection } from './errors/Rejection'
+import { Localizer, MessageParams } from './Localizer'
+
+/**
+ * Converts the content of a message into a value, or throws
+ * a Rejection if the content is invalid
+ */
+export type Parser<T> = (content: string) => T
+
+export interface ParserOptions {
+  /**
+   * Message of the rejection for invalid input
+   */
+  message?: string;
+}
+
+export interface RangeOptions extends ParserOptions {
+  min?: number;
+  max?: number;
+}
+
+export interface TextOptions extends ParserOptions {
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface YesNoOptions extends ParserOptions {
+  /**
+   * Words that mean yes, in lowercase
+   */
+  yes?: Array<string>;
+  /**
+   * Words that mean no, in lowercase
+   */
+  no?: Array<string>;
+}
+
+export interface ChoiceOptions extends ParserOptions {
+  caseSensitive?: boolean;
+}
+
+export interface URLOptions extends ParserOptions {
+  /**
+   * Allowed protocols, such as "https:"
+   */
+  protocols?: Array<string>;
+}
+
+export interface ListOptions extends ParserOptions {
+  separator?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const YES = ['yes', 'y', 'yeah', 'yep', 'sure', 'ok', 'true']
+const NO = ['no', 'n', 'nope', 'nah', 'false']
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export class Parsers {
+  /**
+   * Returns the ID of the built-in message for a value outside
+   * of a range, such as parsers.number.between
+   *
+   * @param id ID of the message for any value
+   * @param min Minimum of the range
+   * @param max Maximum of the range
+   */
+  static getRangeID (id: string, min?: number, max?: number): string {
+    if (min !== undefined && max !== undefined) {
+      return `${id}.between`
+    }
+    if (min !== undefined) {
+      return `${id}.min`
+    }
+    if (max !== undefined) {
+      return `${id}.max`
+    }
+    return id
+  }
+
+  /**
+   * Create the rejection for invalid input, with the message of
+   * the options or else a built-in message that runners with a
+   * Localizer translate
+   *
+   * @param options Parser options
+   * @param id ID of the built-in message
+   * @param params Values of the placeholders of the message
+   */
+  static createRejection (options: ParserOptions, id: string, params: MessageParams = {}): Rejection {
+    if (options.message) {
+      return new Rejection(options.message)
+    }
+    return new Rejection(Localizer.getBuiltIn(id, params), {
+      id,
+      params
+    })
+  }
+
+  /**
+   * Throw a rejection if a value is outside of a range
+   *
+   * @param value Value to check
+   * @param id ID of the built-in message for any value
+   * @param options Range options
+   */
+  static checkRange (value: number, id: string, options: RangeOptions): void {
+    const { min, max } = options
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      throw this.createRejection(options, this.getRangeID(id, min, max), { min, max })
+    }
+  }
+
+  /**
+   * Parse a number
+   *
+   * @param options Range options
+   */
+  static number (options: RangeOptions = {}): Parser<number> {
+    return (content: string): number => {
+      const trimmed = content.trim()
+      const value = Number(trimmed)
+      if (!trimmed || !isFinite(value)) {
+        throw this.createRejection(options, this.getRangeID('parsers.number', options.min, options.max), {
+          min: options.min,
+          max: options.max
+        })
+      }
+      this.checkRange(value, 'parsers.number', options)
+      return value
+    }
+  }
+
+  /**
+   * Parse a whole number
+   *
+   * @param options Range options
+   */
+  static integer (options: RangeOptions = {}): Parser<number> {
+    return (content: string): number => {
+      const trimmed = content.trim()
+      if (!/^[-+]?\d+$/.test(trimmed)) {
+        throw this.createRejection(options, this.getRangeID('parsers.integer', options.min, options.max), {
+          min: options.min,
+          max: options.max
+        })
+      }
+      const value = Number(trimmed)
+      this.checkRange(value, 'parsers.integer', options)
+      return value
+    }
+  }
+
+  /**
+   * Accept trimmed text that is not empty
+   *
+   * @param options Length options
+   */
+  static nonEmpty (options: TextOptions = {}): Parser<string> {
+    return (content: string): string => {
+      const trimmed = content.trim()
+      const { minLength = 1, maxLength } = options
+      if (trimmed.length < minLength || (maxLength !== undefined && trimmed.length > maxLength)) {
+        throw this.createRejection(options, this.getRangeID('parsers.text', minLength, maxLength), {
+          min: minLength,
+          max: maxLength
+        })
+      }
+      return trimmed
+    }
+  }
+
+  /**
+   * Accept trimmed text that matches a regular expression
+   *
+   * @param pattern Pattern the text must match
+   * @param options Parser options
+   */
+  static regex (pattern: RegExp, options: ParserOptions = {}): Parser<string> {
+    return (content: string): string => {
+      const trimmed = content.trim()
+      // Global patterns keep their last index between tests
+      pattern.lastIndex = 0
+      if (!pattern.test(trimmed)) {
+        throw this.createRejection(options, 'parsers.regex')
+      }
+      return trimmed
+    }
+  }
+
+  /**
+   * Parse a yes or no answer, ignoring case
+   *
+   * @param options Words that mean yes or no
+   */
+  static yesNo (options: YesNoOptions = {}): Parser<boolean> {
+    const { yes = YES, no = NO } = options
+    return (content: string): boolean => {
+      const word = content.trim().toLowerCase()
+      if (yes.indexOf(word) !== -1) {
+        return true
+      }
+      if (no.indexOf(word) !== -1) {
+        return false
+      }
+      throw this.createRejection(options, 'parsers.yesNo')
+    }
+  }
+
+  /**
+   * Accept one of a list of choices. The choice is returned
+   * as it is written in the list.
+   *
+   * @param choices Valid choices
+   * @param options Choice options
+   */
+  static oneOf<T extends string> (choices: Array<T>, options: ChoiceOptions = {}): Parser<T> {
+    const normalize = (text: string): string => options.caseSensitive ? text : text.toLowerCase()
+    return (content: string): T => {
+      const input = normalize(content.trim())
+      const choice = choices.find(c => normalize(c) === input)
+      if (choice === undefined) {
+        throw this.createRejection(options, 'parsers.oneOf', {
+          choices
+        })
+      }
+      return choice
+    }
+  }
+
+  /**
+   * Accept an email address
+   *
+   * @param options Parser options
+   */
+  static email (options: ParserOptions = {}): Parser<string> {
+    return (content: string): string => {
+      const trimmed = content.trim()
+      if (!EMAIL.test(trimmed)) {
+        throw this.createRejection(options, 'parsers.email')
+      }
+      return trimmed
+    }
+  }
+
+  /**
+   * Accept an absolute URL
+   *
+   * @param options URL options
+   */
+  static url (options: URLOptions = {}): Parser<string> {
+    const { protocols = ['http:', 'https:'] } = options
+    return (content: string): string => {
+      const trimmed = content.trim()
+      let url: URL
+      try {
+        url = new URL(trimmed)
+      } catch (err) {
+        throw this.createRejection(options, 'parsers.url')
+      }
+      if (protocols.indexOf(url.protocol) === -1) {
+        throw this.createRejection(options, 'parsers.url')
+      }
+      return url.href
+    }
+  }
+
+  /**
+   * Parse an ISO 8601 date, such as 2020-04-30 or
+   * 2020-04-30T10:00:00Z. Dates without a time are in UTC.
+   *
+   * @param options Parser options
+   */
+  static isoDate (options: ParserOptions = {}): Parser<Date> {
+    return (content: string): Date => {
+      const trimmed = content.trim()
+      const match = trimmed.match(ISO_DATE)
+      const date = new Date(trimmed)
+      if (!match || isNaN(date.getTime())) {
+        throw this.createRejection(options, 'parsers.isoDate')
+      }
+      // Dates such as 2020-02-30 would otherwise roll over into the next month
+      const [, year, month, day] = match
+      const calendarDate = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+      if (calendarDate.getUTCMonth() !== Number(month) - 1 || calendarDate.getUTCDate() !== Number(day)) {
+        throw this.createRejection(options, 'parsers.isoDate')
+      }
+      return date
+    }
+  }
+
+  /**
+   * Parse a separated list, parsing every item with another
+   * parser. Empty items are ignored.
+   *
+   * @param item Parser of each item
+   * @param options List options
+   */
+  static list<T> (item: Parser<T>, options: ListOptions = {}): Parser<Array<T>> {
+    const { separator = ',', minItems = 1, maxItems } = options
+    return (content: string): Array<T> => {
+      const items = content.split(separator)
+        .map(part => part.trim())
+        .filter(part => part.length > 0)
+      if (items.length < minItems || (maxItems !== undefined && items.length > maxItems)) {
+        throw this.createRejection(options, this.getRangeID('parsers.list', minItems, maxItems), {
+          separator,
+          min: minItems,
+          max: maxItems
+        })
+      }
+      return items.map(item)
+    }
+  }
+
+  /**
+   * Create a prompt function that parses the message content
+   * and sets the value in a copy of the data
+   *
+   * @param field Field of the data to set
+   * @param parser Parser of the message content
+   */
+  static bind<DataType, K extends keyof DataType> (field: K, parser: Parser<DataType[K]>): PromptFunction<DataType, MessageInterface> {
+    return async (message: MessageInterface, data: DataType): Promise<DataType> => ({
+      ...data,
+      [field]: parser(message.content)
+    })
+  }
+}
@@ -1,31 +1,217 @@
 import { Rejection } from './errors/Rejection'
 import { EventEmitter } from 'events';
 import { MessageInterface } from './interfaces/Message';
-import { VisualInterface } from './interfaces/Visual';
+import { VisualInterface, VisualButton } from './interfaces/Visual';
 import { ChannelInterface } from './interfaces/Channel';
 import { UserInactivityError } from './errors/user/UserInactivityError';
 import { UserVoluntaryExitError } from './errors/user/UserVoluntaryExitError';
+import { UserBackError } from './errors/user/UserBackError';
+import { UserRejectionLimitError } from './errors/user/UserRejectionLimitError';
+import { PromptNode } from './PromptNode';
+import { ClockInterface, ClockTimer } from './interfaces/Clock';
+import { SystemClock } from './clocks/SystemClock';
+import { PluginHookResult } from './interfaces/Plugin';
+import { AbortSignalInterface } from './interfaces/AbortSignal';
+import { FlowAbortedError } from './errors/FlowAbortedError';
+import { Localizer, LocalizationContext } from './Localizer';
+import { Template } from './Template';
+import { VisualRenderer } from './VisualRenderer';
 
 export type PromptFunction<DataType, MessageType extends MessageInterface> = (m: MessageType, data: DataType) => Promise<DataType>
 
 export interface PromptCollector<DataType, MessageType> extends EventEmitter {
   emit(event: 'reject', message: MessageType, error: Rejection): boolean;
+  emit(event: 'retry', message: MessageType, error: Rejection): boolean;
   emit(event: 'accept', message: MessageType, data: DataType): boolean;
   emit(event: 'exit'): boolean;
+  emit(event: 'back'): boolean;
   emit(event: 'inactivity'): boolean;
+  emit(event: 'warning', sending: Promise<void>): boolean;
   emit(event: 'error', error: Error): boolean;
   emit(event: 'message', message: MessageType): boolean;
+  emit(event: 'input', message: MessageType): boolean;
+  emit(event: 'ignore', message: MessageType): boolean;
   emit(event: 'stop'): boolean;
   on(event: 'message', listener: (message: MessageType) => void): this;
+  on(event: 'input', listener: (message: MessageType) => void): this;
+  on(event: 'ignore', listener: (message: MessageType) => void): this;
   on(event: 'reject', listener: (message: MessageType, error: Rejection) => void): this;
+  on(event: 'retry', listener: (message: MessageType, error: Rejection) => void): this;
+  on(event: 'warning', listener: (sending: Promise<void>) => void): this;
   once(event: 'accept', listener: (message: MessageType, data: DataType) => void): this;
   once(event: 'exit', listener: () => void): this;
+  once(event: 'back', listener: () => void): this;
   once(event: 'inactivity', listener: () => void): this;
   once(event: 'error', listener: (error: Error) => void): this;
   once(event: 'stop', listener: () => void): this;
 }
 
-export type VisualGenerator<DataType> = (data: DataType) => Promise<VisualInterface|VisualInterface[]>
+/**
+ * Returns the visual of a prompt. The context has the locale
+ * of the prompt and translates the messages of its catalog.
+ */
+export type VisualGenerator<DataType> = (data: DataType, context: LocalizationContext) => Promise<VisualInterface|VisualInterface[]>
+
+/**
+ * Returns false for messages that should not be passed to
+ * the prompt function
+ */
+export type MessageFilter<MessageType extends MessageInterface> = (message: MessageType) => Promise<boolean>
+
+/**
+ * Called with every message that passes the filter, before it
+ * is passed to the prompt function
+ */
+export type BeforeFunctionHook<DataType, MessageType extends MessageInterface> = (message: MessageType, data: DataType) => Promise<PluginHookResult<DataType>>
+
+export interface CollectorWarning {
+  /**
+   * Milliseconds before inactivity to send the warning at
+   */
+  before: number;
+  send: () => Promise<void>;
+}
+
+export interface CollectorOptions<DataType, MessageType extends MessageInterface> {
+  /**
+   * Messages that do not pass the filter, such as those of
+   * other users, are emitted as ignore instead of being passed
+   * to the prompt function. The messages that pass it are
+   * emitted as input.
+   */
+  filter?: MessageFilter<MessageType>;
+  /**
+   * Filter of the prompt that is checked after the filter,
+   * for input that the prompt handles itself, such as
+   * navigation. Messages that do not pass it are emitted as
+   * ignore.
+   */
+  messageFilter?: MessageFilter<MessageType>;
+  /**
+   * Clock for the inactivity timer
+   */
+  clock?: ClockInterface;
+  /**
+   * Change the data the prompt function receives, or ignore
+   * the message by skipping
+   */
+  beforeFunction?: BeforeFunctionHook<DataType, MessageType>;
+  /**
+   * Restart the inactivity timer for every message that is
+   * passed to the prompt function
+   */
+  sliding?: boolean;
+  /**
+   * Also restart a sliding timer for messages that the message
+   * filter ignores, since the prompt handled them as answers
+   */
+  slideOnFiltered?: boolean;
+  warning?: CollectorWarning;
+  /**
+   * Translates the rejections that have message IDs
+   */
+  localization?: LocalizationContext;
+}
+
+export interface InactivityWarning<DataType> {
+  /**
+   * Milliseconds before inactivity to send the warning at
+   */
+  before: number;
+  visual: VisualGenerator<DataType>|VisualInterface;
+}
+
+export interface InactivityOptions<DataType> {
+  /**
+   * Restart the timer for every message that is passed to the
+   * prompt function, whether it is accepted or rejected, and
+   * for the answers that prompts such as forms handle
+   * themselves. Other ignored messages, such as navigation, do
+   * not restart it.
+   */
+  sliding?: boolean;
+  /**
+   * Visual to send shortly before the timer expires
+   */
+  warning?: InactivityWarning<DataType>;
+}
+
+export interface InactivityDefaults<DataType> extends InactivityOptions<DataType> {
+  /**
+   * Duration of the collectors of prompts whose duration is 0
+   */
+  duration?: number;
+}
+
+export interface RetryPolicy<DataType, MessageType extends MessageInterface> {
+  /**
+   * Number of rejected attempts after which the prompt gives up
+   */
+  maxAttempts: number;
+  /**
+   * Hints to send after each rejection, in order. The last
+   * hint is repeated for every later rejection.
+   */
+  visuals?: Array<VisualGenerator<DataType>|VisualInterface>;
+  /**
+   * Node to continue at when the limit is reached, instead of
+   * throwing a UserRejectionLimitError
+   */
+  fallback?: PromptNode<DataType, MessageType>;
+}
+
+export interface PromptOptions<DataType, MessageType extends MessageInterface> {
+  retry?: RetryPolicy<DataType, MessageType>;
+  inactivity?: InactivityOptions<DataType>;
+}
+
+export interface PromptRunOptions<DataType, MessageType extends MessageInterface> {
+  /**
+   * Retry policy for prompts that have none of their own
+   */
+  retry?: RetryPolicy<DataType, MessageType>;
+  /**
+   * Clock for time limits
+   */
+  clock?: ClockInterface;
+  /**
+   * Creates collectors instead of the prompt's createCollector
+   */
+  createCollector?: (channel: ChannelInterface<MessageType>, data: DataType) => PromptCollector<DataType, MessageType>;
+  /**
+   * Called with every collector before it collects messages
+   */
+  onCollector?: (collector: PromptCollector<DataType, MessageType>) => void;
+  /**
+   * Called after the visual is sent
+   */
+  afterVisualSent?: (data: DataType) => Promise<void>;
+  beforeFunction?: BeforeFunctionHook<DataType, MessageType>;
+  /**
+   * Called when a message is rejected, before onReject. It is
+   * not called for the rejection that reaches a retry limit.
+   */
+  onReject?: (message: MessageType, error: Rejection, attempt: number) => Promise<void>;
+  /**
+   * Stops the collector and rejects with a FlowAbortedError
+   * when aborted
+   */
+  signal?: AbortSignalInterface;
+  /**
+   * Inactivity options for prompts that have none of their own
+   */
+  inactivity?: InactivityDefaults<DataType>;
+  /**
+   * Messages that do not pass this filter are ignored before
+   * the prompt's own filter sees them
+   */
+  filter?: MessageFilter<MessageType>;
+  /**
+   * Locale and messages for visuals, rejections and the
+   * errors of the user
+   */
+  localization?: LocalizationContext;
+}
 
 export abstract class Prompt<DataType, MessageType extends MessageInterface> {
   /**
@@ -43,31 +229,111 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
    * @param message Message that was rejected
    * @param channel The channel of the current prompt
    * @param data The data of the current prompt
+   * @param attempt The number of rejected attempts so far, including this one
    */
-  abstract onReject(error: Rejection, message: MessageType, channel: ChannelInterface<MessageType>, data: DataType): Promise<void>;
+  abstract onReject(error: Rejection, message: MessageType, channel: ChannelInterface<MessageType>, data: DataType, attempt: number): Promise<void>;
   readonly duration: number
   readonly visualGenerator: VisualGenerator<DataType>|VisualInterface
+  /**
+   * Template of the text of the visual, if the visual was
+   * given as a template string
+   */
+  readonly template?: Template
   readonly function?: PromptFunction<DataType, MessageType>
+  readonly retry?: RetryPolicy<DataType, MessageType>
+  readonly inactivity?: InactivityOptions<DataType>
 
-  constructor(visualGenerator: VisualGenerator<DataType>|VisualInterface, f?: PromptFunction<DataType, MessageType>, duration = 0) {
-    this.visualGenerator = visualGenerator
+  /**
+   * @param visualGenerator Visual, visual generator, or template of the text of the visual
+   * @param f Prompt function
+   * @param duration Duration of the collector in milliseconds
+   * @param options Prompt options
+   */
+  constructor(visualGenerator: VisualGenerator<DataType>|VisualInterface|string, f?: PromptFunction<DataType, MessageType>, duration = 0, options: PromptOptions<DataType, MessageType> = {}) {
+    if (typeof visualGenerator === 'string') {
+      const template = new Template(visualGenerator)
+      this.template = template
+      this.visualGenerator = async (data: DataType): Promise<VisualInterface> => ({
+        text: template.render(data)
+      })
+    } else {
+      this.visualGenerator = visualGenerator
+    }
     this.duration = duration
     this.function = f
+    this.retry = options.retry
+    this.inactivity = options.inactivity
   }
 
   /**
    * Returns the visual given the data
    * 
    * @param data
+   * @param localization Locale and messages of the prompt
    */
-  async getVisual (data: DataType): Promise<VisualInterface|VisualInterface[]> {
+  async getVisual (data: DataType, localization = new Localizer().createContext()): Promise<VisualInterface|VisualInterface[]> {
     if (typeof this.visualGenerator === 'function') {
-      return this.visualGenerator(data)
+      return this.visualGenerator(data, localization)
     } else {
       return this.visualGenerator
     }
   }
 
+  /**
+   * Create a filter for the messages of a collector. Override
+   * this to handle some messages, such as navigation, without
+   * passing them to the prompt function.
+   * 
+   * @param channel The channel to collect from
+   * @param data The data before this prompt
+   * @param localization Locale and messages of the prompt
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  createMessageFilter (channel: ChannelInterface<MessageType>, data: DataType, localization?: LocalizationContext): MessageFilter<MessageType>|undefined {
+    return undefined
+  }
+
+  /**
+   * Whether the messages that the message filter ignores are
+   * answers that the prompt handled itself, which restart a
+   * sliding timer. Override this if the filter collects
+   * answers instead of only handling navigation.
+   */
+  handlesFilteredAnswers (): boolean {
+    return false
+  }
+
+  /**
+   * Returns a filter that passes the messages that pass both
+   * filters, checking the second only if the first passes
+   * 
+   * @param first Filter to check first
+   * @param second Filter to check second
+   */
+  static combineFilters<MessageType extends MessageInterface> (first?: MessageFilter<MessageType>, second?: MessageFilter<MessageType>): MessageFilter<MessageType>|undefined {
+    if (!first || !second) {
+      return first || second
+    }
+    return async (message: MessageType): Promise<boolean> => await first(message) && second(message)
+  }
+
+  /**
+   * Returns a prompt function that receives the value of the
+   * chosen button as the content of the message, whether the
+   * button was clicked or its number or label was typed. Other
+   * answers are rejected with the labels of the buttons.
+   * 
+   * @param func Prompt function
+   * @param buttons Buttons of the visual of the prompt
+   */
+  static parseChoices<DataType, MessageType extends MessageInterface> (func: PromptFunction<DataType, MessageType>, buttons: Array<VisualButton>): PromptFunction<DataType, MessageType> {
+    const parseChoice = VisualRenderer.createChoiceParser(buttons)
+    return async (message: MessageType, data: DataType): Promise<DataType> => func({
+      ...message,
+      content: parseChoice(message.content)
+    }, data)
+  }
+
   /**
    * Handles timeout and messages of a message colllector
    * 
@@ -75,34 +341,103 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
    * @param func Prompt function
    * @param data Prompt data
    * @param duration Duration of collector before it emits inactivity
+   * @param options Collector options
    */
-  static handleCollector<DataType, MessageType extends MessageInterface> (emitter: PromptCollector<DataType, MessageType>, func: PromptFunction<DataType, MessageType>, data?: DataType, duration?: number): void {
-    let timer: NodeJS.Timeout
-    if (duration) {
-      timer = setTimeout(() => {
+  static handleCollector<DataType, MessageType extends MessageInterface> (emitter: PromptCollector<DataType, MessageType>, func: PromptFunction<DataType, MessageType>, data?: DataType, duration?: number, options: CollectorOptions<DataType, MessageType> = {}): void {
+    const { filter, messageFilter, beforeFunction, sliding, slideOnFiltered, warning, localization, clock = new SystemClock() } = options
+    let timer: ClockTimer
+    let warningTimer: ClockTimer
+    // Filters and hooks are awaited, so the collector may stop before they resolve
+    let stopped = false
+    const startTimers = (): void => {
+      if (!duration) {
+        return
+      }
+      clock.clearTimeout(timer)
+      clock.clearTimeout(warningTimer)
+      timer = clock.setTimeout(() => {
         emitter.emit('inactivity')
       }, duration)
+      if (warning && warning.before < duration) {
+        warningTimer = clock.setTimeout(() => {
+          // Emitted with the sending so that it can be awaited, such as by tests
+          const sending = warning.send()
+          emitter.emit('warning', sending)
+          sending.catch(err => emitter.emit('error', err))
+        }, duration - warning.before)
+      }
     }
+    startTimers()
     emitter.on('message', async (thisMessage: MessageType) => {
-      await this.handleMessage(emitter, thisMessage, func, data)
+      try {
+        const passed = !filter || await filter(thisMessage)
+        if (stopped) {
+          return
+        }
+        if (!passed) {
+          emitter.emit('ignore', thisMessage)
+          return
+        }
+        emitter.emit('input', thisMessage)
+        const handled = messageFilter && !await messageFilter(thisMessage)
+        if (stopped) {
+          return
+        }
+        if (handled) {
+          if (sliding && slideOnFiltered) {
+            startTimers()
+          }
+          emitter.emit('ignore', thisMessage)
+          return
+        }
+      } catch (err) {
+        emitter.emit('error', err)
+        return
+      }
+      let funcData = data
+      if (beforeFunction) {
+        try {
+          const result = await beforeFunction(thisMessage, data as DataType)
+          if (stopped) {
+            return
+          }
+          if (result.skip) {
+            emitter.emit('ignore', thisMessage)
+            return
+          }
+          if (result.data !== undefined) {
+            funcData = result.data
+          }
+        } catch (err) {
+          emitter.emit('error', err)
+          return
+        }
+      }
+      if (sliding) {
+        startTimers()
+      }
+      await this.handleMessage(emitter, thisMessage, func, funcData, localization)
     })
     emitter.once('stop', () => {
-      clearTimeout(timer)
+      stopped = true
+      clock.clearTimeout(timer)
+      clock.clearTimeout(warningTimer)
       emitter.removeAllListeners()
     })
   }
 
   /**
    * Handle each individual message from a collector to determine
-   * what event it should emit. Ignores all messages whose author
-   * ID does not match the original message.
+   * what event it should emit. Messages from other users are
+   * dropped before this by the filter of the collector.
    * 
    * @param emitter Message collector
    * @param message Collected message
    * @param func Prompt function
    * @param data Prompt data
+   * @param localization Translates the rejections that have message IDs
    */
-  static async handleMessage<DataType, MessageType extends MessageInterface> (emitter: PromptCollector<DataType, MessageType>, message: MessageType, func: PromptFunction<DataType, MessageType>, data?: DataType): Promise<void> {
+  static async handleMessage<DataType, MessageType extends MessageInterface> (emitter: PromptCollector<DataType, MessageType>, message: MessageType, func: PromptFunction<DataType, MessageType>, data?: DataType, localization?: LocalizationContext): Promise<void> {
     try {
       // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
       // @ts-ignore
@@ -111,7 +446,7 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
     } catch (err) {
       if (err instanceof Rejection) {
         // Don't stop collector since rejects can be tried again
-        emitter.emit('reject', message, err)
+        emitter.emit('reject', message, localization ? Localizer.localizeRejection(err, localization) : err)
       } else {
         emitter.emit('error', err)
       }
@@ -119,7 +454,8 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
   }
 
   /**
-   * Send a visual
+   * Send a visual, writing the parts that the channel cannot
+   * show into its text
    * 
    * @param visual The visual for channel.send to send
    * @param channel Channel to send the message to
@@ -128,12 +464,12 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
     if (Array.isArray(visual)) {
       const sent = []
       for (const v of visual) {
-        const message = await channel.send(v)
+        const message = await channel.send(VisualRenderer.render(v, channel.capabilities))
         sent.push(message)
       }
       return sent
     } else {
-      const sent = await channel.send(visual)
+      const sent = await channel.send(VisualRenderer.render(visual, channel.capabilities))
       return sent
     }
   }
@@ -143,9 +479,62 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
    * 
    * @param message The MessageInterface before this prompt
    * @param data Data to generate the user's message
+   * @param localization Locale and messages of the prompt
+   * @param signal Signal that prevents sending if it aborted while the visual was generated
+   */
+  async sendUserVisual (channel: ChannelInterface<MessageType>, data: DataType, localization?: LocalizationContext, signal?: AbortSignalInterface): Promise<(MessageType|MessageType[])[]|MessageType> {
+    const visual = await this.getVisual(data, localization)
+    if (signal && signal.aborted) {
+      throw new FlowAbortedError(signal.reason)
+    }
+    return this.sendVisual(visual, channel)
+  }
+
+  /**
+   * Send the hint of a retry policy for a rejected attempt
+   * 
+   * @param policy Retry policy
+   * @param attempt The number of rejected attempts so far
+   * @param channel The channel of the current prompt
+   * @param data The data of the current prompt
+   * @param localization Locale and messages of the prompt
+   */
+  async sendRetryVisual (policy: RetryPolicy<DataType, MessageType>, attempt: number, channel: ChannelInterface<MessageType>, data: DataType, localization = new Localizer().createContext()): Promise<void> {
+    const { visuals } = policy
+    if (!visuals || visuals.length === 0) {
+      return
+    }
+    const hint = visuals[Math.min(attempt, visuals.length) - 1]
+    const visual = typeof hint === 'function' ? await hint(data, localization) : hint
+    await this.sendVisual(visual, channel)
+  }
+
+  /**
+   * Returns the duration and inactivity options of this prompt,
+   * where the ones this prompt does not set are the defaults
+   * 
+   * @param defaults Inactivity options from the runner
    */
-  async sendUserVisual (channel: ChannelInterface<MessageType>, data: DataType): Promise<(MessageType|MessageType[])[]|MessageType> {
-    return this.sendVisual(await this.getVisual(data), channel)
+  getInactivity (defaults: InactivityDefaults<DataType> = {}): InactivityDefaults<DataType> {
+    const own = this.inactivity || {}
+    return {
+      duration: this.duration || defaults.duration || 0,
+      sliding: own.sliding !== undefined ? own.sliding : defaults.sliding,
+      warning: own.warning || defaults.warning
+    }
+  }
+
+  /**
+   * Send the visual of an inactivity warning
+   * 
+   * @param warning Inactivity warning
+   * @param channel The channel of the current prompt
+   * @param data The data of the current prompt
+   * @param localization Locale and messages of the prompt
+   */
+  async sendWarningVisual (warning: InactivityWarning<DataType>, channel: ChannelInterface<MessageType>, data: DataType, localization = new Localizer().createContext()): Promise<void> {
+    const { visual } = warning
+    await this.sendVisual(typeof visual === 'function' ? await visual(data, localization) : visual, channel)
   }
 
   /**
@@ -154,14 +543,33 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
    * 
    * @param channel The channel to collect from
    * @param data The data before this prompt
+   * @param options Options from the runner
+   * @param buttons Buttons of the sent visual, whose values the prompt function receives as the content
    */
-  collect (channel: ChannelInterface<MessageType>, data: DataType): Promise<DataType> {
+  collect (channel: ChannelInterface<MessageType>, data: DataType, options: PromptRunOptions<DataType, MessageType> = {}, buttons: Array<VisualButton> = []): Promise<DataType> {
     return new Promise((resolve, reject) => {
+      const { signal, localization } = options
+      if (signal && signal.aborted) {
+        reject(new FlowAbortedError(signal.reason))
+        return
+      }
       if (!this.function) {
         resolve(data)
         return
       }
-      const collector = this.createCollector(channel, data)
+      const collector = options.createCollector
+        ? options.createCollector(channel, data)
+        : this.createCollector(channel, data)
+      if (options.onCollector) {
+        options.onCollector(collector)
+      }
+      if (signal) {
+        const onAbort = (): void => {
+          collector.emit('error', new FlowAbortedError(signal.reason))
+        }
+        signal.addEventListener('abort', onAbort)
+        collector.once('stop', () => signal.removeEventListener('abort', onAbort))
+      }
 
       // Internally handled events
       collector.once('error', (err: Error) => {
@@ -173,30 +581,73 @@ export abstract class Prompt<DataType, MessageType extends MessageInterface> {
         resolve(acceptData)
       })
       collector.once('inactivity', () => {
-        collector.emit('error', new UserInactivityError())
+        collector.emit('error', new UserInactivityError(localization && localization.t('errors.inactivity')))
       })
       collector.once('exit', () => {
-        collector.emit('error', new UserVoluntaryExitError())
+        collector.emit('error', new UserVoluntaryExitError(localization && localization.t('errors.exit')))
+      })
+      collector.once('back', () => {
+        collector.emit('error', new UserBackError(localization && localization.t('errors.back')))
       })
       // User-overridden events
+      const retry = this.retry || options.retry
+      let attempts = 0
       collector.on('reject', (userInput: MessageType, err: Rejection): void => {
-        this.onReject(err, userInput, channel, data)
+        attempts++
+        if (retry && attempts >= retry.maxAttempts) {
+          collector.emit('error', new UserRejectionLimitError(attempts, err, localization && localization.t('errors.rejectionLimit')))
+          return
+        }
+        const rejected = options.onReject
+          ? options.onReject(userInput, err, attempts).then(() => this.onReject(err, userInput, channel, data, attempts))
+          : this.onReject(err, userInput, channel, data, attempts)
+        rejected
+          .then(() => retry && this.sendRetryVisual(retry, attempts, channel, data, localization))
+          .then(() => collector.emit('retry', userInput, err))
           .catch(err => collector.emit('error', err))
       })
 
-      Prompt.handleCollector(collector, this.function, data, this.duration)
+      const { duration, sliding, warning } = this.getInactivity(options.inactivity)
+      const func = buttons.length > 0 ? Prompt.parseChoices(this.function, buttons) : this.function
+      Prompt.handleCollector(collector, func, data, duration, {
+        filter: options.filter,
+        messageFilter: this.createMessageFilter(channel, data, localization),
+        slideOnFiltered: this.handlesFilteredAnswers(),
+        clock: options.clock,
+        beforeFunction: options.beforeFunction,
+        sliding,
+        warning: warning && {
+          before: warning.before,
+          send: (): Promise<void> => this.sendWarningVisual(warning, channel, data, localization)
+        },
+        localization
+      })
     })
   }
 
   /**
-   * Send the user's visual and start collecting messages
+   * Send the user's visual and start collecting messages. If
+   * the visual has buttons, the prompt function receives the
+   * value of the chosen button.
    * 
    * @param channel The channel to collect from
    * @param data Data before this prompt
+   * @param options Options from the runner
    */
-  async run (channel: ChannelInterface<MessageType>, data: DataType): Promise<DataType> {
-    await this.sendUserVisual(channel, data)
-    return this.collect(channel, data)
+  async run (channel: ChannelInterface<MessageType>, data: DataType, options: PromptRunOptions<DataType, MessageType> = {}): Promise<DataType> {
+    const { signal } = options
+    if (signal && signal.aborted) {
+      throw new FlowAbortedError(signal.reason)
+    }
+    const visual = await this.getVisual(data, options.localization)
+    if (signal && signal.aborted) {
+      throw new FlowAbortedError(signal.reason)
+    }
+    await this.sendVisual(visual, channel)
+    if (options.afterVisualSent) {
+      await options.afterVisualSent(data)
+    }
+    return this.collect(channel, data, options, VisualRenderer.getButtons(visual))
   }
 }
 
@@ -1,21 +1,37 @@
 import { Prompt } from "./Prompt"
 import { TreeNode } from "./TreeNode"
 import { MessageInterface } from "./interfaces/Message"
+import { Schema } from "./Schema"
 
 export type PromptNodeCondition<DataType> = (data: DataType) => Promise<boolean>
 
+export interface PromptNodeContract {
+  /**
+   * Fields the node requires in the data it starts with
+   */
+  input?: Schema<unknown>;
+  /**
+   * Fields the node guarantees in the data it finishes with
+   */
+  output?: Schema<unknown>;
+}
+
 export class PromptNode<DataType, MessageType extends MessageInterface> extends TreeNode<PromptNode<DataType, MessageType>> {
   prompt: Prompt<DataType, MessageType>
   readonly condition?: PromptNodeCondition<DataType>
+  readonly id?: string
+  contract?: PromptNodeContract
 
   /**
    * @param prompt Prompt to run
    * @param condition Condition for this node to run
+   * @param id Stable identifier of this node, used to resume sessions
    */
-  constructor (prompt: Prompt<DataType, MessageType>, condition?: PromptNodeCondition<DataType>) {
+  constructor (prompt: Prompt<DataType, MessageType>, condition?: PromptNodeCondition<DataType>, id?: string) {
     super()
     this.prompt = prompt
     this.condition = condition
+    this.id = id
   }
 
   /**
@@ -37,6 +53,15 @@ export class PromptNode<DataType, MessageType extends MessageInterface> extends
     return true
   }
 
+  /**
+   * Returns the node to continue at when the prompt's retry
+   * limit is reached
+   */
+  getFallback (): PromptNode<DataType, MessageType>|undefined {
+    const { retry } = this.prompt
+    return retry && retry.fallback
+  }
+
     /**
    * Determine what the next prompt node is given data.
    * 
@@ -63,6 +88,17 @@ export class PromptNode<DataType, MessageType extends MessageInterface> extends
     return this
   }
 
+  /**
+   * Sets the schemas that the data of this node is checked
+   * against when it runs
+   * 
+   * @param contract Schemas of the input and output data
+   */
+  setContract (contract: PromptNodeContract): this {
+    this.contract = contract
+    return this
+  }
+
   /**
    * Push a new node to this node's children.
    * 
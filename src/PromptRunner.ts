@@ -1,20 +1,202 @@
-import { Prompt } from './Prompt'
+import { Prompt, RetryPolicy, PromptRunOptions, PromptCollector, InactivityDefaults, MessageFilter } from './Prompt'
 import { PromptNode } from './PromptNode'
 import { ChannelInterface } from './interfaces/Channel'
 import { MessageInterface } from './interfaces/Message'
+import { UserBackError } from './errors/user/UserBackError'
+import { UserError } from './errors/user/UserError'
+import { UserRejectionLimitError } from './errors/user/UserRejectionLimitError'
+import { SessionStore, SessionSnapshot } from './interfaces/SessionStore'
+import { ClockInterface, ClockTimer } from './interfaces/Clock'
+import { SystemClock } from './clocks/SystemClock'
+import { Transcript } from './Transcript'
+import { PluginInterface, PluginContext, PluginHookResult } from './interfaces/Plugin'
+import { AbortSignalInterface } from './interfaces/AbortSignal'
+import { FlowAbortedError } from './errors/FlowAbortedError'
+import { FlowAbortController } from './FlowAbortController'
+import { UserSessionTimeoutError } from './errors/user/UserSessionTimeoutError'
+import { SubFlowNode } from './SubFlowNode'
+import { LoopNode } from './LoopNode'
+import { UserLoopStopError } from './errors/user/UserLoopStopError'
+import { DataContractError, DataContractStage } from './errors/DataContractError'
+import { DataMutationError } from './errors/DataMutationError'
+import { DevTools, DataChange } from './DevTools'
+import { Localizer } from './Localizer'
+
+export interface PromptHistoryEntry<DataType, MessageType extends MessageInterface> {
+  node: PromptNode<DataType, MessageType>;
+  /**
+   * The data the node started with
+   */
+  data: DataType;
+  /**
+   * Runner of the child tree if the node is a sub-flow, so
+   * that going back into the sub-flow continues within it
+   */
+  subFlow?: PromptRunner<unknown, MessageType>;
+  /**
+   * Iterations if the node is a loop, each with the data it
+   * started with and the runner of its tree
+   */
+  iterations?: Array<PromptHistoryEntry<DataType, MessageType>>;
+  /**
+   * Changes from the data the node started with to the data
+   * it finished with, in dev mode
+   */
+  diff?: Array<DataChange>;
+}
+
+export interface PromptRunnerSessionOptions<DataType> {
+  store: SessionStore<DataType>;
+  /**
+   * Key of this runner's snapshot within the store
+   */
+  key: string;
+}
+
+/**
+ * Returns false for messages that should not reach the prompt
+ * functions of a run
+ * 
+ * @param message Collected message
+ * @param participant ID of the user the run is bound to
+ */
+export type ParticipantFilter<MessageType extends MessageInterface> = (message: MessageType, participant?: string) => Promise<boolean>
+
+export interface PromptRunnerOptions<DataType, MessageType extends MessageInterface> {
+  /**
+   * Where to save the progress of the run after every
+   * accepted step, so it can be resumed later
+   */
+  session?: PromptRunnerSessionOptions<DataType>;
+  /**
+   * Retry policy for prompts that have none of their own
+   */
+  retry?: RetryPolicy<DataType, MessageType>;
+  /**
+   * Clock for time limits. Defaults to the real timers.
+   */
+  clock?: ClockInterface;
+  /**
+   * Inactivity options for prompts that have none of their own
+   */
+  inactivity?: InactivityDefaults<DataType>;
+  /**
+   * Creates collectors instead of each prompt's createCollector.
+   * It is generic since the prompts of sub-flows also use it,
+   * with the data of their child tree.
+   */
+  createCollector?: <CollectorDataType>(channel: ChannelInterface<MessageType>, data: CollectorDataType) => PromptCollector<CollectorDataType, MessageType>;
+  /**
+   * Records visuals, messages, rejections, node transitions
+   * and how each run ended
+   */
+  transcript?: Transcript;
+  /**
+   * Plugins to register, in order
+   */
+  plugins?: Array<PluginInterface<DataType, MessageType>>;
+  /**
+   * Author ID of the user the runs are bound to. Messages
+   * from anyone else, or without an author, are ignored.
+   */
+  participant?: string;
+  /**
+   * Decides which messages reach the prompt functions instead
+   * of the participant check, such as to also let moderators
+   * answer
+   */
+  messageFilter?: ParticipantFilter<MessageType>;
+  /**
+   * Whether this runner runs the child tree of a sub-flow.
+   * Going back from its first prompt then goes back in the
+   * parent tree instead of running the prompt again.
+   */
+  subFlow?: boolean;
+  /**
+   * ID of the sub-flow or loop node whose child tree this
+   * runner runs. The transcript records entering and leaving
+   * the child tree as transitions from and to this node.
+   */
+  parentNodeID?: string;
+  /**
+   * Freeze the data passed to prompt functions and conditions,
+   * rejecting with a DataMutationError when they mutate it, and
+   * record the data diff of every step in the history
+   */
+  devMode?: boolean;
+  /**
+   * Called with debug messages, such as the data diff of every
+   * step in dev mode
+   */
+  log?: (message: string) => void;
+  /**
+   * Catalogs that visuals, rejections and the errors of the
+   * user are translated with
+   */
+  localizer?: Localizer;
+  /**
+   * Returns the locale of a prompt from the data it starts
+   * with. Prompts whose data has no locale use the default
+   * locale of the localizer.
+   */
+  locale?: (data: DataType) => string|undefined;
+}
+
+export interface PromptRunnerRunOptions {
+  /**
+   * Stops the run and rejects with a FlowAbortedError when
+   * aborted
+   */
+  signal?: AbortSignalInterface;
+  /**
+   * Time by the runner's clock that the whole run must finish
+   * by, such as Date.now() + 600000 for the real clock. The
+   * run rejects with a UserSessionTimeoutError once it passes.
+   */
+  deadline?: number;
+}
 
 export class PromptRunner<DataType, MessageType extends MessageInterface> {
   initialData: DataType
-  readonly ran: Array<Prompt<DataType, MessageType>> = []
+  readonly options: PromptRunnerOptions<DataType, MessageType>
+  readonly history: Array<PromptHistoryEntry<DataType, MessageType>> = []
+  readonly plugins: Array<PluginInterface<DataType, MessageType>>
+  /**
+   * Node that is running, or the node that ran last
+   */
+  currentNode: PromptNode<DataType, MessageType>|null = null
+  nodeIDs: Map<PromptNode<DataType, MessageType>, string> = new Map()
   
-  constructor (initialData: DataType) {
+  constructor (initialData: DataType, options: PromptRunnerOptions<DataType, MessageType> = {}) {
     this.initialData = initialData
+    this.options = options
+    this.plugins = options.plugins ? [...options.plugins] : []
+  }
+
+  /**
+   * Register a plugin. The hooks of plugins are called in the
+   * order they were registered.
+   * 
+   * @param plugin Plugin to register
+   */
+  use (plugin: PluginInterface<DataType, MessageType>): this {
+    this.plugins.push(plugin)
+    return this
+  }
+
+  /**
+   * The prompts of the nodes that have been executed in the
+   * current or last run of this PromptRunner, in order
+   */
+  get ran (): Array<Prompt<DataType, MessageType>> {
+    return this.history.map(entry => entry.node.prompt)
   }
 
   /**
    * Checks whether the tree of nodes is valid. A valid tree
    * is one all children has a condition if there 2 or more
-   * children.
+   * children. Fallback nodes of retry policies and the child
+   * trees of sub-flows are checked as well.
    * 
    * @param prompt Root prompt
    */
@@ -26,7 +208,14 @@ export class PromptRunner<DataType, MessageType extends MessageInterface> {
       return false
     }
     seen.add(prompt)
-    const children = prompt.children
+    const children = [...prompt.children]
+    const fallback = prompt.getFallback()
+    if (fallback) {
+      children.push(fallback)
+    }
+    if (prompt instanceof SubFlowNode) {
+      children.push(prompt.rootNode)
+    }
     for (const child of children) {
       if (!this.valid(child, seen)) {
         return false
@@ -35,6 +224,67 @@ export class PromptRunner<DataType, MessageType extends MessageInterface> {
     return true
   }
 
+  /**
+   * Assigns an ID to every node in the tree. Nodes without an
+   * explicit ID are identified by the child indices on the
+   * first path to them from the root, such as "0.2.1", and
+   * fallback nodes by their parent's ID, such as "0.2.fallback".
+   * Explicit IDs are recommended if the tree may change between
+   * sessions.
+   * 
+   * @param rootNode Root prompt node
+   * @param rootPath ID of the root node if it has no explicit ID
+   * @param ids IDs that have already been assigned
+   */
+  static getNodeIDs<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>, rootPath = '0', ids: Map<PromptNode<DataType, MessageType>, string> = new Map()): Map<PromptNode<DataType, MessageType>, string> {
+    const taken: Set<string> = new Set(ids.values())
+    const assign = (node: PromptNode<DataType, MessageType>, path: string): void => {
+      if (ids.has(node)) {
+        return
+      }
+      const id = node.id !== undefined ? node.id : path
+      if (taken.has(id)) {
+        throw new Error(`Duplicate node ID "${id}" found in tree`)
+      }
+      ids.set(node, id)
+      taken.add(id)
+      node.children.forEach((child, index) => assign(child, `${path}.${index}`))
+      const fallback = node.getFallback()
+      if (fallback) {
+        assign(fallback, `${path}.fallback`)
+      }
+    }
+    assign(rootNode, rootPath)
+    return ids
+  }
+
+  /**
+   * Assigns an ID to every node in the tree and in the child
+   * trees of its sub-flows and loops. The nodes of a child tree
+   * are identified within the ID of their sub-flow node, such
+   * as "0.1.flow.0", including those with an explicit ID, such
+   * as "0.1.flow.askStreet", so that they are unique.
+   * 
+   * @param rootNode Root prompt node
+   * @param prefix ID of the sub-flow node of a child tree, followed by ".flow"
+   * @param ids IDs that have already been assigned
+   */
+  static getNestedNodeIDs<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>, prefix?: string, ids: Map<PromptNode<DataType, MessageType>, string> = new Map()): Map<PromptNode<DataType, MessageType>, string> {
+    const treeIDs = this.getNodeIDs(rootNode, prefix)
+    for (const [node, id] of treeIDs) {
+      if (!ids.has(node)) {
+        const prefixed = prefix === undefined || id === prefix || id.startsWith(`${prefix}.`)
+        ids.set(node, prefixed ? id : `${prefix}.${id}`)
+      }
+    }
+    for (const node of treeIDs.keys()) {
+      if (node instanceof SubFlowNode && !ids.has(node.rootNode)) {
+        this.getNestedNodeIDs(node.rootNode, `${ids.get(node)}.flow`, ids)
+      }
+    }
+    return ids
+  }
+
   /**
    * Returns the index of a prompt that have been executed
    * by this PromptRunner already
@@ -79,12 +329,235 @@ export class PromptRunner<DataType, MessageType extends MessageInterface> {
    * 
    * @param rootNode Root prompt node
    * @param channel Channel to run the prompt in
+   * @param options Options of this run
+   */
+  async run (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    this.prepare(rootNode)
+    return this.execute(rootNode, channel, this.initialData, options)
+  }
+
+  /**
+   * Continue a session from a snapshot, sending the visual of
+   * the snapshot's node again
+   * 
+   * @param rootNode Root prompt node of the tree the snapshot was saved from
+   * @param channel Channel to run the prompt in
+   * @param snapshot Snapshot saved by a previous run
+   * @param options Options of this run
    */
-  async run (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>): Promise<DataType> {
-    if (!PromptRunner.valid(rootNode)) {
+  async resume (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, snapshot: SessionSnapshot<DataType>, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    this.prepare(rootNode)
+    let resumeNode: PromptNode<DataType, MessageType>|null = null
+    for (const [node, id] of this.nodeIDs) {
+      if (id === snapshot.nodeID) {
+        resumeNode = node
+        break
+      }
+    }
+    if (!resumeNode) {
+      throw new Error(`Session node "${snapshot.nodeID}" no longer exists in the tree`)
+    }
+    return this.execute(resumeNode, channel, snapshot.data, options)
+  }
+
+  /**
+   * Validate the tree, assign IDs to its nodes and clear the
+   * history of previous runs. Templates are checked against the
+   * input contracts of their nodes.
+   * 
+   * @param rootNode Root prompt node
+   */
+  prepare (rootNode: PromptNode<DataType, MessageType>): void {
+    const { retry } = this.options
+    const fallback = retry && retry.fallback
+    if (!PromptRunner.valid(rootNode) || (fallback && !PromptRunner.valid(fallback))) {
       throw new Error('Invalid rootNode found. Nodes with more than 1 child must have all its children have a condition function specified.')
     }
-    return this.execute(rootNode, channel)
+    // Sessions, transcripts and errors such as DataContractError refer to nodes by these IDs
+    this.nodeIDs = this.getTreeNodeIDs(rootNode)
+    PromptRunner.checkTemplates(this.nodeIDs)
+    // Going back at the root must not return into a previous run
+    this.history.splice(0)
+  }
+
+  /**
+   * Throws if the template of a node uses fields that are not
+   * in the node's input contract, since they would be rendered
+   * as empty text. The child trees of sub-flows and loops are
+   * checked with the IDs that their runners give their nodes.
+   * 
+   * @param ids IDs of the nodes to check
+   * @param seen Nodes that have already been checked
+   */
+  static checkTemplates<DataType, MessageType extends MessageInterface> (ids: Map<PromptNode<DataType, MessageType>, string>, seen: Set<PromptNode<DataType, MessageType>> = new Set()): void {
+    for (const [node, id] of ids) {
+      if (seen.has(node)) {
+        continue
+      }
+      seen.add(node)
+      const { template } = node.prompt
+      const schema = node.contract && node.contract.input
+      const unknown = template && schema ? template.findUnknownFields(schema) : []
+      if (unknown.length > 0) {
+        throw new Error(`Template of node "${id}" uses fields that are not in its input contract: ${unknown.map(field => `"${field}"`).join(', ')}`)
+      }
+      if (node instanceof SubFlowNode) {
+        this.checkTemplates(this.getNodeIDs(node.rootNode, `${id}.flow`), seen)
+      }
+    }
+  }
+
+  /**
+   * Assigns an ID to every node in the tree and in the subtree
+   * of the runner's fallback node
+   * 
+   * @param rootNode Root prompt node
+   */
+  getTreeNodeIDs (rootNode: PromptNode<DataType, MessageType>): Map<PromptNode<DataType, MessageType>, string> {
+    const ids = PromptRunner.getNodeIDs(rootNode)
+    const { retry } = this.options
+    if (retry && retry.fallback) {
+      PromptRunner.getNodeIDs(retry.fallback, 'fallback', ids)
+    }
+    return ids
+  }
+
+  /**
+   * Whether a message was sent by a participant
+   * 
+   * @param message Collected message
+   * @param participant Author ID of the participant
+   */
+  static isFromParticipant<MessageType extends MessageInterface> (message: MessageType, participant: string): boolean {
+    return !!message.author && message.author.id === participant
+  }
+
+  /**
+   * Returns the filter for the messages of every prompt, if
+   * this runner has a participant or a message filter
+   */
+  getMessageFilter (): MessageFilter<MessageType>|undefined {
+    const { participant, messageFilter } = this.options
+    if (messageFilter) {
+      return (message: MessageType): Promise<boolean> => messageFilter(message, participant)
+    }
+    if (participant === undefined) {
+      return undefined
+    }
+    return async (message: MessageType): Promise<boolean> => PromptRunner.isFromParticipant(message, participant)
+  }
+
+  /**
+   * Returns the options of this runner that a prompt uses
+   * 
+   * @param node Node of the prompt
+   * @param channel Channel the prompt runs in
+   * @param data Data the prompt starts with
+   */
+  getPromptRunOptions (node: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, data: DataType): PromptRunOptions<DataType, MessageType> {
+    const { retry, clock, inactivity, createCollector, transcript, localizer } = this.options
+    const options: PromptRunOptions<DataType, MessageType> = {
+      retry,
+      clock,
+      inactivity,
+      filter: this.getMessageFilter(),
+      createCollector,
+      onCollector: transcript && ((collector): void => transcript.watchCollector(collector)),
+      localization: localizer && localizer.createContext(this.getLocale(data))
+    }
+    if (this.plugins.length === 0) {
+      return options
+    }
+    return {
+      ...options,
+      afterVisualSent: (): Promise<void> => this.callHooks(plugin => plugin.afterVisualSent && plugin.afterVisualSent({ node, data, channel })),
+      beforeFunction: (message): Promise<PluginHookResult<DataType>> => this.applyHooks({ node, data, channel }, (plugin, context) => plugin.beforeFunction && plugin.beforeFunction(context, message)),
+      onReject: (message, error, attempt): Promise<void> => this.callHooks(plugin => plugin.onReject && plugin.onReject({ node, data, channel }, message, error, attempt))
+    }
+  }
+
+  /**
+   * Returns the locale of a prompt, or undefined if there is
+   * no localizer
+   * 
+   * @param data Data the prompt starts with
+   */
+  getLocale (data: DataType): string|undefined {
+    const { localizer, locale } = this.options
+    if (!localizer) {
+      return undefined
+    }
+    return (locale && locale(data)) || localizer.defaultLocale
+  }
+
+  /**
+   * Call a hook of every plugin in order
+   * 
+   * @param call Calls the hook of a plugin if it has one
+   */
+  async callHooks (call: (plugin: PluginInterface<DataType, MessageType>) => Promise<void>|undefined): Promise<void> {
+    for (const plugin of this.plugins) {
+      await call(plugin)
+    }
+  }
+
+  /**
+   * Call a hook of every plugin in order, where each hook
+   * receives the data returned by the hook before it. Hooks
+   * after one that skips are not called.
+   * 
+   * @param context Context of the first hook
+   * @param call Calls the hook of a plugin if it has one
+   */
+  async applyHooks (context: PluginContext<DataType, MessageType>, call: (plugin: PluginInterface<DataType, MessageType>, context: PluginContext<DataType, MessageType>) => Promise<PluginHookResult<DataType>|void>|undefined): Promise<PluginHookResult<DataType> & { data: DataType }> {
+    let { data } = context
+    for (const plugin of this.plugins) {
+      const result = await call(plugin, {
+        ...context,
+        data
+      })
+      if (!result) {
+        continue
+      }
+      if (result.data !== undefined) {
+        data = result.data
+      }
+      if (result.skip) {
+        return {
+          data,
+          skip: true
+        }
+      }
+    }
+    return {
+      data
+    }
+  }
+
+  /**
+   * Save the node to continue at and its data if a session
+   * store is configured. The snapshot is deleted if there is
+   * no node to continue at.
+   * 
+   * @param node Node to continue at
+   * @param data Data the node starts with
+   */
+  async saveSession (node: PromptNode<DataType, MessageType>|null, data: DataType): Promise<void> {
+    const { session } = this.options
+    if (!session) {
+      return
+    }
+    if (!node) {
+      return session.store.delete(session.key)
+    }
+    const nodeID = this.nodeIDs.get(node)
+    if (nodeID === undefined) {
+      throw new Error('Node is not part of the tree that is being run')
+    }
+    return session.store.set(session.key, {
+      nodeID,
+      data
+    })
   }
 
   
@@ -94,32 +567,459 @@ export class PromptRunner<DataType, MessageType extends MessageInterface> {
    * 
    * @param rootNode Root prompt node
    * @param channel Channel to run the root prompt node
+   * @param options Options of this run
    */
-  async runArray (rootNode: Array<PromptNode<DataType, MessageType>>, channel: ChannelInterface<MessageType>): Promise<DataType> {
+  async runArray (rootNode: Array<PromptNode<DataType, MessageType>>, channel: ChannelInterface<MessageType>, options: PromptRunnerRunOptions = {}): Promise<DataType> {
     const matched = await this.getFirstNode(rootNode)
       if (matched) {
-        return this.run(matched, channel)
+        return this.run(matched, channel, options)
       } else {
         return this.initialData
       }
   }
 
   /**
-   * Run the PromptNode without validating
+   * Whether a node waits for messages when it runs, which is
+   * when its prompt has a function or it is a sub-flow
+   * 
+   * @param node Prompt node
+   */
+  static collectsMessages<DataType, MessageType extends MessageInterface> (node: PromptNode<DataType, MessageType>): boolean {
+    return !!node.prompt.function || node instanceof SubFlowNode
+  }
+
+  /**
+   * Remove the history entries up to and including the last
+   * node that collects messages, and return that entry. Nodes
+   * without a prompt function are skipped since they would
+   * immediately move forward again.
+   * 
+   * @returns The entry to go back to, or null if there is none
+   */
+  popHistory (): PromptHistoryEntry<DataType, MessageType>|null {
+    const history = this.history
+    for (let i = history.length - 1; i >= 0; --i) {
+      if (PromptRunner.collectsMessages(history[i].node)) {
+        return history.splice(i)[0]
+      }
+    }
+    return null
+  }
+
+  /**
+   * Returns the node to continue at if the error is from
+   * reaching a retry limit and a fallback node is configured
+   * 
+   * @param node Node that threw the error
+   * @param err Error thrown by the node
+   */
+  getRejectionFallback (node: PromptNode<DataType, MessageType>, err: Error): PromptNode<DataType, MessageType>|null {
+    if (!(err instanceof UserRejectionLimitError)) {
+      return null
+    }
+    const retry = node.prompt.retry || this.options.retry
+    return (retry && retry.fallback) || null
+  }
+
+  /**
+   * Run the PromptNode without validating, and record the run
+   * if a transcript is configured
    * 
    * @param PromptNode Root prompt node
    * @param channel Channel
+   * @param initialData Data the root node starts with
+   * @param options Options of this run
+   */
+  async execute (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, initialData = this.initialData, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    const { transcript } = this.options
+    if (!transcript) {
+      return this.executeWithDeadline(rootNode, channel, initialData, options)
+    }
+    try {
+      const data = await this.executeWithDeadline(rootNode, transcript.wrapChannel(channel), initialData, options)
+      transcript.recordEnd()
+      return data
+    } catch (err) {
+      transcript.recordEnd(err)
+      throw err
+    }
+  }
+
+  /**
+   * Run the nodes, rejecting with a UserSessionTimeoutError
+   * once the deadline of the run passes. The deadline also
+   * aborts the nodes so that the active collector stops, and
+   * the run rejects on time even during slow visual generators
+   * or conditions.
+   * 
+   * @param rootNode Root prompt node
+   * @param channel Channel
+   * @param initialData Data the root node starts with
+   * @param options Options of this run
    */
-  async execute (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>): Promise<DataType> {
+  async executeWithDeadline (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, initialData: DataType, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    const { deadline, signal } = options
+    if (deadline === undefined) {
+      return this.executeNodes(rootNode, channel, initialData, options)
+    }
+    const { clock = new SystemClock(), localizer } = this.options
+    const message = localizer && localizer.createContext(this.getLocale(initialData)).t('errors.sessionTimeout')
+    if (clock.now() >= deadline) {
+      throw new UserSessionTimeoutError(message)
+    }
+    // Aborts the nodes on either the deadline or the signal of the run
+    const controller = new FlowAbortController()
+    const onAbort = (): void => controller.abort(signal && signal.reason)
+    if (signal) {
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort)
+      }
+    }
+    let timer: ClockTimer
+    const timedOut = new Promise<never>((resolve, reject) => {
+      timer = clock.setTimeout(() => {
+        const error = new UserSessionTimeoutError(message)
+        controller.abort(error)
+        reject(error)
+      }, deadline - clock.now())
+    })
+    try {
+      return await Promise.race([
+        this.executeNodes(rootNode, channel, initialData, {
+          ...options,
+          signal: controller.signal
+        }),
+        timedOut
+      ])
+    } finally {
+      clock.clearTimeout(timer)
+      if (signal) {
+        signal.removeEventListener('abort', onAbort)
+      }
+    }
+  }
+
+  /**
+   * Create the runner of a sub-flow's child tree, starting
+   * with the data mapped from the parent's data. Only the
+   * options that do not depend on the data type carry over,
+   * so retry policies, plugins, sessions and inactivity
+   * defaults of this runner do not apply within the child tree.
+   * 
+   * @param node Sub-flow node
+   * @param data The data before the sub-flow
+   * @param filter Filter for the messages of every prompt in the child tree
+   */
+  async createSubFlowRunner<ChildDataType> (node: SubFlowNode<DataType, ChildDataType, MessageType>, data: DataType, filter = this.getMessageFilter()): Promise<PromptRunner<ChildDataType, MessageType>> {
+    const { clock, createCollector, transcript, devMode, log, localizer } = this.options
+    const locale = this.getLocale(data)
+    const runner = new PromptRunner<ChildDataType, MessageType>(await node.mapping.input(data), {
+      clock,
+      createCollector,
+      transcript,
+      messageFilter: filter && ((message): Promise<boolean> => filter(message)),
+      subFlow: true,
+      parentNodeID: this.nodeIDs.get(node),
+      devMode,
+      log,
+      // The child tree is in the locale of the data before the sub-flow
+      localizer,
+      locale: locale === undefined ? undefined : (): string => locale
+    })
+    runner.nodeIDs = PromptRunner.getNodeIDs(node.rootNode, `${this.nodeIDs.get(node)}.flow`)
+    return runner
+  }
+
+  /**
+   * Run the child tree of a sub-flow and merge its result into
+   * the data. If the runner already ran the child tree, such as
+   * when going back into the sub-flow, the child tree continues
+   * at its last node that collects messages.
+   * 
+   * @param node Sub-flow node
+   * @param runner Runner of the child tree
+   * @param channel Channel
+   * @param data The data before the sub-flow
+   * @param options Options of this run
+   */
+  async executeSubFlow<ChildDataType> (node: SubFlowNode<DataType, ChildDataType, MessageType>, runner: PromptRunner<ChildDataType, MessageType>, channel: ChannelInterface<MessageType>, data: DataType, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    const previous = runner.popHistory()
+    const result = previous
+      ? await runner.executeNodes(previous.node, channel, previous.data, options)
+      : await runner.executeNodes(node.rootNode, channel, runner.initialData, options)
+    return node.mapping.output(data, result)
+  }
+
+  /**
+   * Run the iterations of a loop until it stops, and return
+   * the data with every item. Going back from the first prompt
+   * of an iteration continues at the last prompt of the one
+   * before it, and going back into the loop continues within
+   * its last iteration, or where it was stopped.
+   * 
+   * @param node Loop node
+   * @param iterations Iterations that already ran, which new iterations are added to
+   * @param channel Channel
+   * @param data The data before the loop
+   * @param options Options of this run
+   */
+  async executeLoop<ItemType> (node: LoopNode<DataType, ItemType, MessageType>, iterations: Array<PromptHistoryEntry<DataType, MessageType>>, channel: ChannelInterface<MessageType>, data: DataType, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    let resumed = iterations.pop()
+    let thisData = resumed ? resumed.data : data
+    let repeat = !!resumed || node.hasRoom(thisData)
+    while (repeat) {
+      const runner = resumed && resumed.subFlow
+        ? resumed.subFlow as PromptRunner<ItemType, MessageType>
+        : await this.createSubFlowRunner(node, thisData, Prompt.combineFilters(this.getMessageFilter(), node.createStopFilter(thisData)))
+      resumed = undefined
+      try {
+        const next = await this.executeSubFlow(node, runner, channel, thisData, options)
+        iterations.push({
+          node,
+          data: thisData,
+          subFlow: runner as PromptRunner<unknown, MessageType>
+        })
+        thisData = next
+        repeat = await node.shouldRepeat(thisData)
+      } catch (err) {
+        if (err instanceof UserLoopStopError) {
+          // Kept so that going back into the loop returns to where it stopped
+          iterations.push({
+            node,
+            data: thisData,
+            subFlow: runner as PromptRunner<unknown, MessageType>
+          })
+          repeat = false
+        } else if (err instanceof UserBackError && iterations.length > 0) {
+          resumed = iterations.pop() as PromptHistoryEntry<DataType, MessageType>
+          thisData = resumed.data
+        } else {
+          throw err
+        }
+      }
+    }
+    return thisData
+  }
+
+  /**
+   * Check data against the contract of a node, throwing a
+   * DataContractError with every invalid field if it does
+   * not match
+   * 
+   * @param node Node whose contract to check
+   * @param stage Whether the data is what the node starts or finishes with
+   * @param data Data to check
+   */
+  checkContract (node: PromptNode<DataType, MessageType>, stage: DataContractStage, data: DataType): void {
+    const schema = node.contract && node.contract[stage]
+    if (!schema) {
+      return
+    }
+    const issues = schema.validate(data)
+    if (issues.length > 0) {
+      throw new DataContractError(this.nodeIDs.get(node) || node.id, stage, issues)
+    }
+  }
+
+  /**
+   * Returns a DataMutationError that names the node if dev mode
+   * is on and the error is from mutating frozen data, or the
+   * error otherwise
+   * 
+   * @param node Node that was running
+   * @param err Error that was thrown
+   * @param subject What mutated the data, such as the node's conditions
+   */
+  getMutationError (node: PromptNode<DataType, MessageType>, err: Error, subject?: string): Error {
+    if (!this.options.devMode || !DevTools.isMutationError(err)) {
+      return err
+    }
+    return new DataMutationError(this.nodeIDs.get(node) || node.id, err, subject)
+  }
+
+  /**
+   * Returns the node after a node given the data. In dev mode
+   * the data is frozen before the conditions receive it.
+   * 
+   * @param node Node that finished
+   * @param data Data the node finished with
+   */
+  async getNextNode (node: PromptNode<DataType, MessageType>, data: DataType): Promise<PromptNode<DataType, MessageType>|null> {
+    if (!this.options.devMode) {
+      return node.getNext(data)
+    }
+    DevTools.deepFreeze(data)
+    try {
+      return await node.getNext(data)
+    } catch (err) {
+      throw this.getMutationError(node, err, 'A condition of a child of node')
+    }
+  }
+
+  /**
+   * Compute the changes of a step in dev mode, and log them if
+   * there are any
+   * 
+   * @param node Node of the step
+   * @param before Data the node started with
+   * @param after Data the node finished with
+   */
+  diffStep (node: PromptNode<DataType, MessageType>, before: DataType, after: DataType): Array<DataChange>|undefined {
+    const { devMode, log } = this.options
+    if (!devMode) {
+      return undefined
+    }
+    const diff = DevTools.diff(before, after)
+    if (log && diff.length > 0) {
+      const nodeID = this.nodeIDs.get(node) || node.id
+      log(`Data changed by ${nodeID === undefined ? 'a node' : `node "${nodeID}"`}:\n${DevTools.formatDiff(diff)}`)
+    }
+    return diff
+  }
+
+  /**
+   * Record the start of a node in the transcript if one is
+   * configured. Within a child tree, the start and the end of
+   * the tree are recorded with the ID of the parent node.
+   * 
+   * @param from Node that ran before, or null at the start
+   * @param to Node that is starting, or null at the end
+   */
+  recordTransition (from: PromptNode<DataType, MessageType>|null, to: PromptNode<DataType, MessageType>|null): void {
+    const { transcript, parentNodeID } = this.options
+    const toID = to ? this.nodeIDs.get(to) as string : parentNodeID
+    if (!transcript || toID === undefined) {
+      return
+    }
+    const fromID = from ? this.nodeIDs.get(from) as string : parentNodeID
+    transcript.record({
+      type: 'transition',
+      from: fromID === undefined ? null : fromID,
+      to: toID
+    })
+  }
+
+  /**
+   * Run every node from the root until there is no next node
+   * 
+   * @param PromptNode Root prompt node
+   * @param channel Channel
+   * @param initialData Data the root node starts with
+   * @param options Options of this run
+   */
+  async executeNodes (rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, initialData: DataType, options: PromptRunnerRunOptions = {}): Promise<DataType> {
+    const { signal } = options
     let thisNode: PromptNode<DataType, MessageType>|null = rootNode
-    let thisData = this.initialData
+    let thisData = initialData
+    let lastNode: PromptNode<DataType, MessageType>|null = null
+    // Entry of the sub-flow or loop that going back returned to
+    let resumedEntry: PromptHistoryEntry<DataType, MessageType>|undefined
     while (thisNode) {
+      this.recordTransition(lastNode, thisNode)
+      lastNode = thisNode
+      this.currentNode = thisNode
       const thisPrompt: Prompt<DataType, MessageType> = thisNode.prompt
-      const data = await thisPrompt.run(channel, thisData)
-      this.ran.push(thisNode.prompt)
-      thisData = data
-      thisNode = await thisNode.getNext(data)
+      let data: DataType
+      // Skipped nodes are left out of the history so that going back skips them too
+      let skipped = false
+      let ended = false
+      let subFlow: PromptRunner<unknown, MessageType>|undefined
+      let iterations: Array<PromptHistoryEntry<DataType, MessageType>>|undefined
+      let nextNode: PromptNode<DataType, MessageType>|null
+      const resumed = resumedEntry
+      resumedEntry = undefined
+      try {
+        if (signal && signal.aborted) {
+          throw new FlowAbortedError(signal.reason)
+        }
+        const before: PluginHookResult<DataType> & { data: DataType } = await this.applyHooks({ node: thisNode, data: thisData, channel }, (plugin, context) => plugin.beforeNode && plugin.beforeNode(context))
+        if (before.skip) {
+          data = before.data
+          skipped = true
+        } else {
+          if (this.options.devMode) {
+            DevTools.deepFreeze(before.data)
+          }
+          this.checkContract(thisNode, 'input', before.data)
+          let accepted: DataType
+          if (thisNode instanceof LoopNode) {
+            iterations = (resumed && resumed.iterations) || []
+            accepted = await this.executeLoop(thisNode, iterations, channel, before.data, { signal })
+          } else if (thisNode instanceof SubFlowNode) {
+            subFlow = (resumed && resumed.subFlow) || await this.createSubFlowRunner(thisNode, before.data)
+            accepted = await this.executeSubFlow(thisNode, subFlow, channel, before.data, { signal })
+          } else {
+            accepted = await thisPrompt.run(channel, before.data, {
+              ...this.getPromptRunOptions(thisNode, channel, before.data),
+              signal
+            })
+          }
+          const after: PluginHookResult<DataType> & { data: DataType } = await this.applyHooks({ node: thisNode, data: accepted, channel }, (plugin, context) => plugin.afterAccept && plugin.afterAccept(context))
+          this.checkContract(thisNode, 'output', after.data)
+          data = after.data
+          ended = !!after.skip
+        }
+        // The deadline may have passed while the node ran
+        if (signal && signal.aborted) {
+          throw new FlowAbortedError(signal.reason)
+        }
+        if (!skipped) {
+          this.history.push({
+            node: thisNode,
+            data: thisData,
+            subFlow,
+            iterations,
+            diff: this.diffStep(thisNode, thisData, data)
+          })
+        }
+        thisData = data
+        nextNode = ended ? null : await this.getNextNode(thisNode, data)
+        if (signal && signal.aborted) {
+          throw new FlowAbortedError(signal.reason)
+        }
+        await this.saveSession(nextNode, thisData)
+      } catch (caught) {
+        // Aborts caused by the user, such as the session deadline, are handled as the user's error
+        const err = this.getMutationError(thisNode, caught instanceof FlowAbortedError && caught.reason instanceof UserError ? caught.reason : caught)
+        if (err instanceof UserBackError) {
+          // At the root there is nothing to go back to, so the node runs again
+          const previous = this.popHistory()
+          if (previous) {
+            thisNode = previous.node
+            thisData = previous.data
+            resumedEntry = previous
+            await this.saveSession(thisNode, thisData)
+          } else if (this.options.subFlow) {
+            throw err
+          }
+          continue
+        }
+        const fallback = this.getRejectionFallback(thisNode, err)
+        if (fallback) {
+          // Going back from the fallback returns to the node that gave up
+          this.history.push({
+            node: thisNode,
+            data: thisData
+          })
+          thisNode = fallback
+          await this.saveSession(thisNode, thisData)
+          continue
+        }
+        if (err instanceof UserError) {
+          // The user ended the session
+          await this.saveSession(null, thisData)
+        }
+        const errorNode = thisNode
+        await this.callHooks(plugin => plugin.onError && plugin.onError({ node: errorNode, data: thisData, channel }, err))
+        throw err
+      }
+      thisNode = nextNode
     }
+    this.recordTransition(lastNode, null)
+    const completedNode = lastNode as PromptNode<DataType, MessageType>
+    await this.callHooks(plugin => plugin.onComplete && plugin.onComplete({ node: completedNode, data: thisData, channel }))
     return thisData
   }
 }
@@ -0,0 +1,234 @@
+export interface SchemaIssue {
+  /**
+   * Keys and indices from the root of the value to the
+   * invalid value
+   */
+  path: Array<string|number>;
+  message: string;
+}
+
+/**
+ * Describes valid values of type T
+ */
+export interface Schema<T> {
+  /**
+   * Returns the problems of a value, or an empty array if it
+   * is valid
+   *
+   * @param value Value to check
+   */
+  validate: (value: unknown) => Array<SchemaIssue>;
+  /**
+   * Whether the field of an object may be missing
+   */
+  optional?: boolean;
+  /**
+   * Schemas of the fields of objects, which describe which
+   * paths within the value exist
+   */
+  fields?: SchemaShape;
+  /**
+   * Schema of the items of arrays
+   */
+  item?: Schema<unknown>;
+  /**
+   * Never set. Carries the type of valid values for InferSchema.
+   */
+  readonly valueType?: T;
+}
+
+/**
+ * The type of the values that a schema accepts
+ */
+export type InferSchema<S> = S extends Schema<infer T> ? T : never
+
+export type SchemaShape = {
+  [key: string]: Schema<unknown>;
+}
+
+type OptionalKeys<Shape extends SchemaShape> = {
+  [K in keyof Shape]: Shape[K] extends { optional: true } ? K : never
+}[keyof Shape]
+
+type RequiredKeys<Shape extends SchemaShape> = Exclude<keyof Shape, OptionalKeys<Shape>>
+
+/**
+ * The type of the objects that a shape accepts, where the
+ * fields of optional schemas are optional
+ */
+export type InferShape<Shape extends SchemaShape> = {
+  [K in RequiredKeys<Shape>]: InferSchema<Shape[K]>
+} & {
+  [K in OptionalKeys<Shape>]?: InferSchema<Shape[K]>
+}
+
+export class Schemas {
+  /**
+   * Create a schema that checks a value with a predicate
+   *
+   * @param check Returns whether the value is valid
+   * @param message Message of the issue for invalid values
+   */
+  static create<T> (check: (value: unknown) => boolean, message: string): Schema<T> {
+    return {
+      validate: (value: unknown): Array<SchemaIssue> => check(value) ? [] : [{ path: [], message }]
+    }
+  }
+
+  static string (): Schema<string> {
+    return this.create(value => typeof value === 'string', 'Expected a string')
+  }
+
+  static number (): Schema<number> {
+    return this.create(value => typeof value === 'number' && !isNaN(value), 'Expected a number')
+  }
+
+  static boolean (): Schema<boolean> {
+    return this.create(value => typeof value === 'boolean', 'Expected a boolean')
+  }
+
+  static date (): Schema<Date> {
+    return this.create(value => value instanceof Date && !isNaN(value.getTime()), 'Expected a valid date')
+  }
+
+  /**
+   * Accepts anything, such as for fields whose values are
+   * checked elsewhere
+   */
+  static unknown (): Schema<unknown> {
+    return this.create(() => true, '')
+  }
+
+  /**
+   * Create a schema that accepts one of the given values
+   *
+   * @param values Valid values
+   */
+  static oneOf<T extends string|number|boolean> (values: Array<T>): Schema<T> {
+    return this.create(value => values.indexOf(value as T) !== -1, `Expected one of: ${values.join(', ')}`)
+  }
+
+  /**
+   * Create a schema for an array whose items all match a schema
+   *
+   * @param item Schema of every item
+   */
+  static array<T> (item: Schema<T>): Schema<Array<T>> {
+    return {
+      item,
+      validate: (value: unknown): Array<SchemaIssue> => {
+        if (!Array.isArray(value)) {
+          return [{ path: [], message: 'Expected an array' }]
+        }
+        const issues: Array<SchemaIssue> = []
+        value.forEach((element, index) => {
+          issues.push(...this.prefixIssues(item.validate(element), index))
+        })
+        return issues
+      }
+    }
+  }
+
+  /**
+   * Create a schema for an object with the given fields. Fields
+   * that are not in the shape are allowed.
+   *
+   * @param shape Schema of each field
+   */
+  static object<Shape extends SchemaShape> (shape: Shape): Schema<InferShape<Shape>> {
+    return {
+      fields: shape,
+      validate: (value: unknown): Array<SchemaIssue> => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return [{ path: [], message: 'Expected an object' }]
+        }
+        const record = value as Record<string, unknown>
+        const issues: Array<SchemaIssue> = []
+        for (const key of Object.keys(shape)) {
+          const schema = shape[key]
+          const fieldValue = record[key]
+          if (fieldValue === undefined) {
+            if (!schema.optional) {
+              issues.push({ path: [key], message: 'Required' })
+            }
+            continue
+          }
+          issues.push(...this.prefixIssues(schema.validate(fieldValue), key))
+        }
+        return issues
+      }
+    }
+  }
+
+  /**
+   * Allow a value to be undefined, which also makes it an
+   * optional field of objects
+   *
+   * @param schema Schema of defined values
+   */
+  static optional<T> (schema: Schema<T>): Schema<T|undefined> & { optional: true } {
+    return {
+      validate: (value: unknown): Array<SchemaIssue> => value === undefined ? [] : schema.validate(value),
+      optional: true,
+      fields: schema.fields,
+      item: schema.item
+    }
+  }
+
+  /**
+   * Whether a path exists within the values of a schema. Keys
+   * must be fields of object schemas, and numbers or length
+   * for array schemas. Paths that continue past a schema that
+   * does not describe its fields, such as unknown, are not
+   * checked any further.
+   *
+   * @param schema Schema of the root value
+   * @param path Keys and indices from the root
+   */
+  static hasPath (schema: Schema<unknown>, path: Array<string|number>): boolean {
+    let current = schema
+    for (const [index, key] of path.entries()) {
+      if (current.fields) {
+        if (!Object.prototype.hasOwnProperty.call(current.fields, key)) {
+          return false
+        }
+        current = current.fields[key]
+      } else if (current.item) {
+        if (key === 'length') {
+          return index === path.length - 1
+        }
+        if (typeof key !== 'number') {
+          return false
+        }
+        current = current.item
+      } else {
+        return true
+      }
+    }
+    return true
+  }
+
+  /**
+   * Add a key or index to the start of the paths of issues
+   *
+   * @param issues Issues of a nested value
+   * @param key Key or index of the nested value
+   */
+  static prefixIssues (issues: Array<SchemaIssue>, key: string|number): Array<SchemaIssue> {
+    return issues.map(issue => ({
+      ...issue,
+      path: [key, ...issue.path]
+    }))
+  }
+
+  /**
+   * Returns a path in the form of data.items[0].name
+   *
+   * @param path Keys and indices from the root
+   */
+  static formatPath (path: Array<string|number>): string {
+    return path.reduce((formatted: string, key) => typeof key === 'number'
+      ? `${formatted}[${key}]`
+      : `${formatted}.${key}`, 'data')
+  }
+}
@@ -0,0 +1,207 @@
+import { PromptNode } from './PromptNode'
+import { PromptRunner, PromptRunnerRunOptions } from './PromptRunner'
+import { ChannelInterface } from './interfaces/Channel'
+import { MessageInterface } from './interfaces/Message'
+import { ClockInterface } from './interfaces/Clock'
+import { SystemClock } from './clocks/SystemClock'
+import { FlowAbortController } from './FlowAbortController'
+import { FlowAbortedError } from './errors/FlowAbortedError'
+import { SessionConflictError } from './errors/SessionConflictError'
+
+/**
+ * What to do when a session is started for a user and channel
+ * that already have one. reject throws a SessionConflictError,
+ * replace cancels the existing sessions, and queue starts the
+ * new session once the existing ones end.
+ */
+export type SessionConflictPolicy = 'reject'|'replace'|'queue'
+
+export interface SessionKey {
+  userID: string;
+  channelID: string;
+}
+
+export interface SessionManagerOptions {
+  policy?: SessionConflictPolicy;
+  /**
+   * Clock for the elapsed time of sessions
+   */
+  clock?: ClockInterface;
+}
+
+export interface ManagedSession<DataType, MessageType extends MessageInterface> {
+  key: SessionKey;
+  runner: PromptRunner<DataType, MessageType>;
+  controller: FlowAbortController;
+  /**
+   * Time the session was started at by the manager's clock
+   */
+  startedAt: number;
+  /**
+   * Whether the session is waiting for the sessions before it
+   */
+  queued: boolean;
+  /**
+   * Resolves once the session has ended and was removed
+   */
+  done: Promise<void>;
+}
+
+export interface SessionInfo<DataType, MessageType extends MessageInterface> {
+  key: SessionKey;
+  queued: boolean;
+  /**
+   * Node that is running, or null if no node has run yet
+   */
+  node: PromptNode<DataType, MessageType>|null;
+  /**
+   * Milliseconds since the session was started
+   */
+  elapsed: number;
+}
+
+/**
+ * Keeps track of the runs of every user and channel, and
+ * removes them once they end
+ */
+export class SessionManager<DataType, MessageType extends MessageInterface> {
+  readonly policy: SessionConflictPolicy
+  readonly clock: ClockInterface
+  readonly sessions: Array<ManagedSession<DataType, MessageType>> = []
+
+  /**
+   * @param options Manager options
+   */
+  constructor (options: SessionManagerOptions = {}) {
+    this.policy = options.policy || 'reject'
+    this.clock = options.clock || new SystemClock()
+  }
+
+  static isSameKey (a: SessionKey, b: SessionKey): boolean {
+    return a.userID === b.userID && a.channelID === b.channelID
+  }
+
+  /**
+   * Returns the sessions of a user and channel, in the order
+   * they were started
+   *
+   * @param key User and channel
+   */
+  get (key: SessionKey): Array<ManagedSession<DataType, MessageType>> {
+    return this.sessions.filter(session => SessionManager.isSameKey(session.key, key))
+  }
+
+  /**
+   * Whether a user has a running or queued session in a channel
+   *
+   * @param key User and channel
+   */
+  has (key: SessionKey): boolean {
+    return this.get(key).length > 0
+  }
+
+  /**
+   * Run a tree for a user in a channel. The session is removed
+   * once the run resolves or rejects.
+   *
+   * @param key User and channel
+   * @param runner Runner to run the tree with
+   * @param rootNode Root prompt node
+   * @param channel Channel to run the tree in
+   * @param options Options of the run. The signal is the manager's.
+   */
+  async start (key: SessionKey, runner: PromptRunner<DataType, MessageType>, rootNode: PromptNode<DataType, MessageType>, channel: ChannelInterface<MessageType>, options: Omit<PromptRunnerRunOptions, 'signal'> = {}): Promise<DataType> {
+    const existing = this.get(key)
+    if (existing.length > 0) {
+      if (this.policy === 'reject') {
+        throw new SessionConflictError(key.userID, key.channelID)
+      }
+      if (this.policy === 'replace') {
+        existing.forEach(session => session.controller.abort('Replaced by a new session'))
+      }
+    }
+    const queued = this.policy === 'queue' && existing.length > 0
+    // Queued sessions start once the session before them ends
+    const previous = queued ? existing[existing.length - 1].done : Promise.resolve()
+    const controller = new FlowAbortController()
+    const session: ManagedSession<DataType, MessageType> = {
+      key,
+      runner,
+      controller,
+      startedAt: this.clock.now(),
+      queued,
+      // Set below once the run has started
+      done: Promise.resolve()
+    }
+    const run = async (): Promise<DataType> => {
+      await previous
+      session.queued = false
+      const { signal } = controller
+      if (signal.aborted) {
+        throw new FlowAbortedError(signal.reason)
+      }
+      return runner.run(rootNode, channel, {
+        ...options,
+        signal
+      })
+    }
+    this.sessions.push(session)
+    const promise = run()
+    session.done = promise
+      .then(() => undefined, () => undefined)
+      .then(() => this.remove(session))
+    return promise
+  }
+
+  /**
+   * Stop tracking a session
+   *
+   * @param session Session to remove
+   */
+  remove (session: ManagedSession<DataType, MessageType>): void {
+    const index = this.sessions.indexOf(session)
+    if (index !== -1) {
+      this.sessions.splice(index, 1)
+    }
+  }
+
+  /**
+   * Returns every running and queued session
+   */
+  list (): Array<SessionInfo<DataType, MessageType>> {
+    const now = this.clock.now()
+    return this.sessions.map(session => ({
+      key: session.key,
+      queued: session.queued,
+      node: session.runner.currentNode,
+      elapsed: now - session.startedAt
+    }))
+  }
+
+  /**
+   * Cancel the running and queued sessions of a user in a
+   * channel. Their runs reject with a FlowAbortedError.
+   *
+   * @param key User and channel
+   * @param reason Reason of the FlowAbortedError
+   * @returns The number of sessions that were cancelled
+   */
+  cancel (key: SessionKey, reason?: unknown): number {
+    const sessions = this.get(key)
+    sessions.forEach(session => session.controller.abort(reason))
+    return sessions.length
+  }
+
+  /**
+   * Cancel every running and queued session in a channel
+   *
+   * @param channelID ID of the channel
+   * @param reason Reason of the FlowAbortedError
+   * @returns The number of sessions that were cancelled
+   */
+  cancelChannel (channelID: string, reason?: unknown): number {
+    const sessions = this.sessions.filter(session => session.key.channelID === channelID)
+    sessions.forEach(session => session.controller.abort(reason))
+    return sessions.length
+  }
+}
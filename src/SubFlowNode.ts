@@ -0,0 +1,68 @@
+import { Prompt, PromptRunOptions, PromptCollector } from './Prompt'
+import { PromptNode, PromptNodeCondition } from './PromptNode'
+import { ChannelInterface } from './interfaces/Channel'
+import { MessageInterface } from './interfaces/Message'
+import { VisualInterface } from './interfaces/Visual'
+
+export interface SubFlowMapping<DataType, ChildDataType> {
+  /**
+   * Returns the data the root node of the child tree starts with
+   *
+   * @param data The data before the sub-flow
+   */
+  input: (data: DataType) => Promise<ChildDataType>;
+  /**
+   * Returns the data after the sub-flow
+   *
+   * @param data The data before the sub-flow
+   * @param result The data the child tree finished with
+   */
+  output: (data: DataType, result: ChildDataType) => Promise<DataType>;
+}
+
+/**
+ * Prompt of a sub-flow node. It has no visual and collects
+ * nothing itself, since the PromptRunner runs the child tree
+ * in its place.
+ */
+export class SubFlowPrompt<DataType, MessageType extends MessageInterface> extends Prompt<DataType, MessageType> {
+  constructor () {
+    super(async (): Promise<VisualInterface[]> => [])
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  createCollector (channel: ChannelInterface<MessageType>, data: DataType): PromptCollector<DataType, MessageType> {
+    throw new Error('Sub-flows do not collect messages')
+  }
+
+  async onReject (): Promise<void> {
+    return
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async run (channel: ChannelInterface<MessageType>, data: DataType, options?: PromptRunOptions<DataType, MessageType>): Promise<DataType> {
+    throw new Error('Sub-flows can only be run by a PromptRunner')
+  }
+}
+
+/**
+ * Node that runs a whole child tree with its own data type.
+ * The data is mapped into the child tree before it runs, and
+ * its result is merged back afterwards.
+ */
+export class SubFlowNode<DataType, ChildDataType, MessageType extends MessageInterface> extends PromptNode<DataType, MessageType> {
+  readonly rootNode: PromptNode<ChildDataType, MessageType>
+  readonly mapping: SubFlowMapping<DataType, ChildDataType>
+
+  /**
+   * @param rootNode Root node of the child tree
+   * @param mapping Maps the data into and out of the child tree
+   * @param condition Condition for this node to run
+   * @param id Stable identifier of this node, used to resume sessions
+   */
+  constructor (rootNode: PromptNode<ChildDataType, MessageType>, mapping: SubFlowMapping<DataType, ChildDataType>, condition?: PromptNodeCondition<DataType>, id?: string) {
+    super(new SubFlowPrompt(), condition, id)
+    this.rootNode = rootNode
+    this.mapping = mapping
+  }
+}
@@ -0,0 +1,374 @@
+import { Schema, Schemas } from './Schema'
+import { TemplateSyntaxError } from './errors/TemplateSyntaxError'
+
+/**
+ * Where the value of a path is looked up. Item, index and
+ * number refer to the innermost each block.
+ */
+export type TemplatePathScope = 'data'|'item'|'index'|'number'
+
+export interface TemplatePath {
+  /**
+   * The path as it is written, such as this.name
+   */
+  expression: string;
+  scope: TemplatePathScope;
+  /**
+   * Keys and indices within the scope
+   */
+  keys: Array<string|number>;
+  /**
+   * Keys and indices from the root of the data, where 0
+   * stands for every item of the arrays of each blocks
+   */
+  fieldPath: Array<string|number>;
+}
+
+export type TemplateNode = {
+  type: 'text';
+  text: string;
+} | {
+  type: 'value';
+  path: TemplatePath;
+  /**
+   * Text for values that are undefined or null
+   */
+  fallback?: string;
+} | {
+  type: 'if';
+  path: TemplatePath;
+  then: Array<TemplateNode>;
+  otherwise: Array<TemplateNode>;
+} | {
+  type: 'each';
+  path: TemplatePath;
+  body: Array<TemplateNode>;
+}
+
+type TemplateBlock = {
+  node: TemplateNode & { type: 'if'|'each' };
+  /**
+   * Whether the else tag of an if block was found
+   */
+  otherwise: boolean;
+}
+
+type TemplateLoop = {
+  item: unknown;
+  index: number;
+}
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/
+
+const FALLBACK = /^(.+?)\s*\|\s*(?:"([^"]*)"|'([^']*)')$/
+
+const SEGMENT = /^[A-Za-z0-9_$]+$/
+
+/**
+ * A text template compiled once and rendered with the data of
+ * every run. {{name}} inserts a value, {{user.name | "friend"}}
+ * inserts a nested value with a fallback, {{#if path}} ...
+ * {{else}} ... {{/if}} renders either part depending on a value,
+ * and {{#each path}} ... {{/each}} renders its body for every
+ * item of an array, where {{this}} is the item and {{@index}}
+ * and {{@number}} are its index from 0 and from 1.
+ */
+export class Template {
+  readonly source: string
+  readonly nodes: Array<TemplateNode>
+
+  /**
+   * @param source Template text
+   */
+  constructor (source: string) {
+    this.source = source
+    this.nodes = Template.parse(source)
+  }
+
+  /**
+   * Parse a path such as user.name, this.name or @index
+   *
+   * @param source Source of the template, for errors
+   * @param expression Path as it is written
+   * @param loops Field paths of the items of the enclosing each blocks
+   */
+  static parsePath (source: string, expression: string, loops: Array<Array<string|number>>): TemplatePath {
+    const segments = expression.split('.')
+    const [first, ...rest] = segments
+    const keys = rest.map(key => /^\d+$/.test(key) ? Number(key) : key)
+    if (!rest.every(key => SEGMENT.test(key))) {
+      throw new TemplateSyntaxError(source, `Invalid path "${expression}"`)
+    }
+    if (first === '@index' || first === '@number') {
+      if (loops.length === 0 || rest.length > 0) {
+        throw new TemplateSyntaxError(source, `"${expression}" can only be used alone within an each block`)
+      }
+      return {
+        expression,
+        scope: first === '@index' ? 'index' : 'number',
+        keys: [],
+        fieldPath: []
+      }
+    }
+    if (first === 'this') {
+      if (loops.length === 0) {
+        throw new TemplateSyntaxError(source, `"${expression}" can only be used within an each block`)
+      }
+      return {
+        expression,
+        scope: 'item',
+        keys,
+        fieldPath: [...loops[loops.length - 1], ...keys]
+      }
+    }
+    if (!SEGMENT.test(first)) {
+      throw new TemplateSyntaxError(source, `Invalid path "${expression}"`)
+    }
+    const dataKeys = [first, ...keys]
+    return {
+      expression,
+      scope: 'data',
+      keys: dataKeys,
+      fieldPath: dataKeys
+    }
+  }
+
+  /**
+   * Parse the source of a template into its nodes
+   *
+   * @param source Template text
+   */
+  static parse (source: string): Array<TemplateNode> {
+    const root: Array<TemplateNode> = []
+    const blocks: Array<TemplateBlock> = []
+    const loops: Array<Array<string|number>> = []
+    const current = (): Array<TemplateNode> => {
+      const block = blocks[blocks.length - 1]
+      if (!block) {
+        return root
+      }
+      const { node } = block
+      if (node.type === 'each') {
+        return node.body
+      }
+      return block.otherwise ? node.otherwise : node.then
+    }
+    const pattern = new RegExp(TAG.source, 'g')
+    let lastIndex = 0
+    let match: RegExpExecArray|null
+    while ((match = pattern.exec(source)) !== null) {
+      if (match.index > lastIndex) {
+        current().push({
+          type: 'text',
+          text: source.slice(lastIndex, match.index)
+        })
+      }
+      lastIndex = pattern.lastIndex
+      const tag = match[1]
+      const block = blocks[blocks.length - 1]
+      if (tag.startsWith('#if ')) {
+        const node: TemplateBlock['node'] = {
+          type: 'if',
+          path: this.parsePath(source, tag.slice(4).trim(), loops),
+          then: [],
+          otherwise: []
+        }
+        current().push(node)
+        blocks.push({ node, otherwise: false })
+      } else if (tag.startsWith('#each ')) {
+        const path = this.parsePath(source, tag.slice(6).trim(), loops)
+        if (path.scope === 'index' || path.scope === 'number') {
+          throw new TemplateSyntaxError(source, `Cannot loop over "${path.expression}"`)
+        }
+        const node: TemplateBlock['node'] = {
+          type: 'each',
+          path,
+          body: []
+        }
+        current().push(node)
+        blocks.push({ node, otherwise: false })
+        loops.push([...path.fieldPath, 0])
+      } else if (tag === 'else') {
+        if (!block || block.node.type !== 'if' || block.otherwise) {
+          throw new TemplateSyntaxError(source, '{{else}} must be within an if block')
+        }
+        block.otherwise = true
+      } else if (tag === '/if' || tag === '/each') {
+        const type = tag.slice(1)
+        if (!block || block.node.type !== type) {
+          throw new TemplateSyntaxError(source, `Unexpected {{${tag}}}`)
+        }
+        blocks.pop()
+        if (type === 'each') {
+          loops.pop()
+        }
+      } else if (tag.startsWith('#') || tag.startsWith('/')) {
+        throw new TemplateSyntaxError(source, `Unknown tag "{{${tag}}}"`)
+      } else {
+        const fallback = tag.match(FALLBACK)
+        const expression = fallback ? fallback[1] : tag
+        current().push({
+          type: 'value',
+          path: this.parsePath(source, expression, loops),
+          fallback: fallback ? (fallback[2] !== undefined ? fallback[2] : fallback[3]) : undefined
+        })
+      }
+    }
+    if (blocks.length > 0) {
+      throw new TemplateSyntaxError(source, `Missing {{/${blocks[blocks.length - 1].node.type}}}`)
+    }
+    if (lastIndex < source.length) {
+      root.push({
+        type: 'text',
+        text: source.slice(lastIndex)
+      })
+    }
+    return root
+  }
+
+  /**
+   * Returns the value at a path within a value
+   *
+   * @param value Value to look in
+   * @param keys Keys and indices within the value
+   */
+  static get (value: unknown, keys: Array<string|number>): unknown {
+    let current = value
+    for (const key of keys) {
+      if (current === undefined || current === null) {
+        return undefined
+      }
+      current = (current as Record<string|number, unknown>)[key]
+    }
+    return current
+  }
+
+  /**
+   * Returns the value of a path
+   *
+   * @param path Path to look up
+   * @param data Data of the render
+   * @param loops Items of the enclosing each blocks
+   */
+  static resolve (path: TemplatePath, data: unknown, loops: Array<TemplateLoop>): unknown {
+    const loop = loops[loops.length - 1]
+    switch (path.scope) {
+      case 'index':
+        return loop.index
+      case 'number':
+        return loop.index + 1
+      case 'item':
+        return this.get(loop.item, path.keys)
+      case 'data':
+        return this.get(data, path.keys)
+    }
+  }
+
+  /**
+   * Whether an if block renders its first part. Empty arrays
+   * are false like other empty values.
+   *
+   * @param value Value of the path of the block
+   */
+  static isTruthy (value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value
+  }
+
+  /**
+   * Returns the text of a value, joining arrays with commas
+   *
+   * @param value Value to insert
+   */
+  static stringify (value: unknown): string {
+    if (Array.isArray(value)) {
+      return value.map(item => this.stringify(item)).join(', ')
+    }
+    if (value instanceof Date) {
+      return value.toISOString()
+    }
+    return String(value)
+  }
+
+  /**
+   * Render template nodes
+   *
+   * @param nodes Nodes to render
+   * @param data Data of the render
+   * @param loops Items of the enclosing each blocks
+   */
+  static renderNodes (nodes: Array<TemplateNode>, data: unknown, loops: Array<TemplateLoop>): string {
+    return nodes.map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text
+        case 'value': {
+          const value = this.resolve(node.path, data, loops)
+          if (value === undefined || value === null) {
+            return node.fallback || ''
+          }
+          return this.stringify(value)
+        }
+        case 'if':
+          return this.renderNodes(this.isTruthy(this.resolve(node.path, data, loops)) ? node.then : node.otherwise, data, loops)
+        case 'each': {
+          const items = this.resolve(node.path, data, loops)
+          if (!Array.isArray(items)) {
+            return ''
+          }
+          return items.map((item, index) => this.renderNodes(node.body, data, [...loops, { item, index }])).join('')
+        }
+      }
+    }).join('')
+  }
+
+  /**
+   * Render the template with data. Values that are undefined
+   * or null are replaced by their fallback, or else removed.
+   *
+   * @param data Data to render with
+   */
+  render (data: unknown): string {
+    return Template.renderNodes(this.nodes, data, [])
+  }
+
+  /**
+   * Returns every path of the data the template uses
+   */
+  getPaths (): Array<TemplatePath> {
+    const paths: Array<TemplatePath> = []
+    const collect = (nodes: Array<TemplateNode>): void => {
+      for (const node of nodes) {
+        if (node.type === 'text') {
+          continue
+        }
+        if (node.path.scope === 'data' || node.path.scope === 'item') {
+          paths.push(node.path)
+        }
+        if (node.type === 'if') {
+          collect(node.then)
+          collect(node.otherwise)
+        } else if (node.type === 'each') {
+          collect(node.body)
+        }
+      }
+    }
+    collect(this.nodes)
+    return paths
+  }
+
+  /**
+   * Returns the paths, as they are written, that do not exist
+   * in the data that a schema describes
+   *
+   * @param schema Schema of the data
+   */
+  findUnknownFields (schema: Schema<unknown>): Array<string> {
+    const unknown: Array<string> = []
+    for (const path of this.getPaths()) {
+      if (!Schemas.hasPath(schema, path.fieldPath) && unknown.indexOf(path.expression) === -1) {
+        unknown.push(path.expression)
+      }
+    }
+    return unknown
+  }
+}
@@ -0,0 +1,180 @@
+import { PromptCollector } from './Prompt'
+import { ChannelInterface } from './interfaces/Channel'
+import { MessageInterface } from './interfaces/Message'
+import { VisualInterface } from './interfaces/Visual'
+import { ClockInterface } from './interfaces/Clock'
+import { SystemClock } from './clocks/SystemClock'
+import { Rejection } from './errors/Rejection'
+import { UserVoluntaryExitError } from './errors/user/UserVoluntaryExitError'
+import { UserInactivityError } from './errors/user/UserInactivityError'
+
+export type TranscriptEndReason = 'completed'|'exit'|'inactivity'|'error'
+
+export type TranscriptEvent = {
+  type: 'visual';
+  text: string;
+  visual: VisualInterface;
+}|{
+  type: 'message';
+  content: string;
+}|{
+  type: 'rejection';
+  content: string;
+  /**
+   * Message of the Rejection
+   */
+  reason: string;
+}|{
+  type: 'transition';
+  /**
+   * ID of the node that ran before, or null at the start
+   */
+  from: string|null;
+  to: string;
+}|{
+  type: 'end';
+  reason: TranscriptEndReason;
+  /**
+   * Message of the error if the reason is error
+   */
+  error?: string;
+}
+
+export type TranscriptEntry = TranscriptEvent & {
+  /**
+   * Time of the event in milliseconds
+   */
+  time: number;
+}
+
+/**
+ * Records what a user saw and typed during runs of a
+ * PromptRunner. Pass it as the transcript option of a runner.
+ */
+export class Transcript {
+  readonly entries: Array<TranscriptEntry> = []
+  readonly clock: ClockInterface
+
+  /**
+   * @param clock Clock for the timestamps
+   */
+  constructor (clock: ClockInterface = new SystemClock()) {
+    this.clock = clock
+  }
+
+  record (event: TranscriptEvent): void {
+    this.entries.push({
+      time: this.clock.now(),
+      ...event
+    })
+  }
+
+  /**
+   * Returns a channel that records every visual sent through
+   * it. All other properties are those of the original channel.
+   *
+   * @param channel Channel to record
+   */
+  wrapChannel<MessageType extends MessageInterface, ChannelType extends ChannelInterface<MessageType>> (channel: ChannelType): ChannelType {
+    const send = async (visual: VisualInterface): Promise<MessageType|MessageType[]> => {
+      this.record({
+        type: 'visual',
+        text: visual.text,
+        visual
+      })
+      return channel.send(visual)
+    }
+    return new Proxy(channel, {
+      get: (target, property): unknown => {
+        if (property === 'send') {
+          return send
+        }
+        const value = Reflect.get(target, property)
+        return typeof value === 'function' ? value.bind(target) : value
+      }
+    })
+  }
+
+  /**
+   * Record the messages and rejections of a collector. Messages
+   * that the filter of the run drops, such as those of other
+   * users in shared channels, are not recorded.
+   *
+   * @param collector Collector of a prompt
+   */
+  watchCollector<DataType, MessageType extends MessageInterface> (collector: PromptCollector<DataType, MessageType>): void {
+    collector.on('input', (message: MessageType) => {
+      this.record({
+        type: 'message',
+        content: message.content
+      })
+    })
+    collector.on('reject', (message: MessageType, error: Rejection) => {
+      this.record({
+        type: 'rejection',
+        content: message.content,
+        reason: error.message
+      })
+    })
+  }
+
+  /**
+   * Record how a run ended
+   *
+   * @param error Error the run threw, if any
+   */
+  recordEnd (error?: Error): void {
+    if (!error) {
+      this.record({
+        type: 'end',
+        reason: 'completed'
+      })
+    } else if (error instanceof UserVoluntaryExitError) {
+      this.record({
+        type: 'end',
+        reason: 'exit'
+      })
+    } else if (error instanceof UserInactivityError) {
+      this.record({
+        type: 'end',
+        reason: 'inactivity'
+      })
+    } else {
+      this.record({
+        type: 'end',
+        reason: 'error',
+        error: error.message
+      })
+    }
+  }
+
+  /**
+   * Export the entries as JSON Lines, one entry per line
+   */
+  toJSONLines (): string {
+    return this.entries.map(entry => JSON.stringify(entry)).join('\n')
+  }
+
+  static formatEntry (entry: TranscriptEntry): string {
+    const time = new Date(entry.time).toISOString()
+    switch (entry.type) {
+      case 'visual':
+        return `[${time}] BOT: ${entry.text}`
+      case 'message':
+        return `[${time}] USER: ${entry.content}`
+      case 'rejection':
+        return `[${time}] REJECTED: ${entry.content} (${entry.reason})`
+      case 'transition':
+        return `[${time}] NODE: ${entry.from === null ? 'start' : entry.from} -> ${entry.to}`
+      case 'end':
+        return `[${time}] END: ${entry.reason}${entry.error ? ` (${entry.error})` : ''}`
+    }
+  }
+
+  /**
+   * Export the entries as a readable log, one entry per line
+   */
+  toText (): string {
+    return this.entries.map(entry => Transcript.formatEntry(entry)).join('\n')
+  }
+}
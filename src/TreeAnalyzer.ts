@@ -0,0 +1,325 @@
+import { PromptNode } from './PromptNode'
+import { PromptRunner } from './PromptRunner'
+import { SubFlowNode } from './SubFlowNode'
+import { MessageInterface } from './interfaces/Message'
+import { Schema } from './Schema'
+
+export type TreeDiagnosticSeverity = 'error'|'warning'
+
+export interface TreeDiagnostic {
+  severity: TreeDiagnosticSeverity;
+  code: string;
+  message: string;
+  /**
+   * IDs of the nodes from the root to the node with the problem
+   */
+  path: Array<string>;
+}
+
+export interface TreeAnalyzerOptions {
+  /**
+   * Schema of the data of the tree, which the templates of
+   * nodes without an input contract are checked against. The
+   * child trees of sub-flows and loops have data of their own,
+   * so it does not apply to them.
+   */
+  schema?: Schema<unknown>;
+}
+
+type AnalyzedNode<DataType, MessageType extends MessageInterface> = PromptNode<DataType, MessageType>
+
+export class TreeAnalyzer<DataType, MessageType extends MessageInterface> {
+  readonly rootNode: AnalyzedNode<DataType, MessageType>
+  readonly options: TreeAnalyzerOptions
+  readonly ids: Map<AnalyzedNode<DataType, MessageType>, string>
+  /**
+   * Path of IDs from the root to each node, following the
+   * first route that reaches the node
+   */
+  readonly paths: Map<AnalyzedNode<DataType, MessageType>, Array<string>> = new Map()
+  readonly parents: Map<AnalyzedNode<DataType, MessageType>, Set<AnalyzedNode<DataType, MessageType>>> = new Map()
+  /**
+   * Nodes of the child trees of sub-flows and loops
+   */
+  readonly nested: Set<AnalyzedNode<DataType, MessageType>> = new Set()
+  /**
+   * The strongly connected component each node belongs to
+   */
+  readonly components: Map<AnalyzedNode<DataType, MessageType>, Set<AnalyzedNode<DataType, MessageType>>> = new Map()
+
+  /**
+   * @param rootNode Root prompt node
+   * @param options Analyzer options
+   */
+  constructor (rootNode: AnalyzedNode<DataType, MessageType>, options: TreeAnalyzerOptions = {}) {
+    this.rootNode = rootNode
+    this.options = options
+    this.ids = PromptRunner.getNestedNodeIDs(rootNode)
+    this.walk(rootNode, [], false)
+    this.findComponents()
+  }
+
+  /**
+   * Analyze a tree and return all problems found
+   *
+   * @param rootNode Root prompt node
+   * @param options Analyzer options
+   */
+  static analyze<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>, options: TreeAnalyzerOptions = {}): Array<TreeDiagnostic> {
+    return new TreeAnalyzer(rootNode, options).getDiagnostics()
+  }
+
+  /**
+   * Returns true if any diagnostic is an error
+   *
+   * @param diagnostics Diagnostics of a tree
+   */
+  static hasErrors (diagnostics: Array<TreeDiagnostic>): boolean {
+    return diagnostics.some(diagnostic => diagnostic.severity === 'error')
+  }
+
+  /**
+   * Record the path and parents of every node, including the
+   * fallback nodes of retry policies and the child trees of
+   * sub-flows and loops. Only children count as parents, since
+   * fallbacks and child trees do not run after their node.
+   *
+   * @param node Node to walk from
+   * @param parentPath Path of IDs to the node's parent
+   * @param nested Whether the node is in a child tree
+   */
+  walk (node: AnalyzedNode<DataType, MessageType>, parentPath: Array<string>, nested: boolean): void {
+    if (this.paths.has(node)) {
+      return
+    }
+    const path = [...parentPath, this.ids.get(node) as string]
+    this.paths.set(node, path)
+    if (nested) {
+      this.nested.add(node)
+    }
+    for (const child of node.children) {
+      const parents = this.parents.get(child) || new Set()
+      parents.add(node)
+      this.parents.set(child, parents)
+      this.walk(child, path, nested)
+    }
+    const fallback = node.getFallback()
+    if (fallback) {
+      this.walk(fallback, path, nested)
+    }
+    if (node instanceof SubFlowNode) {
+      this.walk(node.rootNode, path, true)
+    }
+  }
+
+  /**
+   * Find the strongly connected components with Tarjan's
+   * algorithm. Nodes within the same component can all reach
+   * each other, so any component with more than one node, or
+   * with a node that is its own child, is a cycle. Every node
+   * that was walked is connected, so cycles within fallbacks
+   * and child trees are found too.
+   */
+  findComponents (): void {
+    let index = 0
+    const indexes: Map<AnalyzedNode<DataType, MessageType>, number> = new Map()
+    const lowLinks: Map<AnalyzedNode<DataType, MessageType>, number> = new Map()
+    const stack: Array<AnalyzedNode<DataType, MessageType>> = []
+    const onStack: Set<AnalyzedNode<DataType, MessageType>> = new Set()
+    const connect = (node: AnalyzedNode<DataType, MessageType>): void => {
+      indexes.set(node, index)
+      lowLinks.set(node, index)
+      index++
+      stack.push(node)
+      onStack.add(node)
+      for (const child of node.children) {
+        if (!indexes.has(child)) {
+          connect(child)
+          lowLinks.set(node, Math.min(lowLinks.get(node) as number, lowLinks.get(child) as number))
+        } else if (onStack.has(child)) {
+          lowLinks.set(node, Math.min(lowLinks.get(node) as number, indexes.get(child) as number))
+        }
+      }
+      if (lowLinks.get(node) === indexes.get(node)) {
+        const component: Set<AnalyzedNode<DataType, MessageType>> = new Set()
+        let member: AnalyzedNode<DataType, MessageType>
+        do {
+          member = stack.pop() as AnalyzedNode<DataType, MessageType>
+          onStack.delete(member)
+          component.add(member)
+          this.components.set(member, component)
+        } while (member !== node)
+      }
+    }
+    for (const node of this.paths.keys()) {
+      if (!indexes.has(node)) {
+        connect(node)
+      }
+    }
+  }
+
+  getPath (node: AnalyzedNode<DataType, MessageType>): Array<string> {
+    return this.paths.get(node) as Array<string>
+  }
+
+  isCycle (component: Set<AnalyzedNode<DataType, MessageType>>): boolean {
+    if (component.size > 1) {
+      return true
+    }
+    const [node] = component
+    return node.children.indexOf(node) !== -1
+  }
+
+  /**
+   * Children with no condition always run, so every sibling
+   * after them can never run
+   *
+   * @param node Node whose children to check
+   */
+  checkChildren (node: AnalyzedNode<DataType, MessageType>): Array<TreeDiagnostic> {
+    const diagnostics: Array<TreeDiagnostic> = []
+    const { children } = node
+    if (children.length <= 1) {
+      return diagnostics
+    }
+    const path = this.getPath(node)
+    const unconditionalIndex = children.findIndex(child => !child.condition)
+    children.forEach((child, index) => {
+      const childPath = [...path, this.ids.get(child) as string]
+      if (!child.condition) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'missing-condition',
+          message: 'Node has siblings but no condition',
+          path: childPath
+        })
+      }
+      if (unconditionalIndex !== -1 && index > unconditionalIndex) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'unreachable-sibling',
+          message: `Node is unreachable since its earlier sibling "${this.ids.get(children[unconditionalIndex])}" has no condition`,
+          path: childPath
+        })
+      }
+    })
+    return diagnostics
+  }
+
+  /**
+   * Nodes with no function do not wait for input, so their
+   * children run right after their visual is sent
+   *
+   * @param node Node to check
+   */
+  checkPassthrough (node: AnalyzedNode<DataType, MessageType>): Array<TreeDiagnostic> {
+    if (PromptRunner.collectsMessages(node) || node.children.length === 0) {
+      return []
+    }
+    const parents = this.parents.get(node) || new Set()
+    const collectingParent = [...parents].find(parent => PromptRunner.collectsMessages(parent))
+    if (!collectingParent) {
+      return []
+    }
+    return [{
+      severity: 'warning',
+      code: 'passthrough-node',
+      message: `Node has no function but has children after the collecting node "${this.ids.get(collectingParent)}", so its children run without waiting for input`,
+      path: this.getPath(node)
+    }]
+  }
+
+  /**
+   * Nodes with parents outside of their own cycle are
+   * attached under several parents
+   *
+   * @param node Node to check
+   */
+  checkSharedNode (node: AnalyzedNode<DataType, MessageType>): Array<TreeDiagnostic> {
+    const component = this.components.get(node) as Set<AnalyzedNode<DataType, MessageType>>
+    const parents = [...(this.parents.get(node) || new Set())]
+    // Parents within the same cycle are how the cycle loops back
+    const outsideParents = this.isCycle(component)
+      ? parents.filter(parent => !component.has(parent))
+      : parents
+    if (outsideParents.length <= 1) {
+      return []
+    }
+    return [{
+      severity: 'warning',
+      code: 'shared-node',
+      message: `Node is attached under several parents: ${outsideParents.map(parent => `"${this.ids.get(parent)}"`).join(', ')}`,
+      path: this.getPath(node)
+    }]
+  }
+
+  /**
+   * Templates that use fields that are not in the schema of
+   * the data would render them as empty text. Nodes are checked
+   * against their input contract, or else the schema of the
+   * tree if there is one and they are not in a child tree.
+   *
+   * @param node Node to check
+   */
+  checkTemplate (node: AnalyzedNode<DataType, MessageType>): Array<TreeDiagnostic> {
+    const { template } = node.prompt
+    const schema = (node.contract && node.contract.input) || (this.nested.has(node) ? undefined : this.options.schema)
+    if (!template || !schema) {
+      return []
+    }
+    const unknown = template.findUnknownFields(schema)
+    if (unknown.length === 0) {
+      return []
+    }
+    return [{
+      severity: 'error',
+      code: 'unknown-template-field',
+      message: `Template uses unknown fields: ${unknown.map(field => `"${field}"`).join(', ')}`,
+      path: this.getPath(node)
+    }]
+  }
+
+  /**
+   * Cycles where no node has a child outside of the cycle
+   * can never end
+   */
+  checkCycles (): Array<TreeDiagnostic> {
+    const diagnostics: Array<TreeDiagnostic> = []
+    const checked: Set<Set<AnalyzedNode<DataType, MessageType>>> = new Set()
+    for (const node of this.paths.keys()) {
+      const component = this.components.get(node) as Set<AnalyzedNode<DataType, MessageType>>
+      if (checked.has(component) || !this.isCycle(component)) {
+        continue
+      }
+      checked.add(component)
+      const members = [...component]
+      // The run also ends at members with no children, or whose children all have conditions that may not match
+      const canLeave = members.some(member => member.children.length === 0 ||
+        member.children.every(child => !!child.condition) ||
+        member.children.some(child => !component.has(child)))
+      if (!canLeave) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'inescapable-cycle',
+          message: `Cycle through ${members.map(member => `"${this.ids.get(member)}"`).join(', ')} has no node that can leave it`,
+          path: this.getPath(node)
+        })
+      }
+    }
+    return diagnostics
+  }
+
+  getDiagnostics (): Array<TreeDiagnostic> {
+    const diagnostics: Array<TreeDiagnostic> = []
+    for (const node of this.paths.keys()) {
+      diagnostics.push(
+        ...this.checkChildren(node),
+        ...this.checkPassthrough(node),
+        ...this.checkSharedNode(node),
+        ...this.checkTemplate(node)
+      )
+    }
+    diagnostics.push(...this.checkCycles())
+    return diagnostics
+  }
+}
@@ -0,0 +1,258 @@
+import { Prompt } from './Prompt'
+import { PromptNode } from './PromptNode'
+import { PromptRunner } from './PromptRunner'
+import { SubFlowNode } from './SubFlowNode'
+import { MessageInterface } from './interfaces/Message'
+
+export interface TreeExportOptions<DataType, MessageType extends MessageInterface> {
+  /**
+   * Nodes of a finished run in the order they ran, such as
+   * runner.history.map(entry => entry.node)
+   */
+  highlight?: Array<PromptNode<DataType, MessageType>>;
+}
+
+/**
+ * Edges go to a child, to the fallback node of a retry policy,
+ * or to the root of the child tree of a sub-flow or loop
+ */
+export type TreeExportEdgeType = 'child'|'fallback'|'subFlow'
+
+export interface TreeExportEdge<DataType, MessageType extends MessageInterface> {
+  from: PromptNode<DataType, MessageType>;
+  to: PromptNode<DataType, MessageType>;
+  type: TreeExportEdgeType;
+  /**
+   * Position of the child within its parent's children, or 0
+   * for edges that are not to a child
+   */
+  index: number;
+}
+
+export interface TreeExportGraph<DataType, MessageType extends MessageInterface> {
+  nodes: Array<PromptNode<DataType, MessageType>>;
+  edges: Array<TreeExportEdge<DataType, MessageType>>;
+  ids: Map<PromptNode<DataType, MessageType>, string>;
+  /**
+   * Prompts that are used by more than one node
+   */
+  sharedPrompts: Set<Prompt<DataType, MessageType>>;
+}
+
+export class TreeExporter {
+  /**
+   * Collect every node and edge of the tree, including fallback
+   * nodes and the child trees of sub-flows and loops. Each node
+   * is only visited once so that cycles terminate.
+   *
+   * @param rootNode Root prompt node
+   */
+  static getGraph<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>): TreeExportGraph<DataType, MessageType> {
+    const nodes: Array<PromptNode<DataType, MessageType>> = []
+    const edges: Array<TreeExportEdge<DataType, MessageType>> = []
+    const seen: Set<PromptNode<DataType, MessageType>> = new Set()
+    const visit = (node: PromptNode<DataType, MessageType>): void => {
+      if (seen.has(node)) {
+        return
+      }
+      seen.add(node)
+      nodes.push(node)
+      node.children.forEach((child, index) => {
+        edges.push({
+          from: node,
+          to: child,
+          type: 'child',
+          index
+        })
+        visit(child)
+      })
+      const fallback = node.getFallback()
+      if (fallback) {
+        edges.push({
+          from: node,
+          to: fallback,
+          type: 'fallback',
+          index: 0
+        })
+        visit(fallback)
+      }
+      if (node instanceof SubFlowNode) {
+        edges.push({
+          from: node,
+          to: node.rootNode,
+          type: 'subFlow',
+          index: 0
+        })
+        visit(node.rootNode)
+      }
+    }
+    visit(rootNode)
+    const promptCounts: Map<Prompt<DataType, MessageType>, number> = new Map()
+    for (const node of nodes) {
+      promptCounts.set(node.prompt, (promptCounts.get(node.prompt) || 0) + 1)
+    }
+    const sharedPrompts: Set<Prompt<DataType, MessageType>> = new Set()
+    for (const [prompt, count] of promptCounts) {
+      if (count > 1) {
+        sharedPrompts.add(prompt)
+      }
+    }
+    return {
+      nodes,
+      edges,
+      ids: PromptRunner.getNestedNodeIDs(rootNode),
+      sharedPrompts
+    }
+  }
+
+  /**
+   * Returns the label of a node, which is its ID followed by
+   * the text of its visual or template if the visual is not
+   * generated by a function
+   *
+   * @param node Prompt node
+   * @param id ID of the node
+   */
+  static getNodeLabel<DataType, MessageType extends MessageInterface> (node: PromptNode<DataType, MessageType>, id: string): string {
+    const { template } = node.prompt
+    if (template) {
+      return `${id}\n${template.source}`
+    }
+    const visual = node.prompt.visualGenerator
+    if (typeof visual === 'function') {
+      return id
+    }
+    return `${id}\n${visual.text}`
+  }
+
+  /**
+   * Returns the label of an edge, which is the child's
+   * position and the name of its condition, or the type of
+   * edges that are not to a child
+   *
+   * @param edge Edge of the tree
+   */
+  static getEdgeLabel<DataType, MessageType extends MessageInterface> (edge: TreeExportEdge<DataType, MessageType>): string {
+    if (edge.type === 'fallback') {
+      return 'fallback'
+    }
+    if (edge.type === 'subFlow') {
+      return 'sub-flow'
+    }
+    const { condition } = edge.to
+    const position = String(edge.index + 1)
+    if (!condition) {
+      return position
+    }
+    return `${position}. ${condition.name || 'condition'}`
+  }
+
+  /**
+   * Returns the edges that a run went through
+   *
+   * @param graph Graph of the tree
+   * @param path Nodes of the run in the order they ran
+   */
+  static getHighlightedEdges<DataType, MessageType extends MessageInterface> (graph: TreeExportGraph<DataType, MessageType>, path: Array<PromptNode<DataType, MessageType>>): Set<TreeExportEdge<DataType, MessageType>> {
+    const highlighted: Set<TreeExportEdge<DataType, MessageType>> = new Set()
+    for (let i = 1; i < path.length; ++i) {
+      const edge = graph.edges.find(e => e.from === path[i - 1] && e.to === path[i])
+      if (edge) {
+        highlighted.add(edge)
+      }
+    }
+    return highlighted
+  }
+
+  static escapeDOT (text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+  }
+
+  static escapeMermaid (text: string): string {
+    return text
+      .replace(/"/g, '#quot;')
+      .replace(/\n/g, '<br>')
+  }
+
+  /**
+   * Export the tree as a Graphviz DOT digraph
+   *
+   * @param rootNode Root prompt node
+   * @param options Export options
+   */
+  static toDOT<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>, options: TreeExportOptions<DataType, MessageType> = {}): string {
+    const graph = this.getGraph(rootNode)
+    const path = options.highlight || []
+    const highlightedEdges = this.getHighlightedEdges(graph, path)
+    const lines = ['digraph {']
+    for (const node of graph.nodes) {
+      const id = graph.ids.get(node) as string
+      const attributes = [`label="${this.escapeDOT(this.getNodeLabel(node, id))}"`]
+      if (graph.sharedPrompts.has(node.prompt)) {
+        attributes.push('style=dashed')
+      }
+      if (path.indexOf(node) !== -1) {
+        attributes.push('color=red', 'penwidth=2')
+      }
+      lines.push(`  "${this.escapeDOT(id)}" [${attributes.join(', ')}];`)
+    }
+    for (const edge of graph.edges) {
+      const from = this.escapeDOT(graph.ids.get(edge.from) as string)
+      const to = this.escapeDOT(graph.ids.get(edge.to) as string)
+      const attributes = [`label="${this.escapeDOT(this.getEdgeLabel(edge))}"`]
+      if (edge.type !== 'child') {
+        attributes.push('style=dotted')
+      }
+      if (highlightedEdges.has(edge)) {
+        attributes.push('color=red', 'penwidth=2')
+      }
+      lines.push(`  "${from}" -> "${to}" [${attributes.join(', ')}];`)
+    }
+    lines.push('}')
+    return lines.join('\n')
+  }
+
+  /**
+   * Export the tree as a Mermaid flowchart
+   *
+   * @param rootNode Root prompt node
+   * @param options Export options
+   */
+  static toMermaid<DataType, MessageType extends MessageInterface> (rootNode: PromptNode<DataType, MessageType>, options: TreeExportOptions<DataType, MessageType> = {}): string {
+    const graph = this.getGraph(rootNode)
+    const path = options.highlight || []
+    const highlightedEdges = this.getHighlightedEdges(graph, path)
+    // Mermaid IDs cannot contain most symbols, so the labels hold the real IDs
+    const mermaidIDs: Map<PromptNode<DataType, MessageType>, string> = new Map()
+    graph.nodes.forEach((node, index) => mermaidIDs.set(node, `n${index}`))
+    const lines = ['flowchart TD']
+    for (const node of graph.nodes) {
+      const label = this.getNodeLabel(node, graph.ids.get(node) as string)
+      lines.push(`  ${mermaidIDs.get(node)}["${this.escapeMermaid(label)}"]`)
+    }
+    graph.edges.forEach(edge => {
+      const label = this.escapeMermaid(this.getEdgeLabel(edge))
+      const arrow = edge.type === 'child' ? '-->' : '-.->'
+      lines.push(`  ${mermaidIDs.get(edge.from)} ${arrow}|"${label}"| ${mermaidIDs.get(edge.to)}`)
+    })
+    const shared = graph.nodes.filter(node => graph.sharedPrompts.has(node.prompt))
+    if (shared.length > 0) {
+      lines.push('  classDef shared stroke-dasharray: 5 5')
+      lines.push(`  class ${shared.map(node => mermaidIDs.get(node)).join(',')} shared`)
+    }
+    const highlightedNodes = graph.nodes.filter(node => path.indexOf(node) !== -1)
+    if (highlightedNodes.length > 0) {
+      lines.push('  classDef highlighted stroke:red,stroke-width:2px')
+      lines.push(`  class ${highlightedNodes.map(node => mermaidIDs.get(node)).join(',')} highlighted`)
+    }
+    graph.edges.forEach((edge, index) => {
+      if (highlightedEdges.has(edge)) {
+        lines.push(`  linkStyle ${index} stroke:red,stroke-width:2px`)
+      }
+    })
+    return lines.join('\n')
+  }
+}
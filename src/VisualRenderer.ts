@@ -0,0 +1,133 @@
+import { VisualInterface, VisualField, VisualButton, VisualAttachment } from './interfaces/Visual'
+import { ChannelCapabilities } from './interfaces/Channel'
+import { MessageInterface } from './interfaces/Message'
+import { Parsers, Parser, ParserOptions } from './Parsers'
+
+type RichPart = keyof ChannelCapabilities
+
+const RICH_PARTS: Array<RichPart> = ['title', 'fields', 'buttons', 'attachments']
+
+export class VisualRenderer {
+  /**
+   * Returns fields as lines such as Name: George
+   *
+   * @param fields Fields of a visual
+   */
+  static getFieldsText (fields: Array<VisualField>): string {
+    return fields.map(field => `${field.name}: ${field.value}`).join('\n')
+  }
+
+  /**
+   * Returns buttons as numbered lines, whose numbers are
+   * accepted by choice parsers
+   *
+   * @param buttons Buttons of a visual
+   */
+  static getButtonsText (buttons: Array<VisualButton>): string {
+    return buttons.map((button, index) => `${index + 1}. ${button.label}`).join('\n')
+  }
+
+  /**
+   * Returns attachments as lines with their URLs
+   *
+   * @param attachments Attachments of a visual
+   */
+  static getAttachmentsText (attachments: Array<VisualAttachment>): string {
+    return attachments.map(attachment => attachment.name ? `${attachment.name}: ${attachment.url}` : attachment.url).join('\n')
+  }
+
+  /**
+   * Returns the visual for a channel. The parts the channel
+   * cannot show are removed and written into the text, with the
+   * title above it and the fields, buttons and attachments
+   * below it. Visuals the channel can show fully are returned
+   * as they are.
+   *
+   * @param visual Visual to render
+   * @param capabilities Parts of visuals the channel can show
+   */
+  static render<VisualType extends VisualInterface> (visual: VisualType, capabilities: ChannelCapabilities = {}): VisualType {
+    const degraded = RICH_PARTS.filter(part => visual[part] !== undefined && !capabilities[part])
+    if (degraded.length === 0) {
+      return visual
+    }
+    const rendered: VisualType = {
+      ...visual
+    }
+    const isDegraded = (part: RichPart): boolean => degraded.indexOf(part) !== -1
+    const sections: Array<string> = []
+    if (isDegraded('title') && visual.title) {
+      sections.push(visual.title)
+    }
+    sections.push(visual.text)
+    if (isDegraded('fields') && visual.fields) {
+      sections.push(this.getFieldsText(visual.fields))
+    }
+    if (isDegraded('buttons') && visual.buttons) {
+      sections.push(this.getButtonsText(visual.buttons))
+    }
+    if (isDegraded('attachments') && visual.attachments) {
+      sections.push(this.getAttachmentsText(visual.attachments))
+    }
+    for (const part of degraded) {
+      delete rendered[part]
+    }
+    rendered.text = sections.filter(section => section.length > 0).join('\n\n')
+    return rendered
+  }
+
+  /**
+   * Returns the buttons of one or more visuals
+   *
+   * @param visual Visual or visuals sent by a prompt
+   */
+  static getButtons (visual: VisualInterface|Array<VisualInterface>): Array<VisualButton> {
+    const visuals = Array.isArray(visual) ? visual : [visual]
+    const buttons: Array<VisualButton> = []
+    for (const v of visuals) {
+      buttons.push(...(v.buttons || []))
+    }
+    return buttons
+  }
+
+  /**
+   * Create the message of a click on a button from a message of
+   * the platform, whose content becomes the button's value
+   *
+   * @param message Message of the platform for the click
+   * @param button Button that was clicked
+   */
+  static createClick<MessageType extends MessageInterface> (message: MessageType, button: VisualButton): MessageType {
+    return {
+      ...message,
+      content: button.value,
+      choice: button.value
+    }
+  }
+
+  /**
+   * Create a parser that returns the value of a button. Clicks
+   * arrive with the value, and typed answers may be the value,
+   * the label or the number of the button in the text, ignoring
+   * case.
+   *
+   * @param buttons Buttons to choose from
+   * @param options Parser options
+   */
+  static createChoiceParser (buttons: Array<VisualButton>, options: ParserOptions = {}): Parser<string> {
+    return (content: string): string => {
+      const input = content.trim().toLowerCase()
+      const number = Number(input)
+      if (/^\d+$/.test(input) && number >= 1 && number <= buttons.length && !buttons.some(button => button.value.toLowerCase() === input)) {
+        return buttons[number - 1].value
+      }
+      const button = buttons.find(b => b.value.toLowerCase() === input) || buttons.find(b => b.label.toLowerCase() === input)
+      if (!button) {
+        throw Parsers.createRejection(options, 'visuals.choice', {
+          choices: buttons.map(b => b.label)
+        })
+      }
+      return button.value
+    }
+  }
+}
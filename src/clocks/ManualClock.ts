@@ -0,0 +1,73 @@
+import { ClockInterface, ClockTimer } from "../interfaces/Clock";
+
+type ManualTimer = {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+/**
+ * Clock whose time only moves when it is advanced, for
+ * testing time limits without waiting
+ */
+export class ManualClock implements ClockInterface {
+  time = 0
+  readonly timers: Map<number, ManualTimer> = new Map()
+  nextID = 1
+
+  setTimeout (callback: () => void, ms: number): ClockTimer {
+    const id = this.nextID++
+    this.timers.set(id, {
+      id,
+      time: this.time + ms,
+      callback
+    })
+    return id
+  }
+
+  clearTimeout (timer: ClockTimer): void {
+    this.timers.delete(timer as number)
+  }
+
+  now (): number {
+    return this.time
+  }
+
+  /**
+   * Move the time forward, running every timer that is due in
+   * the order they are due. Timers set by other timers run too
+   * if they are due within the same advance.
+   *
+   * @param ms Milliseconds to move forward
+   * @returns The number of timers that ran
+   */
+  advance (ms: number): number {
+    const end = this.time + ms
+    let ran = 0
+    let next = this.getNextTimer(end)
+    while (next) {
+      this.timers.delete(next.id)
+      this.time = next.time
+      next.callback()
+      ran++
+      next = this.getNextTimer(end)
+    }
+    this.time = end
+    return ran
+  }
+
+  /**
+   * Returns the earliest timer that is due by a time
+   *
+   * @param end Time the timer must be due by
+   */
+  getNextTimer (end: number): ManualTimer|undefined {
+    let next: ManualTimer|undefined
+    for (const timer of this.timers.values()) {
+      if (timer.time <= end && (!next || timer.time < next.time)) {
+        next = timer
+      }
+    }
+    return next
+  }
+}
@@ -0,0 +1,18 @@
+import { ClockInterface, ClockTimer } from "../interfaces/Clock";
+
+/**
+ * Clock that uses the real timers
+ */
+export class SystemClock implements ClockInterface {
+  setTimeout (callback: () => void, ms: number): ClockTimer {
+    return setTimeout(callback, ms)
+  }
+
+  clearTimeout (timer: ClockTimer): void {
+    clearTimeout(timer as NodeJS.Timeout)
+  }
+
+  now (): number {
+    return Date.now()
+  }
+}
@@ -0,0 +1,31 @@
+import { SchemaIssue, Schemas } from '../Schema'
+
+export type DataContractStage = 'input'|'output'
+
+export class DataContractError extends Error {
+  /**
+   * ID of the node whose contract was broken, if it has one
+   */
+  readonly nodeID?: string
+  /**
+   * Whether the data the node started with or finished with
+   * was invalid
+   */
+  readonly stage: DataContractStage
+  readonly issues: Array<SchemaIssue>
+
+  constructor (nodeID: string|undefined, stage: DataContractStage, issues: Array<SchemaIssue>) {
+    const node = nodeID === undefined ? 'a node' : `node "${nodeID}"`
+    super(`Invalid ${stage} data of ${node}:\n${issues.map(issue => `${Schemas.formatPath(issue.path)}: ${issue.message}`).join('\n')}`)
+    this.nodeID = nodeID
+    this.stage = stage
+    this.issues = issues
+  }
+
+  /**
+   * Path of the first invalid field, such as data.items[0].name
+   */
+  get path (): string {
+    return Schemas.formatPath(this.issues[0].path)
+  }
+}
@@ -0,0 +1,23 @@
+export class DataMutationError extends Error {
+  /**
+   * ID of the node whose function or conditions mutated the
+   * data, if it has one
+   */
+  readonly nodeID?: string
+  /**
+   * The error thrown by the mutation
+   */
+  readonly cause: Error
+
+  /**
+   * @param nodeID ID of the node
+   * @param cause The error thrown by the mutation
+   * @param subject What mutated the data, followed by the node ID in the message
+   */
+  constructor (nodeID: string|undefined, cause: Error, subject = 'Node') {
+    const node = nodeID === undefined ? `${subject} without an ID` : `${subject} "${nodeID}"`
+    super(`${node} mutated the data instead of returning new data: ${cause.message}`)
+    this.nodeID = nodeID
+    this.cause = cause
+  }
+}
@@ -0,0 +1,11 @@
+export class FlowAbortedError extends Error {
+  /**
+   * The reason of the abort signal
+   */
+  readonly reason: unknown
+
+  constructor (reason?: unknown, message = 'The flow was aborted') {
+    super(message)
+    this.reason = reason
+  }
+}
@@ -0,0 +1,36 @@
+import { Rejection } from './Rejection'
+
+export interface FormFieldFailure {
+  /**
+   * Label of the field
+   */
+  label: string;
+  /**
+   * Why the value of the field was rejected
+   */
+  message: string;
+}
+
+export class FormRejection extends Rejection {
+  /**
+   * Fields whose values were rejected
+   */
+  readonly failures: Array<FormFieldFailure>
+
+  /**
+   * @param failures Fields whose values were rejected
+   * @param next Line that asks for the field to answer next
+   */
+  constructor (failures: Array<FormFieldFailure>, next?: string) {
+    const lines = failures.map(failure => `${failure.label}: ${failure.message}`)
+    super([...lines, ...(next ? [next] : [])].join('\n'))
+    this.failures = failures
+  }
+
+  /**
+   * Labels of the fields whose values were rejected
+   */
+  get fields (): Array<string> {
+    return this.failures.map(failure => failure.label)
+  }
+}
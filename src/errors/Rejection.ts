@@ -1,7 +1,27 @@
+import { MessageParams } from '../Localizer'
+
+export interface RejectionLocalization {
+  /**
+   * ID of the message in the catalogs of a Localizer
+   */
+  id: string;
+  params?: MessageParams;
+}
+
 export class Rejection extends Error {
-  constructor(...params: string[]) {
-    // Pass remaining arguments (including vendor specific ones) to parent constructor
-    super(...params)
+  /**
+   * ID of the message, so that runners with a Localizer can
+   * replace the message with the one of the current locale
+   */
+  readonly id?: string
+  readonly params?: MessageParams
+
+  constructor(message?: string, localization?: RejectionLocalization) {
+    super(message)
+    if (localization) {
+      this.id = localization.id
+      this.params = localization.params
+    }
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
@@ -0,0 +1,10 @@
+export class SessionConflictError extends Error {
+  readonly userID: string
+  readonly channelID: string
+
+  constructor (userID: string, channelID: string, message = 'A session is already active for this user in this channel') {
+    super(message)
+    this.userID = userID
+    this.channelID = channelID
+  }
+}
@@ -0,0 +1,12 @@
+export class TemplateSyntaxError extends Error {
+  readonly source: string
+
+  /**
+   * @param source Source of the template
+   * @param reason What is wrong with it
+   */
+  constructor (source: string, reason: string) {
+    super(`Invalid template "${source}": ${reason}`)
+    this.source = source
+  }
+}
@@ -0,0 +1,16 @@
+export interface TreeDefinitionIssue {
+  /**
+   * JSON path of the invalid value, such as $.nodes.askAge.children[0]
+   */
+  path: string;
+  message: string;
+}
+
+export class TreeDefinitionError extends Error {
+  readonly issues: Array<TreeDefinitionIssue>
+
+  constructor (issues: Array<TreeDefinitionIssue>) {
+    super(`Invalid tree definition:\n${issues.map(issue => `${issue.path}: ${issue.message}`).join('\n')}`)
+    this.issues = issues
+  }
+}
@@ -0,0 +1,7 @@
+import { UserError } from "./UserError";
+
+export class UserBackError extends UserError {
+  constructor (message = 'User navigated back to the previous prompt') {
+    super(message)
+  }
+}
@@ -0,0 +1,7 @@
+import { UserError } from "./UserError";
+
+export class UserLoopStopError extends UserError {
+  constructor (message = 'User stopped the loop') {
+    super(message)
+  }
+}
@@ -0,0 +1,16 @@
+import { UserError } from "./UserError";
+import { Rejection } from "../Rejection";
+
+export class UserRejectionLimitError extends UserError {
+  readonly attempts: number
+  /**
+   * The rejection of the last attempt
+   */
+  readonly rejection: Rejection
+
+  constructor (attempts: number, rejection: Rejection, message = 'User reached the limit of rejected attempts') {
+    super(message)
+    this.attempts = attempts
+    this.rejection = rejection
+  }
+}
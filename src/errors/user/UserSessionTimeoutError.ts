@@ -0,0 +1,7 @@
+import { UserError } from "./UserError";
+
+export class UserSessionTimeoutError extends UserError {
+  constructor(message = 'User did not finish before the session deadline') {
+    super(message)
+  }
+}
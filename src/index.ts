@@ -1,17 +1,60 @@
 import { UserInactivityError } from './errors/user/UserInactivityError'
 import { UserVoluntaryExitError } from './errors/user/UserVoluntaryExitError'
 import { UserError } from './errors/user/UserError'
+import { UserBackError } from './errors/user/UserBackError'
+import { UserRejectionLimitError } from './errors/user/UserRejectionLimitError'
+import { UserSessionTimeoutError } from './errors/user/UserSessionTimeoutError'
+import { UserLoopStopError } from './errors/user/UserLoopStopError'
 
 export * from './Prompt'
 export * from './PromptNode'
 export * from './PromptRunner'
+export * from './MenuPrompt'
+export * from './PaginatedPrompt'
+export * from './FormPrompt'
+export * from './TreeExporter'
+export * from './TreeAnalyzer'
+export * from './Parsers'
+export * from './FlowTester'
+export * from './Transcript'
+export * from './FlowAbortController'
+export * from './SessionManager'
+export * from './SubFlowNode'
+export * from './LoopNode'
+export * from './Schema'
+export * from './DevTools'
+export * from './Localizer'
+export * from './Template'
+export * from './VisualRenderer'
 export * from './interfaces/Channel'
 export * from './interfaces/Message'
 export * from './interfaces/Visual'
+export * from './interfaces/SessionStore'
+export * from './interfaces/Clock'
+export * from './interfaces/Plugin'
+export * from './interfaces/AbortSignal'
+export * from './stores/MemorySessionStore'
+export * from './stores/JSONFileSessionStore'
+export * from './clocks/SystemClock'
+export * from './clocks/ManualClock'
 export * from './errors/Rejection'
+export * from './errors/FormRejection'
+export * from './errors/TreeDefinitionError'
+export * from './errors/TemplateSyntaxError'
+export * from './errors/FlowAbortedError'
+export * from './errors/SessionConflictError'
+export * from './errors/DataContractError'
+export * from './errors/DataMutationError'
+export * from './loader/TreeLoader'
+export * from './loader/Predicate'
+export * from './loader/YAML'
 
 export const Errors = {
   UserInactivityError,
   UserVoluntaryExitError,
+  UserBackError,
+  UserRejectionLimitError,
+  UserSessionTimeoutError,
+  UserLoopStopError,
   UserError
 }
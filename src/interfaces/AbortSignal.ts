@@ -0,0 +1,13 @@
+/**
+ * Signal that a flow should stop, such as the signal of an
+ * AbortController or a FlowAbortController
+ */
+export interface AbortSignalInterface {
+  readonly aborted: boolean;
+  /**
+   * Why the signal was aborted
+   */
+  readonly reason?: unknown;
+  addEventListener: (type: 'abort', listener: () => void) => void;
+  removeEventListener: (type: 'abort', listener: () => void) => void;
+}
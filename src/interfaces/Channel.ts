@@ -1,6 +1,25 @@
 import { VisualInterface } from "./Visual";
 import { MessageInterface } from "./Message";
 
+/**
+ * Parts of visuals a channel can show. Parts it cannot show
+ * are written into the text of the visual instead. Buttons
+ * then arrive as typed numbers or labels rather than their
+ * values, which prompts with buttons turn back into the values
+ * with VisualRenderer.createChoiceParser.
+ */
+export interface ChannelCapabilities {
+  title?: boolean;
+  fields?: boolean;
+  buttons?: boolean;
+  attachments?: boolean;
+}
+
 export interface ChannelInterface<MessageType extends MessageInterface> {
   send: (format: VisualInterface) => Promise<MessageType|MessageType[]>;
+  /**
+   * Parts of visuals this channel can show. Channels without
+   * capabilities receive visuals with only text.
+   */
+  capabilities?: ChannelCapabilities;
 }
@@ -0,0 +1,10 @@
+export type ClockTimer = unknown
+
+export interface ClockInterface {
+  setTimeout: (callback: () => void, ms: number) => ClockTimer;
+  clearTimeout: (timer: ClockTimer) => void;
+  /**
+   * Current time in milliseconds
+   */
+  now: () => number;
+}
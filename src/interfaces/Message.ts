@@ -1,3 +1,17 @@
+export interface MessageAuthorInterface {
+  id: string;
+}
+
 export interface MessageInterface {
   content: string;
+  /**
+   * Who sent the message, for channels shared by several users
+   */
+  author?: MessageAuthorInterface;
+  /**
+   * Value of the button that was clicked, if this message is
+   * a click. The content is the value as well, so that prompt
+   * functions handle clicked and typed answers the same way.
+   */
+  choice?: string;
 }
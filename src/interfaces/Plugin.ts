@@ -0,0 +1,71 @@
+import { PromptNode } from '../PromptNode'
+import { ChannelInterface } from './Channel'
+import { MessageInterface } from './Message'
+import { Rejection } from '../errors/Rejection'
+
+export interface PluginContext<DataType, MessageType extends MessageInterface> {
+  /**
+   * Node that is running
+   */
+  node: PromptNode<DataType, MessageType>;
+  data: DataType;
+  channel: ChannelInterface<MessageType>;
+}
+
+export interface PluginHookResult<DataType> {
+  /**
+   * Data to continue with instead of the data the hook received
+   */
+  data?: DataType;
+  /**
+   * Short-circuit the rest of the step. Hooks of later plugins
+   * are not called.
+   */
+  skip?: boolean;
+}
+
+/**
+ * Hooks into every run of a PromptRunner. All hooks are
+ * optional, and the hooks of every plugin are called in the
+ * order the plugins were registered. If a hook throws, the
+ * run rejects with its error.
+ */
+export interface PluginInterface<DataType, MessageType extends MessageInterface> {
+  /**
+   * Called before the visual of a node is sent. Changed data
+   * is what the node starts with, and skipping moves on to
+   * the next node without running this one.
+   */
+  beforeNode?: (context: PluginContext<DataType, MessageType>) => Promise<PluginHookResult<DataType>|void>;
+  /**
+   * Called after the visual of a node is sent
+   */
+  afterVisualSent?: (context: PluginContext<DataType, MessageType>) => Promise<void>;
+  /**
+   * Called before a message is passed to the prompt function.
+   * Changed data is what the function receives, and skipping
+   * ignores the message.
+   */
+  beforeFunction?: (context: PluginContext<DataType, MessageType>, message: MessageType) => Promise<PluginHookResult<DataType>|void>;
+  /**
+   * Called with the data a node was accepted with. Changed
+   * data is passed to the next node, and skipping ends the
+   * run with the data.
+   */
+  afterAccept?: (context: PluginContext<DataType, MessageType>) => Promise<PluginHookResult<DataType>|void>;
+  /**
+   * Called when a message is rejected, before the prompt's
+   * onReject. It is not called for the rejection that reaches
+   * a retry limit.
+   */
+  onReject?: (context: PluginContext<DataType, MessageType>, message: MessageType, rejection: Rejection, attempt: number) => Promise<void>;
+  /**
+   * Called with the error that a run is about to reject with
+   */
+  onError?: (context: PluginContext<DataType, MessageType>, error: Error) => Promise<void>;
+  /**
+   * Called with the node that ran last and the data that the
+   * run resolves with
+   */
+  onComplete?: (context: PluginContext<DataType, MessageType>) => Promise<void>;
+}
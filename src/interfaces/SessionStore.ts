@@ -0,0 +1,16 @@
+export interface SessionSnapshot<DataType> {
+  /**
+   * ID of the node to resume at
+   */
+  nodeID: string;
+  /**
+   * The data the node starts with
+   */
+  data: DataType;
+}
+
+export interface SessionStore<DataType> {
+  get: (key: string) => Promise<SessionSnapshot<DataType>|undefined>;
+  set: (key: string, snapshot: SessionSnapshot<DataType>) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
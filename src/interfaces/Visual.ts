@@ -1,3 +1,47 @@
+export interface VisualField {
+  name: string;
+  value: string;
+}
+
+/**
+ * A choice the user can click. Where the channel cannot show
+ * buttons, they are written into the text as numbered lines,
+ * and the user types the number or label instead. Prompt
+ * functions receive the value for both.
+ */
+export interface VisualButton {
+  label: string;
+  /**
+   * Content of the message a click on the button arrives as
+   */
+  value: string;
+}
+
+export interface VisualAttachment {
+  url: string;
+  /**
+   * File name, shown instead of the URL where possible
+   */
+  name?: string;
+  /**
+   * MIME type, such as image/png
+   */
+  type?: string;
+}
+
 export interface VisualInterface {
   text: string;
+  /**
+   * Heading above the text
+   */
+  title?: string;
+  /**
+   * Labelled values below the text
+   */
+  fields?: Array<VisualField>;
+  /**
+   * Choices the user can click instead of typing
+   */
+  buttons?: Array<VisualButton>;
+  attachments?: Array<VisualAttachment>;
 }
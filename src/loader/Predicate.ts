@@ -0,0 +1,147 @@
+import { PromptNodeCondition } from "../PromptNode";
+import { TreeDefinitionIssue } from "../errors/TreeDefinitionError";
+
+export type Primitive = string|number|boolean|null
+
+export type FieldPredicateDefinition = {
+  field: string;
+  equals?: Primitive;
+  greaterThan?: number;
+  lessThan?: number;
+  exists?: boolean;
+}
+
+export type PredicateDefinition = FieldPredicateDefinition
+  | { and: Array<PredicateDefinition> }
+  | { or: Array<PredicateDefinition> }
+  | { not: PredicateDefinition }
+
+const FIELD_OPERATORS = ['equals', 'greaterThan', 'lessThan', 'exists']
+
+export class Predicate {
+  /**
+   * Get the value at a dot-separated path of an object
+   * 
+   * @param data Object to get the value from
+   * @param path Path such as "address.city"
+   */
+  static getField (data: unknown, path: string): unknown {
+    let value = data
+    for (const key of path.split('.')) {
+      if (value === null || typeof value !== 'object') {
+        return undefined
+      }
+      value = (value as Record<string, unknown>)[key]
+    }
+    return value
+  }
+
+  /**
+   * Returns all issues with a predicate definition
+   * 
+   * @param definition Predicate definition
+   * @param path JSON path of the definition
+   */
+  static validate (definition: unknown, path: string): Array<TreeDefinitionIssue> {
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+      return [{
+        path,
+        message: 'Predicate must be an object'
+      }]
+    }
+    const record = definition as Record<string, unknown>
+    const keys = Object.keys(record)
+    if (keys.length === 1 && (keys[0] === 'and' || keys[0] === 'or')) {
+      const operands = record[keys[0]]
+      if (!Array.isArray(operands) || operands.length === 0) {
+        return [{
+          path: `${path}.${keys[0]}`,
+          message: 'Must be a non-empty array of predicates'
+        }]
+      }
+      const issues: Array<TreeDefinitionIssue> = []
+      operands.forEach((operand, index) => {
+        issues.push(...this.validate(operand, `${path}.${keys[0]}[${index}]`))
+      })
+      return issues
+    }
+    if (keys.length === 1 && keys[0] === 'not') {
+      return this.validate(record.not, `${path}.not`)
+    }
+    if (typeof record.field !== 'string' || !record.field) {
+      return [{
+        path,
+        message: 'Predicate must have "and", "or", "not", or a "field" with one operator'
+      }]
+    }
+    const operators = keys.filter(key => key !== 'field')
+    if (operators.length !== 1 || FIELD_OPERATORS.indexOf(operators[0]) === -1) {
+      return [{
+        path,
+        message: `Field predicate must have exactly one of ${FIELD_OPERATORS.join(', ')}`
+      }]
+    }
+    const operator = operators[0]
+    const operand = record[operator]
+    if ((operator === 'greaterThan' || operator === 'lessThan') && typeof operand !== 'number') {
+      return [{
+        path: `${path}.${operator}`,
+        message: 'Must be a number'
+      }]
+    }
+    if (operator === 'exists' && typeof operand !== 'boolean') {
+      return [{
+        path: `${path}.${operator}`,
+        message: 'Must be a boolean'
+      }]
+    }
+    if (operator === 'equals' && operand !== null && typeof operand === 'object') {
+      return [{
+        path: `${path}.${operator}`,
+        message: 'Must be a string, number, boolean or null'
+      }]
+    }
+    return []
+  }
+
+  /**
+   * Evaluate a validated predicate definition against data
+   * 
+   * @param definition Predicate definition
+   * @param data Data to evaluate
+   */
+  static test (definition: PredicateDefinition, data: unknown): boolean {
+    if ('and' in definition) {
+      return definition.and.every(operand => this.test(operand, data))
+    }
+    if ('or' in definition) {
+      return definition.or.some(operand => this.test(operand, data))
+    }
+    if ('not' in definition) {
+      return !this.test(definition.not, data)
+    }
+    const value = this.getField(data, definition.field)
+    if (definition.equals !== undefined) {
+      return value === definition.equals
+    }
+    if (definition.greaterThan !== undefined) {
+      return typeof value === 'number' && value > definition.greaterThan
+    }
+    if (definition.lessThan !== undefined) {
+      return typeof value === 'number' && value < definition.lessThan
+    }
+    if (definition.exists !== undefined) {
+      return (value !== undefined && value !== null) === definition.exists
+    }
+    return false
+  }
+
+  /**
+   * Create a node condition from a validated predicate definition
+   * 
+   * @param definition Predicate definition
+   */
+  static compile<DataType> (definition: PredicateDefinition): PromptNodeCondition<DataType> {
+    return async (data: DataType): Promise<boolean> => this.test(definition, data)
+  }
+}
@@ -0,0 +1,368 @@
+import { Prompt, PromptFunction, VisualGenerator } from "../Prompt";
+import { PromptNode, PromptNodeCondition } from "../PromptNode";
+import { MessageInterface } from "../interfaces/Message";
+import { VisualInterface } from "../interfaces/Visual";
+import { TreeDefinitionError, TreeDefinitionIssue } from "../errors/TreeDefinitionError";
+import { Predicate, PredicateDefinition } from "./Predicate";
+import { YAML } from "./YAML";
+import { Template } from "../Template";
+import { TemplateSyntaxError } from "../errors/TemplateSyntaxError";
+
+export type NodeDefinition = {
+  /**
+   * Text, visual or array of visuals to send
+   */
+  visual?: string|VisualInterface|Array<string|VisualInterface>;
+  /**
+   * Name of a visual generator in the registry. Used instead of visual.
+   */
+  visualGenerator?: string;
+  /**
+   * Template of the text of the visual, such as
+   * "How old are you, {{name}}?". Used instead of visual.
+   */
+  template?: string;
+  /**
+   * Name of a prompt function in the registry
+   */
+  function?: string;
+  duration?: number;
+  /**
+   * Name of a condition in the registry, or a predicate
+   */
+  condition?: string|PredicateDefinition;
+  /**
+   * IDs of the child nodes
+   */
+  children?: Array<string>;
+}
+
+export type TreeDefinition = {
+  /**
+   * ID of the root node
+   */
+  root: string;
+  nodes: {
+    [id: string]: NodeDefinition;
+  };
+}
+
+export interface TreeRegistry<DataType, MessageType extends MessageInterface> {
+  /**
+   * Create an instance of your Prompt implementation
+   */
+  createPrompt: (visual: VisualGenerator<DataType>|VisualInterface|string, f?: PromptFunction<DataType, MessageType>, duration?: number) => Prompt<DataType, MessageType>;
+  functions?: {
+    [name: string]: PromptFunction<DataType, MessageType>;
+  };
+  conditions?: {
+    [name: string]: PromptNodeCondition<DataType>;
+  };
+  visuals?: {
+    [name: string]: VisualGenerator<DataType>;
+  };
+}
+
+const NODE_KEYS = ['visual', 'visualGenerator', 'template', 'function', 'duration', 'condition', 'children']
+
+function isRecord (value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function has (record: object, key: unknown): key is string {
+  return typeof key === 'string' && Object.prototype.hasOwnProperty.call(record, key)
+}
+
+export class TreeLoader<DataType, MessageType extends MessageInterface> {
+  readonly registry: TreeRegistry<DataType, MessageType>
+
+  /**
+   * @param registry Implementations that definitions refer to by name
+   */
+  constructor (registry: TreeRegistry<DataType, MessageType>) {
+    this.registry = registry
+  }
+
+  /**
+   * Returns all issues of a visual definition
+   *
+   * @param visual Visual definition
+   * @param path JSON path of the visual
+   */
+  static validateVisual (visual: unknown, path: string): Array<TreeDefinitionIssue> {
+    if (typeof visual === 'string') {
+      return []
+    }
+    if (Array.isArray(visual)) {
+      const issues: Array<TreeDefinitionIssue> = []
+      visual.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`
+        if (Array.isArray(item)) {
+          issues.push({
+            path: itemPath,
+            message: 'Visuals in an array must be strings or objects with a text string'
+          })
+        } else {
+          issues.push(...this.validateVisual(item, itemPath))
+        }
+      })
+      return issues
+    }
+    if (!isRecord(visual) || typeof visual.text !== 'string') {
+      return [{
+        path,
+        message: 'Visual must be a string, an object with a text string, or an array of them'
+      }]
+    }
+    return []
+  }
+
+  /**
+   * Returns the issues of a template definition, such as its
+   * syntax errors
+   *
+   * @param template Template definition
+   * @param path JSON path of the template
+   */
+  static validateTemplate (template: unknown, path: string): Array<TreeDefinitionIssue> {
+    if (typeof template !== 'string') {
+      return [{
+        path,
+        message: 'Template must be a string'
+      }]
+    }
+    try {
+      new Template(template)
+    } catch (err) {
+      if (!(err instanceof TemplateSyntaxError)) {
+        throw err
+      }
+      return [{
+        path,
+        message: err.message
+      }]
+    }
+    return []
+  }
+
+  /**
+   * Returns all issues of a definition with JSON paths
+   *
+   * @param definition Tree definition
+   */
+  validate (definition: unknown): Array<TreeDefinitionIssue> {
+    if (!isRecord(definition)) {
+      return [{
+        path: '$',
+        message: 'Definition must be an object'
+      }]
+    }
+    const issues: Array<TreeDefinitionIssue> = []
+    const { nodes, root } = definition
+    if (!isRecord(nodes)) {
+      issues.push({
+        path: '$.nodes',
+        message: 'Must be an object of node definitions keyed by node ID'
+      })
+      return issues
+    }
+    if (typeof root !== 'string') {
+      issues.push({
+        path: '$.root',
+        message: 'Must be the ID of the root node'
+      })
+    } else if (!has(nodes, root)) {
+      issues.push({
+        path: '$.root',
+        message: `Unknown node "${root}"`
+      })
+    }
+    for (const id of Object.keys(nodes)) {
+      issues.push(...this.validateNode(nodes[id], `$.nodes.${id}`, nodes))
+    }
+    return issues
+  }
+
+  /**
+   * Returns all issues of a node definition
+   *
+   * @param node Node definition
+   * @param path JSON path of the node
+   * @param nodes All node definitions
+   */
+  validateNode (node: unknown, path: string, nodes: Record<string, unknown>): Array<TreeDefinitionIssue> {
+    if (!isRecord(node)) {
+      return [{
+        path,
+        message: 'Node must be an object'
+      }]
+    }
+    const issues: Array<TreeDefinitionIssue> = []
+    const { functions = {}, conditions = {}, visuals = {} } = this.registry
+    for (const key of Object.keys(node)) {
+      if (NODE_KEYS.indexOf(key) === -1) {
+        issues.push({
+          path: `${path}.${key}`,
+          message: 'Unknown property'
+        })
+      }
+    }
+    const visualKeys = ['visual', 'visualGenerator', 'template'].filter(key => node[key] !== undefined)
+    if (visualKeys.length !== 1) {
+      issues.push({
+        path,
+        message: 'Node must have exactly one of visual, visualGenerator or template'
+      })
+    }
+    if (node.visual !== undefined) {
+      issues.push(...TreeLoader.validateVisual(node.visual, `${path}.visual`))
+    }
+    if (node.visualGenerator !== undefined && !has(visuals, node.visualGenerator)) {
+      issues.push({
+        path: `${path}.visualGenerator`,
+        message: `Unknown visual generator "${node.visualGenerator}"`
+      })
+    }
+    if (node.template !== undefined) {
+      issues.push(...TreeLoader.validateTemplate(node.template, `${path}.template`))
+    }
+    if (node.function !== undefined && !has(functions, node.function)) {
+      issues.push({
+        path: `${path}.function`,
+        message: `Unknown function "${node.function}"`
+      })
+    }
+    if (node.duration !== undefined && (typeof node.duration !== 'number' || node.duration < 0)) {
+      issues.push({
+        path: `${path}.duration`,
+        message: 'Must be a non-negative number of milliseconds'
+      })
+    }
+    if (typeof node.condition === 'string') {
+      if (!has(conditions, node.condition)) {
+        issues.push({
+          path: `${path}.condition`,
+          message: `Unknown condition "${node.condition}"`
+        })
+      }
+    } else if (node.condition !== undefined) {
+      issues.push(...Predicate.validate(node.condition, `${path}.condition`))
+    }
+    if (node.children !== undefined) {
+      issues.push(...this.validateChildren(node.children, `${path}.children`, nodes))
+    }
+    return issues
+  }
+
+  /**
+   * Returns all issues of the children of a node definition
+   *
+   * @param children IDs of the child nodes
+   * @param path JSON path of the children
+   * @param nodes All node definitions
+   */
+  validateChildren (children: unknown, path: string, nodes: Record<string, unknown>): Array<TreeDefinitionIssue> {
+    if (!Array.isArray(children)) {
+      return [{
+        path,
+        message: 'Must be an array of node IDs'
+      }]
+    }
+    const issues: Array<TreeDefinitionIssue> = []
+    children.forEach((childID, index) => {
+      if (!has(nodes, childID)) {
+        issues.push({
+          path: `${path}[${index}]`,
+          message: `Unknown node "${childID}"`
+        })
+        return
+      }
+      const child = nodes[childID]
+      if (children.length > 1 && isRecord(child) && child.condition === undefined) {
+        issues.push({
+          path: `${path}[${index}]`,
+          message: `Node "${childID}" must have a condition since its parent has more than 1 child`
+        })
+      }
+    })
+    return issues
+  }
+
+  /**
+   * Create the prompt node for a validated node definition
+   *
+   * @param id Node ID
+   * @param node Node definition
+   */
+  createNode (id: string, node: NodeDefinition): PromptNode<DataType, MessageType> {
+    const { functions = {}, conditions = {}, visuals = {} } = this.registry
+    let visual: VisualGenerator<DataType>|VisualInterface|string
+    if (node.visualGenerator !== undefined) {
+      visual = visuals[node.visualGenerator]
+    } else if (node.template !== undefined) {
+      visual = node.template
+    } else if (typeof node.visual === 'string') {
+      visual = {
+        text: node.visual
+      }
+    } else if (Array.isArray(node.visual)) {
+      const visualArray = node.visual.map(item => typeof item === 'string' ? { text: item } : item)
+      visual = async (): Promise<VisualInterface[]> => visualArray
+    } else {
+      visual = node.visual as VisualInterface
+    }
+    const f = node.function !== undefined ? functions[node.function] : undefined
+    const prompt = this.registry.createPrompt(visual, f, node.duration)
+    let condition: PromptNodeCondition<DataType>|undefined
+    if (typeof node.condition === 'string') {
+      condition = conditions[node.condition]
+    } else if (node.condition !== undefined) {
+      condition = Predicate.compile(node.condition)
+    }
+    return new PromptNode(prompt, condition, id)
+  }
+
+  /**
+   * Build the tree of prompt nodes from a definition. All
+   * issues are reported at once before any node is built.
+   *
+   * @param definition Tree definition
+   * @returns The root node
+   */
+  load (definition: unknown): PromptNode<DataType, MessageType> {
+    const issues = this.validate(definition)
+    if (issues.length > 0) {
+      throw new TreeDefinitionError(issues)
+    }
+    const { root, nodes } = definition as TreeDefinition
+    const created: Map<string, PromptNode<DataType, MessageType>> = new Map()
+    for (const id of Object.keys(nodes)) {
+      created.set(id, this.createNode(id, nodes[id]))
+    }
+    for (const id of Object.keys(nodes)) {
+      const children = nodes[id].children || []
+      const node = created.get(id) as PromptNode<DataType, MessageType>
+      node.setChildren(children.map(childID => created.get(childID) as PromptNode<DataType, MessageType>))
+    }
+    return created.get(root) as PromptNode<DataType, MessageType>
+  }
+
+  /**
+   * Build the tree of prompt nodes from a JSON definition
+   *
+   * @param text JSON text
+   */
+  loadJSON (text: string): PromptNode<DataType, MessageType> {
+    return this.load(JSON.parse(text))
+  }
+
+  /**
+   * Build the tree of prompt nodes from a YAML definition.
+   * Only a subset of YAML is supported (see YAML.parse).
+   *
+   * @param text YAML text
+   */
+  loadYAML (text: string): PromptNode<DataType, MessageType> {
+    return this.load(YAML.parse(text))
+  }
+}
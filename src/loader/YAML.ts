@@ -0,0 +1,360 @@
+type YAMLLine = {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+type ParseResult = [unknown, number]
+
+/**
+ * Parser for the subset of YAML used by tree definitions.
+ * Supports block mappings, block sequences, flow collections,
+ * comments and single-line scalars. Anchors, tags, multiple
+ * documents and multi-line scalars are not supported.
+ */
+export class YAML {
+  /**
+   * Parse a YAML document
+   *
+   * @param text YAML text
+   */
+  static parse (text: string): unknown {
+    const lines = this.getLines(text)
+    if (lines.length === 0) {
+      return null
+    }
+    const [value, next] = this.parseBlock(lines, 0, lines[0].indent)
+    if (next < lines.length) {
+      throw this.createError(lines[next], 'Unexpected indentation')
+    }
+    return value
+  }
+
+  static createError (line: YAMLLine, message: string): SyntaxError {
+    return new SyntaxError(`YAML line ${line.number}: ${message}`)
+  }
+
+  /**
+   * Split the text into non-empty lines without comments
+   *
+   * @param text YAML text
+   */
+  static getLines (text: string): Array<YAMLLine> {
+    const lines: Array<YAMLLine> = []
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const line = {
+        indent: 0,
+        text: '',
+        number: index + 1
+      }
+      const indentMatch = raw.match(/^[ \t]*/) as RegExpMatchArray
+      if (indentMatch[0].indexOf('\t') !== -1) {
+        throw this.createError(line, 'Tabs are not allowed for indentation')
+      }
+      const content = this.stripComment(raw).trim()
+      if (!content || content === '---') {
+        return
+      }
+      line.indent = indentMatch[0].length
+      line.text = content
+      lines.push(line)
+    })
+    return lines
+  }
+
+  /**
+   * Remove a comment that is outside of quotes
+   *
+   * @param text Line text
+   */
+  static stripComment (text: string): string {
+    let quote: string|null = null
+    for (let i = 0; i < text.length; ++i) {
+      const char = text[i]
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          ++i
+        } else if (char === quote) {
+          quote = null
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+        return text.slice(0, i)
+      }
+    }
+    return text
+  }
+
+  static isSequenceItem (text: string): boolean {
+    return text === '-' || text.startsWith('- ')
+  }
+
+  /**
+   * Find the colon that separates a mapping key from its
+   * value, ignoring colons inside quotes and flow collections
+   *
+   * @param text Line text
+   * @returns Index of the colon, or -1 if it is not a mapping entry
+   */
+  static findKeySeparator (text: string): number {
+    if (text.startsWith('[') || text.startsWith('{')) {
+      return -1
+    }
+    let quote: string|null = null
+    for (let i = 0; i < text.length; ++i) {
+      const char = text[i]
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          ++i
+        } else if (char === quote) {
+          quote = null
+        }
+      } else if ((char === '"' || char === "'") && i === 0) {
+        quote = char
+      } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+        return i
+      }
+    }
+    return -1
+  }
+
+  static parseBlock (lines: Array<YAMLLine>, index: number, indent: number): ParseResult {
+    if (this.isSequenceItem(lines[index].text)) {
+      return this.parseSequence(lines, index, indent)
+    }
+    if (this.findKeySeparator(lines[index].text) === -1) {
+      return [this.parseScalar(lines[index].text, lines[index]), index + 1]
+    }
+    return this.parseMapping(lines, index, indent)
+  }
+
+  /**
+   * Parse the value of a sequence item or mapping entry that
+   * continues on the next lines
+   *
+   * @param lines All lines
+   * @param index Index of the next line
+   * @param parentIndent Indent of the item or entry
+   * @param allowSequence Whether a sequence at the same indent belongs to the entry
+   */
+  static parseNested (lines: Array<YAMLLine>, index: number, parentIndent: number, allowSequence: boolean): ParseResult {
+    const next = lines[index]
+    if (!next) {
+      return [null, index]
+    }
+    if (next.indent > parentIndent) {
+      return this.parseBlock(lines, index, next.indent)
+    }
+    if (allowSequence && next.indent === parentIndent && this.isSequenceItem(next.text)) {
+      return this.parseSequence(lines, index, parentIndent, true)
+    }
+    return [null, index]
+  }
+
+  /**
+   * Parse the items of a block sequence
+   *
+   * @param lines All lines
+   * @param index Index of the first item
+   * @param indent Indent of the items
+   * @param compact Whether the sequence is at the indent of its mapping entry, and ends before the next entry
+   */
+  static parseSequence (lines: Array<YAMLLine>, index: number, indent: number, compact = false): ParseResult {
+    const sequence: Array<unknown> = []
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index]
+      if (!this.isSequenceItem(line.text)) {
+        if (compact) {
+          break
+        }
+        throw this.createError(line, 'Expected a sequence item')
+      }
+      const rest = line.text.slice(1).replace(/^ +/, '')
+      if (!rest) {
+        const [value, next] = this.parseNested(lines, index + 1, indent, false)
+        sequence.push(value)
+        index = next
+      } else if (this.isSequenceItem(rest) || this.findKeySeparator(rest) !== -1) {
+        // The item is a collection that starts on the same line
+        const itemIndent = indent + line.text.length - rest.length
+        lines[index] = {
+          ...line,
+          indent: itemIndent,
+          text: rest
+        }
+        const [value, next] = this.parseBlock(lines, index, itemIndent)
+        sequence.push(value)
+        index = next
+      } else {
+        sequence.push(this.parseScalar(rest, line))
+        index++
+      }
+    }
+    if (index < lines.length && lines[index].indent > indent) {
+      throw this.createError(lines[index], 'Unexpected indentation')
+    }
+    return [sequence, index]
+  }
+
+  static parseMapping (lines: Array<YAMLLine>, index: number, indent: number): ParseResult {
+    const mapping: Record<string, unknown> = {}
+    while (index < lines.length && lines[index].indent === indent) {
+      const line = lines[index]
+      const separator = this.findKeySeparator(line.text)
+      if (separator === -1) {
+        throw this.createError(line, 'Expected a mapping entry')
+      }
+      const rawKey = line.text.slice(0, separator).trim()
+      const key = String(this.parseScalar(rawKey, line))
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw this.createError(line, `Duplicate key "${key}"`)
+      }
+      const rest = line.text.slice(separator + 1).trim()
+      if (!rest) {
+        const [value, next] = this.parseNested(lines, index + 1, indent, true)
+        mapping[key] = value
+        index = next
+      } else {
+        mapping[key] = this.parseScalar(rest, line)
+        index++
+      }
+    }
+    if (index < lines.length && lines[index].indent > indent) {
+      throw this.createError(lines[index], 'Unexpected indentation')
+    }
+    return [mapping, index]
+  }
+
+  /**
+   * Parse a scalar or a flow collection
+   *
+   * @param text Scalar text
+   * @param line Line of the scalar for errors
+   */
+  static parseScalar (text: string, line: YAMLLine): unknown {
+    if (text.startsWith('[') || text.startsWith('{') || text.startsWith('"') || text.startsWith("'")) {
+      const [value, end] = this.parseFlow(text, 0, line)
+      if (text.slice(end).trim()) {
+        throw this.createError(line, `Unexpected "${text.slice(end).trim()}"`)
+      }
+      return value
+    }
+    return this.parsePlain(text)
+  }
+
+  static parsePlain (text: string): unknown {
+    if (text === 'null' || text === '~') {
+      return null
+    }
+    if (text === 'true') {
+      return true
+    }
+    if (text === 'false') {
+      return false
+    }
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+      return Number(text)
+    }
+    return text
+  }
+
+  static skipSpaces (text: string, index: number): number {
+    while (text[index] === ' ') {
+      index++
+    }
+    return index
+  }
+
+  /**
+   * Parse a flow value starting at an index
+   *
+   * @param text Text containing the flow value
+   * @param index Index the value starts at
+   * @param line Line of the value for errors
+   * @returns The value and the index after it
+   */
+  static parseFlow (text: string, index: number, line: YAMLLine): [unknown, number] {
+    index = this.skipSpaces(text, index)
+    const char = text[index]
+    if (char === '"' || char === "'") {
+      return this.parseQuoted(text, index, line)
+    }
+    if (char === '[') {
+      const sequence: Array<unknown> = []
+      index = this.skipSpaces(text, index + 1)
+      while (text[index] !== ']') {
+        const [value, next] = this.parseFlow(text, index, line)
+        sequence.push(value)
+        index = this.parseFlowSeparator(text, next, ']', line)
+      }
+      return [sequence, index + 1]
+    }
+    if (char === '{') {
+      const mapping: Record<string, unknown> = {}
+      index = this.skipSpaces(text, index + 1)
+      while (text[index] !== '}') {
+        const [key, afterKey] = this.parseFlow(text, index, line)
+        const colon = this.skipSpaces(text, afterKey)
+        if (text[colon] !== ':') {
+          throw this.createError(line, 'Expected ":" in flow mapping')
+        }
+        const [value, next] = this.parseFlow(text, colon + 1, line)
+        mapping[String(key)] = value
+        index = this.parseFlowSeparator(text, next, '}', line)
+      }
+      return [mapping, index + 1]
+    }
+    let end = index
+    while (end < text.length && ',]}'.indexOf(text[end]) === -1 && !(text[end] === ':' && (text[end + 1] === ' ' || end + 1 === text.length))) {
+      end++
+    }
+    return [this.parsePlain(text.slice(index, end).trim()), end]
+  }
+
+  static parseFlowSeparator (text: string, index: number, closing: string, line: YAMLLine): number {
+    index = this.skipSpaces(text, index)
+    if (text[index] === ',') {
+      return this.skipSpaces(text, index + 1)
+    }
+    if (text[index] !== closing) {
+      throw this.createError(line, `Expected "," or "${closing}"`)
+    }
+    return index
+  }
+
+  static parseQuoted (text: string, index: number, line: YAMLLine): [string, number] {
+    const quote = text[index]
+    let value = ''
+    for (let i = index + 1; i < text.length; ++i) {
+      const char = text[i]
+      if (quote === "'" && char === "'") {
+        if (text[i + 1] === "'") {
+          value += "'"
+          ++i
+          continue
+        }
+        return [value, i + 1]
+      }
+      if (quote === '"' && char === '"') {
+        return [value, i + 1]
+      }
+      if (quote === '"' && char === '\\') {
+        const escaped = text[++i]
+        const escapes: Record<string, string> = {
+          n: '\n',
+          t: '\t',
+          '"': '"',
+          '\\': '\\'
+        }
+        if (!(escaped in escapes)) {
+          throw this.createError(line, `Unknown escape "\\${escaped}"`)
+        }
+        value += escapes[escaped]
+        continue
+      }
+      value += char
+    }
+    throw this.createError(line, 'Unterminated string')
+  }
+}
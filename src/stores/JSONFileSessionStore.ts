@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs'
+import { SessionStore, SessionSnapshot } from "../interfaces/SessionStore";
+
+type SnapshotMap<DataType> = {
+  [key: string]: SessionSnapshot<DataType>;
+}
+
+// Numbers temporary files so that stores of the same file never share one
+let tempFiles = 0
+
+export class JSONFileSessionStore<DataType> implements SessionStore<DataType> {
+  readonly path: string
+  /**
+   * Pending writes, chained so that they never interleave
+   */
+  writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param path Path of the JSON file that stores all snapshots
+   */
+  constructor (path: string) {
+    this.path = path
+  }
+
+  /**
+   * Read all snapshots from the file. A missing file is
+   * treated as having no snapshots.
+   */
+  async read (): Promise<SnapshotMap<DataType>> {
+    try {
+      const contents = await fs.readFile(this.path, 'utf8')
+      return JSON.parse(contents)
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return {}
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Write the snapshots to a temporary file next to the file
+   * and rename it over the file, so that a crash during the
+   * write never leaves the file truncated
+   * 
+   * @param snapshots All snapshots
+   */
+  async write (snapshots: SnapshotMap<DataType>): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.${++tempFiles}.tmp`
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(snapshots))
+      await fs.rename(tempPath, this.path)
+    } catch (err) {
+      await fs.unlink(tempPath).catch(() => undefined)
+      throw err
+    }
+  }
+
+  /**
+   * Read, modify and write the file once all pending writes
+   * are done
+   * 
+   * @param modify Function that changes the snapshots in place
+   */
+  update (modify: (snapshots: SnapshotMap<DataType>) => void): Promise<void> {
+    const write = this.writing.then(async () => {
+      const snapshots = await this.read()
+      modify(snapshots)
+      await this.write(snapshots)
+    })
+    // A failed write should not prevent later writes
+    this.writing = write.catch(() => undefined)
+    return write
+  }
+
+  async get (key: string): Promise<SessionSnapshot<DataType>|undefined> {
+    await this.writing
+    const snapshots = await this.read()
+    return snapshots[key]
+  }
+
+  async set (key: string, snapshot: SessionSnapshot<DataType>): Promise<void> {
+    return this.update(snapshots => {
+      snapshots[key] = snapshot
+    })
+  }
+
+  async delete (key: string): Promise<void> {
+    return this.update(snapshots => {
+      delete snapshots[key]
+    })
+  }
+}
@@ -0,0 +1,17 @@
+import { SessionStore, SessionSnapshot } from "../interfaces/SessionStore";
+
+export class MemorySessionStore<DataType> implements SessionStore<DataType> {
+  readonly snapshots: Map<string, SessionSnapshot<DataType>> = new Map()
+
+  async get (key: string): Promise<SessionSnapshot<DataType>|undefined> {
+    return this.snapshots.get(key)
+  }
+
+  async set (key: string, snapshot: SessionSnapshot<DataType>): Promise<void> {
+    this.snapshots.set(key, snapshot)
+  }
+
+  async delete (key: string): Promise<void> {
+    this.snapshots.delete(key)
+  }
+}
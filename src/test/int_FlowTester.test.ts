@@ -0,0 +1,459 @@
+import { FlowTester } from '../FlowTester'
+import { Prompt, PromptFunction } from '../Prompt'
+import { PromptNode } from '../PromptNode'
+import { MessageInterface } from '../interfaces/Message'
+import { ChannelInterface } from '../interfaces/Channel'
+import { Rejection } from '../errors/Rejection'
+import { Parsers } from '../Parsers'
+import { PaginatedPrompt } from '../PaginatedPrompt'
+import { FormPrompt } from '../FormPrompt'
+import { UserInactivityError } from '../errors/user/UserInactivityError'
+import { UserVoluntaryExitError } from '../errors/user/UserVoluntaryExitError'
+import { UserRejectionLimitError } from '../errors/user/UserRejectionLimitError'
+import { EventEmitter } from 'events'
+import { Transcript } from '../Transcript'
+import { ManualClock } from '../clocks/ManualClock'
+import { VisualRenderer } from '../VisualRenderer'
+import { SubFlowNode } from '../SubFlowNode'
+
+type AgeData = {
+  name?: string;
+  age?: number;
+}
+
+class MyPrompt<DataType> extends Prompt<DataType, MessageInterface> {
+  async onReject (error: Rejection, message: MessageInterface, channel: ChannelInterface<MessageInterface>): Promise<void> {
+    await this.sendVisual({
+      text: error.message
+    }, channel)
+  }
+  createCollector (): EventEmitter {
+    throw new Error('The tester should create the collectors')
+  }
+}
+
+class MyFormPrompt<DataType> extends FormPrompt<DataType, MessageInterface> {
+  async onReject (error: Rejection, message: MessageInterface, channel: ChannelInterface<MessageInterface>): Promise<void> {
+    await this.sendVisual({
+      text: error.message
+    }, channel)
+  }
+  createCollector (): EventEmitter {
+    throw new Error('The tester should create the collectors')
+  }
+}
+
+class MyPaginatedPrompt<DataType> extends PaginatedPrompt<DataType, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    throw new Error('The tester should create the collectors')
+  }
+}
+
+const createTree = (duration = 0): PromptNode<AgeData, MessageInterface> => {
+  const askNameFn = Parsers.bind<AgeData, 'name'>('name', Parsers.nonEmpty())
+  const askAgeFn: PromptFunction<AgeData, MessageInterface> = Parsers.bind<AgeData, 'age'>('age', Parsers.integer({
+    message: 'Not a number'
+  }))
+  const askName = new MyPrompt<AgeData>({
+    text: `What's your name?`
+  }, askNameFn, duration)
+  const askAge = new MyPrompt<AgeData>(async (data) => ({
+    text: `How old are you, ${data.name}?`
+  }), askAgeFn, duration)
+  const tooOld = new MyPrompt<AgeData>(async (data) => ({
+    text: `Welcome ${data.name}`
+  }))
+  const tooYoung = new MyPrompt<AgeData>(async (data) => ({
+    text: `Too young, ${data.name}`
+  }))
+  const askNameNode = new PromptNode(askName, undefined, 'askName')
+  const askAgeNode = new PromptNode(askAge, undefined, 'askAge')
+  const tooOldNode = new PromptNode(tooOld, async (data: AgeData) => !!data.age && data.age > 20, 'tooOld')
+  const tooYoungNode = new PromptNode(tooYoung, async (data: AgeData) => !!data.age && data.age <= 20, 'tooYoung')
+  askNameNode.setChildren([askAgeNode])
+  askAgeNode.setChildren([tooOldNode, tooYoungNode])
+  return askNameNode
+}
+
+describe('Int::FlowTester', () => {
+  it('runs a flow to the end', async () => {
+    const tester = new FlowTester(createTree(), {})
+    const result = await tester.run(['George', '30'])
+    expect(result.finished).toEqual(true)
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+    expect(result.path).toEqual(['askName', 'askAge', 'tooOld'])
+    expect(result.visuals.map(v => v.text)).toEqual([
+      `What's your name?`,
+      'How old are you, George?',
+      'Welcome George'
+    ])
+  })
+  it('records the data and visuals of each step', async () => {
+    const tester = new FlowTester(createTree(), {})
+    const result = await tester.run(['George', FlowTester.expectReject('abc', 'Not a number'), '10'])
+    expect(result.steps.map(s => s.outcome)).toEqual(['accept', 'reject', 'accept'])
+    expect(result.steps[0].data).toEqual({
+      name: 'George'
+    })
+    expect(result.steps[0].visuals).toEqual([{
+      text: 'How old are you, George?'
+    }])
+    expect(result.steps[1].rejection).toEqual('Not a number')
+    expect(result.steps[1].visuals).toEqual([{
+      text: 'Not a number'
+    }])
+    expect(result.steps[2].data).toEqual({
+      name: 'George',
+      age: 10
+    })
+    expect(result.path).toEqual(['askName', 'askAge', 'tooYoung'])
+  })
+  it('throws if an expected rejection is accepted', async () => {
+    const tester = new FlowTester(createTree(), {})
+    await expect(tester.run([FlowTester.expectReject('George')]))
+      .rejects.toThrow('Expected "George" to be rejected, but the outcome was accept')
+  })
+  it('throws if the rejection message is different', async () => {
+    const tester = new FlowTester(createTree(), {})
+    await expect(tester.run(['George', FlowTester.expectReject('abc', 'Other')]))
+      .rejects.toThrow('Expected "abc" to be rejected with "Other", but got "Not a number"')
+  })
+  it('stops at the end of the script while waiting for input', async () => {
+    const tester = new FlowTester(createTree(), {})
+    const result = await tester.run(['George'])
+    expect(result.finished).toEqual(false)
+    expect(result.path).toEqual(['askName'])
+    expect(result.steps[0].data).toEqual({
+      name: 'George'
+    })
+  })
+  it('throws for steps after the flow ended', async () => {
+    const tester = new FlowTester(createTree(), {})
+    await expect(tester.run(['George', '30', 'more']))
+      .rejects.toThrow('The flow ended before step 3')
+  })
+  it('exits', async () => {
+    const tester = new FlowTester(createTree(), {})
+    const result = await tester.run(['George', FlowTester.exit()])
+    expect(result.finished).toEqual(true)
+    expect(result.error).toBeInstanceOf(UserVoluntaryExitError)
+    expect(result.steps[1].outcome).toEqual('exit')
+  })
+  it('goes back', async () => {
+    const tester = new FlowTester(createTree(), {})
+    const result = await tester.run(['Gorge', FlowTester.back(), 'George', '30'])
+    expect(result.steps[1].outcome).toEqual('back')
+    expect(result.steps[1].data).toEqual({})
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+  })
+  it('records only the data of the tree within sub-flows', async () => {
+    type OrderData = {
+      customer?: string;
+    }
+    const root = new SubFlowNode<OrderData, AgeData, MessageInterface>(createTree(), {
+      input: async (): Promise<AgeData> => ({}),
+      output: async (data, result): Promise<OrderData> => ({
+        ...data,
+        customer: result.name
+      })
+    })
+    root.setChildren([
+      new PromptNode(new MyPrompt<OrderData>({ text: 'Thanks' }))
+    ])
+    const tester = new FlowTester(root, {})
+    const result = await tester.run(['Gorge', FlowTester.back(), 'George', '30'])
+    expect(result.steps.map(s => s.data)).toEqual([{}, {}, {}, {
+      customer: 'George'
+    }])
+    expect(result.data).toEqual({
+      customer: 'George'
+    })
+  })
+  it('advances time without waiting', async () => {
+    const tester = new FlowTester(createTree(1000), {})
+    const result = await tester.run(['George', FlowTester.advance(999), '30'])
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+    const timedOut = await tester.run(['George', FlowTester.advance(1000)])
+    expect(timedOut.finished).toEqual(true)
+    expect(timedOut.error).toBeInstanceOf(UserInactivityError)
+  })
+  it('warns before inactivity and restarts the timer for input', async () => {
+    const tester = new FlowTester(createTree(), {}, {
+      runner: {
+        inactivity: {
+          duration: 1000,
+          sliding: true,
+          warning: {
+            before: 300,
+            visual: {
+              text: 'Hurry up'
+            }
+          }
+        }
+      }
+    })
+    const result = await tester.run(['George', FlowTester.advance(800), FlowTester.expectReject('abc'), FlowTester.advance(900), '30'])
+    expect(result.steps[1].visuals).toEqual([{
+      text: 'Hurry up'
+    }])
+    expect(result.steps[3].visuals).toEqual([{
+      text: 'Hurry up'
+    }])
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+    const timedOut = await tester.run([FlowTester.advance(1000)])
+    expect(timedOut.error).toBeInstanceOf(UserInactivityError)
+  })
+  it('waits for warnings that take several steps to send', async () => {
+    const tester = new FlowTester(createTree(), {}, {
+      runner: {
+        inactivity: {
+          duration: 1000,
+          warning: {
+            before: 300,
+            visual: async (): Promise<{ text: string }> => {
+              await new Promise(resolve => setImmediate(resolve))
+              await new Promise(resolve => setImmediate(resolve))
+              return {
+                text: 'Hurry up'
+              }
+            }
+          }
+        }
+      }
+    })
+    const result = await tester.run([FlowTester.advance(800)])
+    expect(result.steps[0].visuals).toEqual([{
+      text: 'Hurry up'
+    }])
+  })
+  it('ignores messages from other users than the participant', async () => {
+    const createMessage = (text: string): MessageInterface => {
+      const [id, content] = text.split(': ')
+      return {
+        content,
+        author: {
+          id
+        }
+      }
+    }
+    const tester = new FlowTester(createTree(), {}, {
+      createMessage,
+      runner: {
+        participant: 'george'
+      }
+    })
+    const result = await tester.run(['bob: Bob', 'george: George', 'bob: 10', 'george: 30'])
+    expect(result.steps.map(step => step.outcome)).toEqual(['ignore', 'accept', 'ignore', 'accept'])
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+    const moderators = new FlowTester(createTree(), {}, {
+      createMessage,
+      runner: {
+        participant: 'george',
+        messageFilter: async (message, participant): Promise<boolean> => !!message.author && (message.author.id === participant || message.author.id === 'mod')
+      }
+    })
+    const moderated = await moderators.run(['mod: George', 'bob: 10', 'george: 30'])
+    expect(moderated.steps.map(step => step.outcome)).toEqual(['accept', 'ignore', 'accept'])
+  })
+  it('uses the runner options', async () => {
+    const tester = new FlowTester(createTree(), {}, {
+      runner: {
+        retry: {
+          maxAttempts: 2
+        }
+      }
+    })
+    const result = await tester.run(['George', FlowTester.expectReject('a'), FlowTester.expectReject('b')])
+    expect(result.error).toBeInstanceOf(UserRejectionLimitError)
+  })
+  it('records ignored navigation', async () => {
+    const listNode = new PromptNode(new MyPaginatedPrompt<{ item?: string }>({
+      items: ['a', 'b', 'c'],
+      pageSize: 2
+    }, Parsers.bind<{ item?: string }, 'item'>('item', Parsers.oneOf(['a', 'b', 'c']))))
+    const tester = new FlowTester(listNode, {})
+    const result = await tester.run(['next', 'c'])
+    expect(result.steps[0].outcome).toEqual('ignore')
+    expect(result.steps[0].visuals).toEqual([{
+      text: '3. c\nPage 2 of 2 (next, prev, page <number>)'
+    }])
+    expect(result.data).toEqual({
+      item: 'c'
+    })
+  })
+  it('does not restart the sliding timer for navigation', async () => {
+    const listNode = new PromptNode(new MyPaginatedPrompt<{ item?: string }>({
+      items: ['a', 'b', 'c'],
+      pageSize: 2
+    }, Parsers.bind<{ item?: string }, 'item'>('item', Parsers.oneOf(['a', 'b', 'c']))))
+    const tester = new FlowTester(listNode, {}, {
+      runner: {
+        inactivity: {
+          duration: 1000,
+          sliding: true
+        }
+      }
+    })
+    const result = await tester.run([FlowTester.advance(900), 'next', FlowTester.advance(100)])
+    expect(result.error).toBeInstanceOf(UserInactivityError)
+  })
+  it('collects a form with one-shot and single field answers', async () => {
+    const formNode = new PromptNode(new MyFormPrompt<AgeData>({
+      title: 'About you',
+      fields: [{
+        field: 'name',
+        label: 'Name',
+        parser: Parsers.nonEmpty()
+      }, {
+        field: 'age',
+        label: 'Age',
+        parser: Parsers.integer({ message: 'Not a number' })
+      }]
+    }))
+    const tester = new FlowTester(formNode, {})
+    const result = await tester.run([FlowTester.expectReject('George, abc', 'Age: Not a number\nPlease enter Age'), '30'])
+    expect(result.visuals.map(v => v.text)).toEqual([
+      'About you\nAnswer with: Name, Age',
+      'Age: Not a number\nPlease enter Age'
+    ])
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+  })
+  it('restarts the sliding timer for every answer of a form', async () => {
+    const formNode = new PromptNode(new MyFormPrompt<AgeData>({
+      title: 'About you',
+      fields: [{
+        field: 'name',
+        label: 'Name',
+        parser: Parsers.nonEmpty()
+      }, {
+        field: 'age',
+        label: 'Age',
+        parser: Parsers.integer()
+      }]
+    }))
+    const tester = new FlowTester(formNode, {}, {
+      runner: {
+        inactivity: {
+          duration: 1000,
+          sliding: true
+        }
+      }
+    })
+    const result = await tester.run([FlowTester.advance(900), 'George', FlowTester.advance(900), '30'])
+    expect(result.error).toBeUndefined()
+    expect(result.data).toEqual({
+      name: 'George',
+      age: 30
+    })
+  })
+  it('handles clicked and typed choices the same way', async () => {
+    type OrderData = {
+      confirmed?: string;
+    }
+    const buttons = [{
+      label: 'Yes',
+      value: 'yes'
+    }, {
+      label: 'No',
+      value: 'no'
+    }]
+    const confirmNode = new PromptNode(new MyPrompt<OrderData>({
+      title: 'Order',
+      text: 'Confirm your order?',
+      buttons
+    }, Parsers.bind<OrderData, 'confirmed'>('confirmed', VisualRenderer.createChoiceParser(buttons))))
+    const clicked = await new FlowTester(confirmNode, {}, {
+      capabilities: {
+        buttons: true
+      }
+    }).run([FlowTester.click('yes')])
+    expect(clicked.visuals).toEqual([{
+      text: 'Order\n\nConfirm your order?',
+      buttons
+    }])
+    expect(clicked.data).toEqual({
+      confirmed: 'yes'
+    })
+    await expect(new FlowTester(confirmNode, {}, {
+      capabilities: {
+        buttons: true
+      }
+    }).run([FlowTester.click('maybe')])).rejects.toThrow('Expected a button with the value "maybe" to click, but the last visual with buttons has "yes", "no"')
+    await expect(new FlowTester(confirmNode, {}).run([FlowTester.click('yes')]))
+      .rejects.toThrow('Expected a button with the value "yes" to click, but the last visual with buttons has none')
+    const typed = await new FlowTester(confirmNode, {}).run([FlowTester.expectReject('maybe', 'Please choose one of: Yes, No'), '1'])
+    expect(typed.visuals[0]).toEqual({
+      text: 'Order\n\nConfirm your order?\n\n1. Yes\n2. No'
+    })
+    expect(typed.data).toEqual({
+      confirmed: 'yes'
+    })
+  })
+  it('records a transcript of the run', async () => {
+    const transcript = new Transcript(new ManualClock())
+    const tester = new FlowTester(createTree(), {}, {
+      runner: {
+        transcript
+      }
+    })
+    await tester.run(['George', 'abc', '30'])
+    expect(transcript.entries.map(entry => Transcript.formatEntry(entry).slice(27))).toEqual([
+      'NODE: start -> askName',
+      `BOT: What's your name?`,
+      'USER: George',
+      'NODE: askName -> askAge',
+      'BOT: How old are you, George?',
+      'USER: abc',
+      'REJECTED: abc (Not a number)',
+      'BOT: Not a number',
+      'USER: 30',
+      'NODE: askAge -> tooOld',
+      'BOT: Welcome George',
+      'END: completed'
+    ])
+  })
+  it('records only the messages of the participant in the transcript', async () => {
+    const transcript = new Transcript(new ManualClock())
+    const tester = new FlowTester(createTree(), {}, {
+      createMessage: (text: string): MessageInterface => {
+        const [id, content] = text.split(': ')
+        return {
+          content,
+          author: {
+            id
+          }
+        }
+      },
+      runner: {
+        participant: 'george',
+        transcript
+      }
+    })
+    await tester.run(['george: George', 'bob: hi', 'george: 30'])
+    const messages = transcript.entries
+      .filter(entry => entry.type === 'message')
+      .map(entry => entry.type === 'message' && entry.content)
+    expect(messages).toEqual(['George', '30'])
+  })
+})
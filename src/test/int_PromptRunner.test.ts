@@ -6,6 +6,23 @@ import { PromptNode, PromptNodeCondition } from "../PromptNode";
 import { MessageInterface } from "../interfaces/Message";
 import { UserVoluntaryExitError } from "../errors/user/UserVoluntaryExitError";
 import { UserInactivityError } from "../errors/user/UserInactivityError";
+import { MemorySessionStore } from "../stores/MemorySessionStore";
+import { UserRejectionLimitError } from "../errors/user/UserRejectionLimitError";
+import { FlowTester } from "../FlowTester";
+import { Parsers } from "../Parsers";
+import { PluginInterface } from "../interfaces/Plugin";
+import { FlowAbortController } from "../FlowAbortController";
+import { FlowAbortedError } from "../errors/FlowAbortedError";
+import { ManualClock } from "../clocks/ManualClock";
+import { UserSessionTimeoutError } from "../errors/user/UserSessionTimeoutError";
+import { SubFlowNode } from "../SubFlowNode";
+import { LoopNode, Loop } from "../LoopNode";
+import { Schemas } from "../Schema";
+import { DataContractError } from "../errors/DataContractError";
+import { DataMutationError } from "../errors/DataMutationError";
+import { Transcript } from "../Transcript";
+import { Localizer } from "../Localizer";
+import { VisualRenderer } from "../VisualRenderer";
 
 async function flushPromises(): Promise<void> {
   return new Promise(resolve => {
@@ -414,6 +431,198 @@ describe('Int::PromptRunner', () => {
       expect(askNameFnSpy).not.toHaveBeenCalled()
       await expect(promise).rejects.toThrow(UserVoluntaryExitError)
     })
+    it('goes back to the previous prompt on back', async () => {
+      type PromptData = {
+        age?: number;
+        name?: string;
+      }
+      const askNameFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        name: m.content
+      })
+      const askAgeFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        age: Number(m.content)
+      })
+      const askName = new MyPrompt<PromptData>(promptForm, askNameFn)
+      const askAge = new MyPrompt<PromptData>(promptForm, askAgeFn)
+      const askNameNode = new PromptNode(askName)
+      const askAgeNode = new PromptNode(askAge)
+      askNameNode.setChildren([askAgeNode])
+      const channel = createMockChannel()
+      const runner = new PromptRunner<PromptData, MessageInterface>({})
+      const promise = runner.run(askNameNode, channel)
+      await flushPromises()
+      emitter.emit('message', createMockMessage('Gorge'))
+      await flushPromises()
+      emitter.emit('back')
+      await flushPromises()
+      expect(runner.ran).toEqual([])
+      emitter.emit('message', createMockMessage('George'))
+      await flushPromises()
+      emitter.emit('message', createMockMessage('30'))
+      await expect(promise).resolves.toEqual({
+        name: 'George',
+        age: 30
+      })
+      expect(runner.ran).toEqual([askName, askAge])
+    })
+    it('starts each run of a reused runner with an empty history', async () => {
+      type PromptData = {
+        age?: number;
+        name?: string;
+      }
+      const askNameFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        name: m.content
+      })
+      const askAgeFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        age: Number(m.content)
+      })
+      const askName = new MyPrompt<PromptData>(promptForm, askNameFn)
+      const askAge = new MyPrompt<PromptData>(promptForm, askAgeFn)
+      const askNameNode = new PromptNode(askName)
+      const askAgeNode = new PromptNode(askAge)
+      askNameNode.setChildren([askAgeNode])
+      const channel = createMockChannel()
+      const runner = new PromptRunner<PromptData, MessageInterface>({})
+      const first = runner.run(askNameNode, channel)
+      await flushPromises()
+      emitter.emit('message', createMockMessage('George'))
+      await flushPromises()
+      emitter.emit('message', createMockMessage('30'))
+      await first
+      const second = runner.run(askNameNode, channel)
+      await flushPromises()
+      // Going back at the root does not return into the first run
+      emitter.emit('back')
+      await flushPromises()
+      expect(runner.ran).toEqual([])
+      emitter.emit('message', createMockMessage('Jim'))
+      await flushPromises()
+      emitter.emit('message', createMockMessage('5'))
+      await expect(second).resolves.toEqual({
+        name: 'Jim',
+        age: 5
+      })
+      expect(runner.ran).toEqual([askName, askAge])
+    })
+    it('saves sessions that can be resumed', async () => {
+      type PromptData = {
+        age?: number;
+        name?: string;
+      }
+      const askNameFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        name: m.content
+      })
+      const askAgeFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        age: Number(m.content)
+      })
+      const askName = new MyPrompt<PromptData>(promptForm, askNameFn)
+      const askAge = new MyPrompt<PromptData>(promptForm, askAgeFn)
+      const askNameNode = new PromptNode(askName, undefined, 'askName')
+      const askAgeNode = new PromptNode(askAge, undefined, 'askAge')
+      askNameNode.setChildren([askAgeNode])
+      const store = new MemorySessionStore<PromptData>()
+      const options = {
+        session: {
+          store,
+          key: 'user'
+        }
+      }
+      const channel = createMockChannel()
+      const runner = new PromptRunner<PromptData, MessageInterface>({}, options)
+      runner.run(askNameNode, channel)
+      await flushPromises()
+      emitter.emit('message', createMockMessage('George'))
+      await flushPromises()
+      const snapshot = await store.get('user')
+      expect(snapshot).toEqual({
+        nodeID: 'askAge',
+        data: { name: 'George' }
+      })
+      // Simulate a restart with a new runner
+      emitter.removeAllListeners()
+      channel.send.mockClear()
+      const resumedRunner = new PromptRunner<PromptData, MessageInterface>({}, options)
+      const promise = resumedRunner.resume(askNameNode, channel, snapshot as { nodeID: string; data: PromptData })
+      await flushPromises()
+      expect(channel.send).toHaveBeenCalledTimes(1)
+      emitter.emit('message', createMockMessage('30'))
+      await expect(promise).resolves.toEqual({
+        name: 'George',
+        age: 30
+      })
+      await expect(store.get('user')).resolves.toBeUndefined()
+    })
+    it('goes to the fallback node when the retry limit is reached', async () => {
+      type PromptData = {
+        age?: number;
+        help?: boolean;
+      }
+      jest.spyOn(MyPrompt.prototype, 'onReject')
+        .mockResolvedValue()
+      const askAgeFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => {
+        const age = Number(m.content)
+        if (isNaN(age)) {
+          throw new Rejection('Not a number')
+        }
+        return {
+          ...data,
+          age
+        }
+      }
+      const helpFn: PromptFunction<PromptData, MessageInterface> = async (m, data) => ({
+        ...data,
+        help: true
+      })
+      const helpNode = new PromptNode(new MyPrompt<PromptData>(promptForm, helpFn))
+      const hint = {
+        text: 'Try a number'
+      }
+      const askAge = new MyPrompt<PromptData>(promptForm, askAgeFn, 0, {
+        retry: {
+          maxAttempts: 2,
+          visuals: [hint],
+          fallback: helpNode
+        }
+      })
+      const askAgeNode = new PromptNode(askAge)
+      const channel = createMockChannel()
+      const runner = new PromptRunner<PromptData, MessageInterface>({})
+      const promise = runner.run(askAgeNode, channel)
+      await flushPromises()
+      emitter.emit('message', createMockMessage('abc'))
+      await flushPromises()
+      expect(channel.send).toHaveBeenLastCalledWith(hint)
+      emitter.emit('message', createMockMessage('def'))
+      await flushPromises()
+      emitter.emit('message', createMockMessage('help'))
+      await expect(promise).resolves.toEqual({
+        help: true
+      })
+      expect(runner.ran).toEqual([askAge, helpNode.prompt])
+    })
+    it('rejects when the runner retry limit is reached', async () => {
+      jest.spyOn(MyPrompt.prototype, 'onReject')
+        .mockResolvedValue()
+      const rejectFn: PromptFunction<{}, MessageInterface> = async () => {
+        throw new Rejection('No')
+      }
+      const node = new PromptNode(new MyPrompt<{}>(promptForm, rejectFn))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry: {
+          maxAttempts: 1
+        }
+      })
+      const promise = runner.run(node, createMockChannel())
+      await flushPromises()
+      emitter.emit('message', createMockMessage('abc'))
+      await expect(promise).rejects.toThrow(UserRejectionLimitError)
+    })
     it('rejects on inactivity', async () => {
       jest.useFakeTimers()
       type PromptData = {
@@ -447,4 +656,1032 @@ describe('Int::PromptRunner', () => {
       jest.useRealTimers()
     })
   })
+  describe('abort', () => {
+    it('stops the collector and clears its timer', async () => {
+      const clock = new ManualClock()
+      const controller = new FlowAbortController()
+      const askName = new MyPrompt<{}>(promptForm, promptFunc, 10000)
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const promise = runner.run(new PromptNode(askName), createMockChannel(), {
+        signal: controller.signal
+      })
+      await flushPromises()
+      expect(clock.timers.size).toEqual(1)
+      controller.abort('removed')
+      await expect(promise).rejects.toThrow(FlowAbortedError)
+      expect(clock.timers.size).toEqual(0)
+      expect(emitter.eventNames()).toEqual([])
+      expect(controller.signal.listeners.size).toEqual(0)
+    })
+  })
+  describe('deadline', () => {
+    it('stops the collector and deletes the session', async () => {
+      const clock = new ManualClock()
+      const store = new MemorySessionStore<{}>()
+      const askName = new MyPrompt<{}>(promptForm, promptFunc)
+      const askNameNode = new PromptNode(askName)
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock,
+        session: {
+          store,
+          key: 'user'
+        }
+      })
+      await store.set('user', {
+        nodeID: '0',
+        data: {}
+      })
+      const promise = runner.run(askNameNode, createMockChannel(), {
+        deadline: 1000
+      })
+      await flushPromises()
+      clock.advance(1000)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+      await flushPromises()
+      expect(emitter.eventNames()).toEqual([])
+      await expect(store.get('user')).resolves.toBeUndefined()
+    })
+    it('rejects during slow visual generators', async () => {
+      const clock = new ManualClock()
+      const slowPrompt = new MyPrompt<{}>(() => new Promise(() => undefined), promptFunc)
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const promise = runner.run(new PromptNode(slowPrompt), createMockChannel(), {
+        deadline: 1000
+      })
+      clock.advance(1000)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+    })
+    it('does not send visuals generated after the deadline', async () => {
+      const clock = new ManualClock()
+      const store = new MemorySessionStore<{}>()
+      let resolveVisual: (visual: { text: string }) => void = () => undefined
+      const slowPrompt = new MyPrompt<{}>(() => new Promise(resolve => {
+        resolveVisual = resolve
+      }), promptFunc)
+      const onComplete = jest.fn()
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock,
+        session: {
+          store,
+          key: 'user'
+        },
+        plugins: [{
+          onComplete
+        }]
+      })
+      const channel = createMockChannel()
+      const promise = runner.run(new PromptNode(slowPrompt), channel, {
+        deadline: 1000
+      })
+      await flushPromises()
+      clock.advance(1000)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+      resolveVisual({ text: 'late' })
+      await flushPromises()
+      expect(channel.send).not.toHaveBeenCalled()
+      expect(emitter.eventNames()).toEqual([])
+      expect(onComplete).not.toHaveBeenCalled()
+      await expect(store.get('user')).resolves.toBeUndefined()
+    })
+    it('rejects during slow conditions', async () => {
+      const clock = new ManualClock()
+      const first = new PromptNode(new MyPrompt<{}>(promptForm))
+      const second = new PromptNode(new MyPrompt<{}>(promptForm), () => new Promise<boolean>(() => undefined))
+      first.setChildren([second])
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const promise = runner.run(first, createMockChannel(), {
+        deadline: 1000
+      })
+      await flushPromises()
+      clock.advance(1000)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+    })
+    it('does not save or continue after conditions that resolve after the deadline', async () => {
+      const clock = new ManualClock()
+      const store = new MemorySessionStore<{}>()
+      const first = new PromptNode(new MyPrompt<{}>(promptForm), undefined, 'first')
+      let resolveCondition: (matched: boolean) => void = () => undefined
+      const second = new PromptNode(new MyPrompt<{}>(promptForm), () => new Promise<boolean>(resolve => {
+        resolveCondition = resolve
+      }), 'second')
+      first.setChildren([second])
+      const set = jest.spyOn(store, 'set')
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock,
+        session: {
+          store,
+          key: 'user'
+        }
+      })
+      const channel = createMockChannel()
+      const promise = runner.run(first, channel, {
+        deadline: 1000
+      })
+      await flushPromises()
+      clock.advance(1000)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+      resolveCondition(true)
+      await flushPromises()
+      expect(channel.send).toHaveBeenCalledTimes(1)
+      expect(set).not.toHaveBeenCalled()
+      await expect(store.get('user')).resolves.toBeUndefined()
+    })
+    it('resolves if the run finishes in time', async () => {
+      const tester = new FlowTester(new PromptNode(new MyPrompt<{}>(promptForm, promptFunc)), {}, {
+        run: {
+          deadline: 1000
+        }
+      })
+      const result = await tester.run([FlowTester.advance(999), 'done'])
+      expect(result.error).toBeUndefined()
+      expect(result.finished).toEqual(true)
+      const timedOut = await tester.run([FlowTester.advance(1000)])
+      expect(timedOut.error).toBeInstanceOf(UserSessionTimeoutError)
+    })
+  })
+  describe('plugins', () => {
+    type NameData = {
+      name?: string;
+      age?: number;
+      admin?: boolean;
+    }
+    class PluginPrompt extends Prompt<NameData, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createTree = (): PromptNode<NameData, MessageInterface> => {
+      const askName = new PromptNode(new PluginPrompt({
+        text: 'Name?'
+      }, Parsers.bind<NameData, 'name'>('name', Parsers.nonEmpty())), undefined, 'askName')
+      const askAge = new PromptNode(new PluginPrompt({
+        text: 'Age?'
+      }, Parsers.bind<NameData, 'age'>('age', Parsers.integer())), undefined, 'askAge')
+      const done = new PromptNode(new PluginPrompt({
+        text: 'Done'
+      }), undefined, 'done')
+      askName.setChildren([askAge])
+      askAge.setChildren([done])
+      return askName
+    }
+    it('calls the hooks of every step in order', async () => {
+      const calls: Array<string> = []
+      const log = (name: string) => async (context: { node: PromptNode<NameData, MessageInterface> }): Promise<void> => {
+        calls.push(`${name} ${context.node.id}`)
+      }
+      const plugin: PluginInterface<NameData, MessageInterface> = {
+        beforeNode: log('beforeNode'),
+        afterVisualSent: log('afterVisualSent'),
+        beforeFunction: log('beforeFunction'),
+        afterAccept: log('afterAccept'),
+        onReject: log('onReject'),
+        onComplete: log('onComplete')
+      }
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [plugin]
+        }
+      })
+      await tester.run(['George', FlowTester.expectReject('abc'), '30'])
+      expect(calls).toEqual([
+        'beforeNode askName',
+        'afterVisualSent askName',
+        'beforeFunction askName',
+        'afterAccept askName',
+        'beforeNode askAge',
+        'afterVisualSent askAge',
+        'beforeFunction askAge',
+        'onReject askAge',
+        'beforeFunction askAge',
+        'afterAccept askAge',
+        'beforeNode done',
+        'afterVisualSent done',
+        'afterAccept done',
+        'onComplete done'
+      ])
+    })
+    it('changes data and skips nodes', async () => {
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            beforeNode: async ({ node, data }): Promise<{ data: NameData; skip: boolean }> => ({
+              data: {
+                ...data,
+                admin: true
+              },
+              skip: node.id === 'askAge'
+            })
+          }]
+        }
+      })
+      const result = await tester.run(['George'])
+      expect(result.path).toEqual(['askName', 'done'])
+      expect(result.visuals.map(v => v.text)).toEqual(['Name?', 'Done'])
+      expect(result.data).toEqual({
+        name: 'George',
+        admin: true
+      })
+    })
+    it('ignores messages that a plugin skips', async () => {
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            beforeFunction: async (context, message): Promise<{ skip: boolean }> => ({
+              skip: message.content === 'spam'
+            })
+          }]
+        }
+      })
+      const result = await tester.run(['spam', 'George', '30'])
+      expect(result.steps[0].outcome).toEqual('ignore')
+      expect(result.data).toEqual({
+        name: 'George',
+        age: 30
+      })
+    })
+    it('ends the run when afterAccept skips', async () => {
+      const onComplete = jest.fn().mockResolvedValue(undefined)
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            afterAccept: async ({ data }): Promise<{ skip: boolean }> => ({
+              skip: data.name === 'Admin'
+            }),
+            onComplete
+          }]
+        }
+      })
+      const result = await tester.run(['Admin'])
+      expect(result.finished).toEqual(true)
+      expect(result.path).toEqual(['askName'])
+      expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'Admin'
+        }
+      }))
+    })
+    it('calls onError with the error of the run', async () => {
+      const onError = jest.fn().mockResolvedValue(undefined)
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            onError
+          }]
+        }
+      })
+      const result = await tester.run(['George', FlowTester.exit()])
+      expect(result.error).toBeInstanceOf(UserVoluntaryExitError)
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'George'
+        }
+      }), result.error)
+    })
+    it('calls onError with errors of conditions', async () => {
+      const onError = jest.fn().mockResolvedValue(undefined)
+      const error = new Error('Condition failed')
+      const askName = createTree()
+      askName.setChildren([new PromptNode(askName.children[0].prompt, async (): Promise<boolean> => {
+        throw error
+      })])
+      const tester = new FlowTester(askName, {}, {
+        runner: {
+          plugins: [{
+            onError
+          }]
+        }
+      })
+      const result = await tester.run(['George'])
+      expect(result.error).toBe(error)
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        node: askName,
+        data: {
+          name: 'George'
+        }
+      }), error)
+    })
+    it('calls onError with errors of the session store', async () => {
+      const onError = jest.fn().mockResolvedValue(undefined)
+      const error = new Error('Store is down')
+      const store = new MemorySessionStore<NameData>()
+      jest.spyOn(store, 'set').mockRejectedValue(error)
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            onError
+          }],
+          session: {
+            store,
+            key: 'user'
+          }
+        }
+      })
+      const result = await tester.run(['George'])
+      expect(result.error).toBe(error)
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'George'
+        }
+      }), error)
+    })
+    it('rejects with the error of a hook', async () => {
+      const error = new Error('Not allowed')
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          plugins: [{
+            beforeNode: async ({ node }): Promise<void> => {
+              if (node.id === 'askAge') {
+                throw error
+              }
+            }
+          }]
+        }
+      })
+      const result = await tester.run(['George'])
+      expect(result.error).toEqual(error)
+    })
+  })
+  describe('sub-flows', () => {
+    type OrderData = {
+      item?: string;
+      address?: string;
+      confirmed?: string;
+    }
+    type AddressData = {
+      street?: string;
+      city?: string;
+    }
+    class FlowPrompt<DataType> extends Prompt<DataType, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createAddressTree = (): PromptNode<AddressData, MessageInterface> => {
+      const askStreet = new PromptNode(new FlowPrompt<AddressData>({
+        text: 'Street?'
+      }, Parsers.bind<AddressData, 'street'>('street', Parsers.nonEmpty())), undefined, 'askStreet')
+      const askCity = new PromptNode(new FlowPrompt<AddressData>({
+        text: 'City?'
+      }, Parsers.bind<AddressData, 'city'>('city', Parsers.nonEmpty())), undefined, 'askCity')
+      askStreet.setChildren([askCity])
+      return askStreet
+    }
+    const createTree = (): PromptNode<OrderData, MessageInterface> => {
+      const askItem = new PromptNode(new FlowPrompt<OrderData>({
+        text: 'Item?'
+      }, Parsers.bind<OrderData, 'item'>('item', Parsers.nonEmpty())), undefined, 'askItem')
+      const address = new SubFlowNode<OrderData, AddressData, MessageInterface>(createAddressTree(), {
+        input: async (data): Promise<AddressData> => ({
+          street: data.address
+        }),
+        output: async (data, result): Promise<OrderData> => ({
+          ...data,
+          address: `${result.street}, ${result.city}`
+        })
+      }, undefined, 'address')
+      const done = new PromptNode(new FlowPrompt<OrderData>(async (data) => ({
+        text: `Sending ${data.item} to ${data.address}`
+      })), undefined, 'done')
+      askItem.setChildren([address])
+      address.setChildren([done])
+      return askItem
+    }
+    it('runs the child tree with mapped data', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['Book', 'Main St', 'Springfield'])
+      expect(result.data).toEqual({
+        item: 'Book',
+        address: 'Main St, Springfield'
+      })
+      expect(result.path).toEqual(['askItem', 'address', 'done'])
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item?',
+        'Street?',
+        'City?',
+        'Sending Book to Main St, Springfield'
+      ])
+    })
+    it('goes back within the child tree', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['Book', 'Main St', FlowTester.back(), 'Elm St', 'Springfield'])
+      expect(result.data).toEqual({
+        item: 'Book',
+        address: 'Elm St, Springfield'
+      })
+    })
+    it('goes back from the first prompt of the child tree to the parent tree', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['Book', FlowTester.back(), 'Pen', 'Main St', 'Springfield'])
+      expect(result.data).toEqual({
+        item: 'Pen',
+        address: 'Main St, Springfield'
+      })
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item?',
+        'Street?',
+        'Item?',
+        'Street?',
+        'City?',
+        'Sending Pen to Main St, Springfield'
+      ])
+    })
+    it('goes back into the last prompt of the child tree', async () => {
+      const askItem = createTree()
+      const confirm = new PromptNode(new FlowPrompt<OrderData>({
+        text: 'Confirm?'
+      }, Parsers.bind<OrderData, 'confirmed'>('confirmed', Parsers.nonEmpty())), undefined, 'confirm')
+      const address = askItem.children[0]
+      address.setChildren([confirm])
+      const tester = new FlowTester(askItem, {})
+      const result = await tester.run(['Book', 'Main St', 'Springfield', FlowTester.back(), 'Shelbyville', 'yes'])
+      expect(result.data).toEqual({
+        item: 'Book',
+        address: 'Main St, Shelbyville',
+        confirmed: 'yes'
+      })
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item?',
+        'Street?',
+        'City?',
+        'Confirm?',
+        'City?',
+        'Confirm?'
+      ])
+    })
+    it('rejects with the errors of the child tree', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['Book', 'Main St', FlowTester.exit()])
+      expect(result.error).toBeInstanceOf(UserVoluntaryExitError)
+    })
+    it('records the nodes of the child tree in the transcript', async () => {
+      const transcript = new Transcript(new ManualClock())
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          transcript
+        }
+      })
+      await tester.run(['Book', 'Main St', 'Springfield'])
+      const transitions = transcript.entries
+        .filter(entry => entry.type === 'transition')
+        .map(entry => entry.type === 'transition' && `${entry.from} -> ${entry.to}`)
+      expect(transitions).toEqual([
+        'null -> askItem',
+        'askItem -> address',
+        'address -> askStreet',
+        'askStreet -> askCity',
+        'askCity -> address',
+        'address -> done'
+      ])
+    })
+    it('validates the child tree', () => {
+      const childRoot = new PromptNode(new FlowPrompt<AddressData>({ text: 'Street?' }))
+      childRoot.setChildren([
+        new PromptNode(new FlowPrompt<AddressData>({ text: 'City?' })),
+        new PromptNode(new FlowPrompt<AddressData>({ text: 'Country?' }))
+      ])
+      const node = new SubFlowNode<OrderData, AddressData, MessageInterface>(childRoot, {
+        input: async (): Promise<AddressData> => ({}),
+        output: async (data): Promise<OrderData> => data
+      })
+      expect(PromptRunner.valid(node)).toEqual(false)
+    })
+  })
+  describe('loops', () => {
+    type ItemData = {
+      index?: number;
+      name?: string;
+    }
+    type ListData = {
+      items?: Array<ItemData>;
+    }
+    class LoopPrompt<DataType> extends Prompt<DataType, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createTree = (loop: Partial<Loop<ListData, ItemData, 'items'>> = {}): PromptNode<ListData, MessageInterface> => {
+      const askItem = new PromptNode(new LoopPrompt<ItemData>(async (data) => ({
+        text: `Item ${(data.index as number) + 1}?`
+      }), Parsers.bind<ItemData, 'name'>('name', Parsers.nonEmpty())), undefined, 'askItem')
+      const items = new LoopNode<ListData, ItemData, MessageInterface, 'items'>(askItem, {
+        field: 'items',
+        start: async (data, index): Promise<ItemData> => ({
+          index
+        }),
+        stopKeyword: 'done',
+        ...loop
+      }, undefined, 'items')
+      const summary = new PromptNode(new LoopPrompt<ListData>(async (data) => ({
+        text: `Got ${(data.items || []).map(item => item.name).join(', ')}`
+      })), undefined, 'summary')
+      items.setChildren([summary])
+      return items
+    }
+    it('repeats until the stop keyword', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['apple', 'pear', 'done'])
+      expect(result.steps.map(step => step.outcome)).toEqual(['accept', 'accept', 'stopped'])
+      expect(result.data).toEqual({
+        items: [{
+          index: 0,
+          name: 'apple'
+        }, {
+          index: 1,
+          name: 'pear'
+        }]
+      })
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item 1?',
+        'Item 2?',
+        'Item 3?',
+        'Got apple, pear'
+      ])
+      expect(result.path).toEqual(['items', 'summary'])
+    })
+    it('stops at the max', async () => {
+      const tester = new FlowTester(createTree({ max: 2 }), {})
+      const result = await tester.run(['apple', 'pear'])
+      expect(result.finished).toEqual(true)
+      expect((result.data as ListData).items).toHaveLength(2)
+    })
+    it('stops when the stop condition passes', async () => {
+      const tester = new FlowTester(createTree({
+        until: async (data: ListData): Promise<boolean> => (data.items || []).some(item => item.name === 'last')
+      }), {})
+      const result = await tester.run(['apple', 'last'])
+      expect(result.finished).toEqual(true)
+      expect((result.data as ListData).items).toHaveLength(2)
+    })
+    it('treats the stop keyword as input until the min is reached', async () => {
+      const tester = new FlowTester(createTree({ min: 1 }), {})
+      const result = await tester.run(['done', 'done'])
+      expect(result.data).toEqual({
+        items: [{
+          index: 0,
+          name: 'done'
+        }]
+      })
+    })
+    it('goes back into the previous iteration', async () => {
+      const tester = new FlowTester(createTree(), {})
+      const result = await tester.run(['apple', FlowTester.back(), 'banana', 'done'])
+      expect(result.data).toEqual({
+        items: [{
+          index: 0,
+          name: 'banana'
+        }]
+      })
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item 1?',
+        'Item 2?',
+        'Item 1?',
+        'Item 2?',
+        'Got banana'
+      ])
+    })
+    it('goes back into the last iteration from after the loop', async () => {
+      const items = createTree()
+      const confirm = new PromptNode(new LoopPrompt<ListData>({
+        text: 'Confirm?'
+      }, async (message, data): Promise<ListData> => data), undefined, 'confirm')
+      items.setChildren([confirm])
+      const tester = new FlowTester(items, {})
+      const result = await tester.run(['apple', 'pear', 'done', FlowTester.back(), 'plum', 'done', 'yes'])
+      expect(result.data).toEqual({
+        items: [{
+          index: 0,
+          name: 'apple'
+        }, {
+          index: 1,
+          name: 'pear'
+        }, {
+          index: 2,
+          name: 'plum'
+        }]
+      })
+      expect(result.path).toEqual(['items', 'confirm'])
+      expect(result.visuals.map(v => v.text)).toEqual([
+        'Item 1?',
+        'Item 2?',
+        'Item 3?',
+        'Confirm?',
+        'Item 3?',
+        'Item 4?',
+        'Confirm?'
+      ])
+    })
+    it('validates the tree of the loop', () => {
+      const askItem = new PromptNode(new LoopPrompt<ItemData>({ text: 'Item?' }))
+      askItem.setChildren([
+        new PromptNode(new LoopPrompt<ItemData>({ text: 'Name?' })),
+        new PromptNode(new LoopPrompt<ItemData>({ text: 'Price?' }))
+      ])
+      const node = new LoopNode<ListData, ItemData, MessageInterface, 'items'>(askItem, {
+        field: 'items',
+        start: async (): Promise<ItemData> => ({})
+      })
+      expect(PromptRunner.valid(node)).toEqual(false)
+    })
+  })
+  describe('contracts', () => {
+    type ProfileData = {
+      name?: string;
+      age?: number;
+    }
+    class ContractPrompt extends Prompt<ProfileData, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createTree = (askAgeFn: PromptFunction<ProfileData, MessageInterface>): PromptNode<ProfileData, MessageInterface> => {
+      const askName = new PromptNode(new ContractPrompt({
+        text: 'Name?'
+      }, Parsers.bind<ProfileData, 'name'>('name', Parsers.nonEmpty())), undefined, 'askName')
+        .setContract({
+          output: Schemas.object({
+            name: Schemas.string()
+          })
+        })
+      const askAge = new PromptNode(new ContractPrompt({
+        text: 'Age?'
+      }, askAgeFn), undefined, 'askAge')
+        .setContract({
+          input: Schemas.object({
+            name: Schemas.string()
+          }),
+          output: Schemas.object({
+            age: Schemas.number()
+          })
+        })
+      askName.setChildren([askAge])
+      return askName
+    }
+    it('runs when the data matches the contracts', async () => {
+      const tester = new FlowTester(createTree(Parsers.bind<ProfileData, 'age'>('age', Parsers.integer())), {})
+      const result = await tester.run(['George', '30'])
+      expect(result.data).toEqual({
+        name: 'George',
+        age: 30
+      })
+    })
+    it('rejects with the node and field of invalid output', async () => {
+      const tester = new FlowTester(createTree(async (message, data): Promise<ProfileData> => ({
+        ...data,
+        age: Number('abc')
+      })), {})
+      const result = await tester.run(['George', '30'])
+      expect(result.error).toBeInstanceOf(DataContractError)
+      const error = result.error as DataContractError
+      expect(error.nodeID).toEqual('askAge')
+      expect(error.stage).toEqual('output')
+      expect(error.path).toEqual('data.age')
+      expect(error.message).toEqual('Invalid output data of node "askAge":\ndata.age: Expected a number')
+    })
+    it('rejects with invalid input before the node runs', async () => {
+      const askAge = createTree(Parsers.bind<ProfileData, 'age'>('age', Parsers.integer())).children[0]
+      const tester = new FlowTester(askAge, {})
+      const result = await tester.run([])
+      expect(result.visuals).toEqual([])
+      expect(result.error).toBeInstanceOf(DataContractError)
+      expect((result.error as DataContractError).path).toEqual('data.name')
+    })
+    it('rejects with the IDs of unnamed nodes without sessions', async () => {
+      const first = new PromptNode(new MyPrompt<ProfileData>(promptForm))
+      const second = new PromptNode(new MyPrompt<ProfileData>(promptForm))
+        .setContract({
+          input: Schemas.object({
+            name: Schemas.string()
+          })
+        })
+      first.setChildren([second])
+      const runner = new PromptRunner<ProfileData, MessageInterface>({})
+      const promise = runner.run(first, createMockChannel())
+      await expect(promise).rejects.toThrow(DataContractError)
+      await expect(promise).rejects.toHaveProperty('nodeID', '0.0')
+    })
+    it('throws before running for templates with fields that are not in the input contract', async () => {
+      const greet = new PromptNode(new MyPrompt<ProfileData>('Hi {{name}}, you are {{age}} in {{city}}'), undefined, 'greet')
+        .setContract({
+          input: Schemas.object({
+            name: Schemas.string(),
+            age: Schemas.number()
+          })
+        })
+      const channel = createMockChannel()
+      const runner = new PromptRunner<ProfileData, MessageInterface>({})
+      await expect(runner.run(greet, channel))
+        .rejects.toThrow('Template of node "greet" uses fields that are not in its input contract: "city"')
+      expect(channel.send).not.toHaveBeenCalled()
+    })
+    it('checks the templates of child trees', async () => {
+      const greet = new PromptNode(new MyPrompt<ProfileData>('Hi {{nickname}}'))
+        .setContract({
+          input: Schemas.object({
+            name: Schemas.string()
+          })
+        })
+      const root = new SubFlowNode<ProfileData, ProfileData, MessageInterface>(greet, {
+        input: async (data): Promise<ProfileData> => data,
+        output: async (data): Promise<ProfileData> => data
+      })
+      const runner = new PromptRunner<ProfileData, MessageInterface>({})
+      await expect(runner.run(root, createMockChannel()))
+        .rejects.toThrow('Template of node "0.flow" uses fields that are not in its input contract: "nickname"')
+    })
+  })
+  describe('dev mode', () => {
+    type ProfileData = {
+      name?: string;
+      age?: number;
+    }
+    class DevPrompt extends Prompt<ProfileData, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createTree = (askAgeFn: PromptFunction<ProfileData, MessageInterface>, condition?: PromptNodeCondition<ProfileData>): PromptNode<ProfileData, MessageInterface> => {
+      const askName = new PromptNode(new DevPrompt({
+        text: 'Name?'
+      }, Parsers.bind<ProfileData, 'name'>('name', Parsers.nonEmpty())), undefined, 'askName')
+      const askAge = new PromptNode(new DevPrompt({
+        text: 'Age?'
+      }, askAgeFn), condition, 'askAge')
+      askName.setChildren([askAge])
+      return askName
+    }
+    it('records the diff of every step and logs it', async () => {
+      const log = jest.fn()
+      const tester = new FlowTester(createTree(Parsers.bind<ProfileData, 'age'>('age', Parsers.integer())), {}, {
+        runner: {
+          devMode: true,
+          log
+        }
+      })
+      const result = await tester.run(['George', '30'])
+      expect(result.data).toEqual({
+        name: 'George',
+        age: 30
+      })
+      expect(log.mock.calls).toEqual([
+        ['Data changed by node "askName":\n+ data.name: "George"'],
+        ['Data changed by node "askAge":\n+ data.age: 30']
+      ])
+    })
+    it('rejects with the node whose function mutates the data', async () => {
+      const tester = new FlowTester(createTree(async (message, data): Promise<ProfileData> => {
+        data.age = Number(message.content)
+        return data
+      }), {}, {
+        runner: {
+          devMode: true
+        }
+      })
+      const result = await tester.run(['George', '30'])
+      expect(result.error).toBeInstanceOf(DataMutationError)
+      expect((result.error as DataMutationError).nodeID).toEqual('askAge')
+    })
+    it('rejects with the node whose child conditions mutate the data', async () => {
+      const condition = async (data: ProfileData): Promise<boolean> => {
+        data.age = 0
+        return true
+      }
+      const tester = new FlowTester(createTree(Parsers.bind<ProfileData, 'age'>('age', Parsers.integer()), condition), {}, {
+        runner: {
+          devMode: true
+        }
+      })
+      const result = await tester.run(['George'])
+      expect(result.error).toBeInstanceOf(DataMutationError)
+      expect((result.error as DataMutationError).message).toMatch(/^A condition of a child of node "askName" mutated the data/)
+    })
+    it('rejects with the IDs of unnamed nodes without sessions', async () => {
+      const first = new PromptNode(new MyPrompt<ProfileData>(promptForm))
+      const second = new PromptNode(new MyPrompt<ProfileData>(promptForm), async (data: ProfileData): Promise<boolean> => {
+        data.age = 0
+        return true
+      })
+      first.setChildren([second])
+      const runner = new PromptRunner<ProfileData, MessageInterface>({}, {
+        devMode: true
+      })
+      const promise = runner.run(first, createMockChannel())
+      await expect(promise).rejects.toThrow(DataMutationError)
+      await expect(promise).rejects.toHaveProperty('nodeID', '0')
+    })
+    it('does not freeze the data without dev mode', async () => {
+      const tester = new FlowTester(createTree(async (message, data): Promise<ProfileData> => {
+        data.age = Number(message.content)
+        return data
+      }), {})
+      const result = await tester.run(['George', '30'])
+      expect(result.data).toEqual({
+        name: 'George',
+        age: 30
+      })
+    })
+  })
+  describe('localization', () => {
+    type LangData = {
+      lang?: string;
+      age?: number;
+    }
+    class LangPrompt extends Prompt<LangData, MessageInterface> {
+      async onReject (): Promise<void> {
+        return
+      }
+      createCollector (): EventEmitter {
+        throw new Error('The tester should create the collectors')
+      }
+    }
+    const createTree = (): PromptNode<LangData, MessageInterface> => {
+      const askLang = new PromptNode(new LangPrompt({
+        text: 'Language?'
+      }, Parsers.bind<LangData, 'lang'>('lang', Parsers.oneOf(['en', 'es', 'fr']))), undefined, 'askLang')
+      const askAge = new PromptNode(new LangPrompt(async (data, { t }) => ({
+        text: t('askAge')
+      }), Parsers.bind<LangData, 'age'>('age', Parsers.integer({ min: 18 }))), undefined, 'askAge')
+      askLang.setChildren([askAge])
+      return askLang
+    }
+    const createLocalizer = (onMissing = jest.fn()): Localizer => new Localizer({
+      catalogs: {
+        en: {
+          askAge: 'How old are you?'
+        },
+        es: {
+          askAge: '¿Cuántos años tienes?',
+          'parsers.integer.min': 'Introduce un número entero de al menos {min}',
+          'errors.exit': 'Saliste',
+          'errors.rejectionLimit': 'Demasiados intentos',
+          'errors.sessionTimeout': 'Se acabó el tiempo'
+        }
+      },
+      onMissing
+    })
+    it('translates visuals and rejections in the locale of the data', async () => {
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          localizer: createLocalizer(),
+          locale: (data): string|undefined => data.lang
+        }
+      })
+      const result = await tester.run(['es', '10', '20'])
+      expect(result.visuals.map(visual => visual.text)).toEqual(['Language?', '¿Cuántos años tienes?'])
+      expect(result.steps[1].rejection).toEqual('Introduce un número entero de al menos 18')
+      expect(result.data).toEqual({
+        lang: 'es',
+        age: 20
+      })
+    })
+    it('translates the errors of the user', async () => {
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          localizer: createLocalizer(),
+          locale: (data): string|undefined => data.lang
+        }
+      })
+      const result = await tester.run(['es', FlowTester.exit()])
+      expect(result.error).toBeInstanceOf(UserVoluntaryExitError)
+      expect((result.error as Error).message).toEqual('Saliste')
+    })
+    it('translates the errors of rejection limits and session deadlines', async () => {
+      const limited = await new FlowTester(createTree(), {}, {
+        runner: {
+          localizer: createLocalizer(),
+          locale: (data): string|undefined => data.lang,
+          retry: {
+            maxAttempts: 1
+          }
+        }
+      }).run(['es', '10'])
+      expect(limited.error).toBeInstanceOf(UserRejectionLimitError)
+      expect((limited.error as Error).message).toEqual('Demasiados intentos')
+      const timedOut = await new FlowTester(createTree(), { lang: 'es' }, {
+        runner: {
+          localizer: createLocalizer(),
+          locale: (data): string|undefined => data.lang
+        },
+        run: {
+          deadline: 1000
+        }
+      }).run([FlowTester.advance(1000)])
+      expect(timedOut.error).toBeInstanceOf(UserSessionTimeoutError)
+      expect((timedOut.error as Error).message).toEqual('Se acabó el tiempo')
+    })
+    it('reports missing messages and falls back to the default locale', async () => {
+      const onMissing = jest.fn()
+      const tester = new FlowTester(createTree(), {}, {
+        runner: {
+          localizer: createLocalizer(onMissing),
+          locale: (data): string|undefined => data.lang
+        }
+      })
+      const result = await tester.run(['fr', '10'])
+      expect(result.visuals.map(visual => visual.text)).toEqual(['Language?', 'How old are you?'])
+      expect(result.steps[1].rejection).toEqual('Please enter a whole number of at least 18')
+      expect(onMissing).toHaveBeenCalledWith('askAge', 'fr')
+      expect(onMissing).toHaveBeenCalledWith('parsers.integer.min', 'fr')
+    })
+  })
+  describe('rich visuals', () => {
+    type OrderData = {
+      confirmed?: string;
+    }
+    const buttons = [{
+      label: 'Yes',
+      value: 'yes'
+    }, {
+      label: 'No',
+      value: 'no'
+    }]
+    const createNode = (): PromptNode<OrderData, MessageInterface> => new PromptNode(new MyPrompt<OrderData>({
+      text: 'Confirm?',
+      buttons
+    }, async (m, data) => ({
+      ...data,
+      confirmed: m.content
+    })))
+    it('gives the same value for typed numbers on text channels and clicks', async () => {
+      const textChannel = createMockChannel()
+      const typed = new PromptRunner<OrderData, MessageInterface>({}).run(createNode(), textChannel)
+      await flushPromises()
+      expect(textChannel.send).toHaveBeenCalledWith({
+        text: 'Confirm?\n\n1. Yes\n2. No'
+      })
+      emitter.emit('message', createMockMessage('2'))
+      await expect(typed).resolves.toEqual({
+        confirmed: 'no'
+      })
+      emitter = new EventEmitter()
+      jest.spyOn(MyPrompt.prototype, 'createCollector')
+        .mockReturnValue(emitter)
+      const buttonChannel = {
+        ...createMockChannel(),
+        capabilities: {
+          buttons: true
+        }
+      }
+      const clicked = new PromptRunner<OrderData, MessageInterface>({}).run(createNode(), buttonChannel)
+      await flushPromises()
+      expect(buttonChannel.send).toHaveBeenCalledWith({
+        text: 'Confirm?',
+        buttons
+      })
+      emitter.emit('message', VisualRenderer.createClick(createMockMessage(), buttons[1]))
+      await expect(clicked).resolves.toEqual({
+        confirmed: 'no'
+      })
+    })
+    it('gives the same value for typed labels and clicks on channels with buttons', async () => {
+      const channel = {
+        ...createMockChannel(),
+        capabilities: {
+          buttons: true
+        }
+      }
+      const onReject = jest.spyOn(MyPrompt.prototype, 'onReject')
+        .mockResolvedValue()
+      const typed = new PromptRunner<OrderData, MessageInterface>({}).run(createNode(), channel)
+      await flushPromises()
+      emitter.emit('message', createMockMessage('Maybe'))
+      await flushPromises()
+      expect(onReject).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Please choose one of: Yes, No'
+      }), expect.anything(), channel, {}, 1)
+      emitter.emit('message', createMockMessage('yes'))
+      await expect(typed).resolves.toEqual({
+        confirmed: 'yes'
+      })
+      emitter = new EventEmitter()
+      jest.spyOn(MyPrompt.prototype, 'createCollector')
+        .mockReturnValue(emitter)
+      const clicked = new PromptRunner<OrderData, MessageInterface>({}).run(createNode(), channel)
+      await flushPromises()
+      emitter.emit('message', VisualRenderer.createClick(createMockMessage(), buttons[0]))
+      await expect(clicked).resolves.toEqual({
+        confirmed: 'yes'
+      })
+    })
+  })
 })
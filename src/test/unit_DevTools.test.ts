@@ -0,0 +1,130 @@
+import { DevTools } from '../DevTools'
+
+describe('Unit::DevTools', () => {
+  describe('static deepFreeze', () => {
+    it('freezes nested objects and arrays in place', () => {
+      const data = {
+        name: 'George',
+        address: {
+          city: 'Paris'
+        },
+        tags: [{ id: 1 }]
+      }
+      expect(DevTools.deepFreeze(data)).toBe(data)
+      expect(Object.isFrozen(data)).toEqual(true)
+      expect(Object.isFrozen(data.address)).toEqual(true)
+      expect(Object.isFrozen(data.tags)).toEqual(true)
+      expect(Object.isFrozen(data.tags[0])).toEqual(true)
+    })
+    it('does not freeze class instances', () => {
+      const data = {
+        date: new Date(),
+        map: new Map()
+      }
+      DevTools.deepFreeze(data)
+      expect(Object.isFrozen(data.date)).toEqual(false)
+      expect(Object.isFrozen(data.map)).toEqual(false)
+    })
+  })
+  describe('static isMutationError', () => {
+    it('returns true for errors from mutating frozen data', () => {
+      const data = DevTools.deepFreeze({ name: 'George', tags: ['a'] }) as { name: string; age?: number; tags: Array<string> }
+      const mutations = [
+        (): void => {
+          data.name = 'Bob'
+        },
+        (): void => {
+          data.age = 30
+        },
+        (): void => {
+          data.tags.push('b')
+        }
+      ]
+      for (const mutate of mutations) {
+        try {
+          mutate()
+          throw new Error('Expected the mutation to throw')
+        } catch (err) {
+          expect(DevTools.isMutationError(err)).toEqual(true)
+        }
+      }
+    })
+    it('returns false for other errors', () => {
+      expect(DevTools.isMutationError(new TypeError('x is not a function'))).toEqual(false)
+      expect(DevTools.isMutationError(new Error('Cannot assign to read only property'))).toEqual(false)
+    })
+  })
+  describe('static diff', () => {
+    it('returns added, removed and changed fields', () => {
+      expect(DevTools.diff({
+        name: 'George',
+        age: 20,
+        city: 'Paris'
+      }, {
+        name: 'George',
+        age: 30,
+        language: 'en'
+      })).toEqual([{
+        path: ['age'],
+        type: 'changed',
+        before: 20,
+        after: 30
+      }, {
+        path: ['city'],
+        type: 'removed',
+        before: 'Paris'
+      }, {
+        path: ['language'],
+        type: 'added',
+        after: 'en'
+      }])
+    })
+    it('compares nested objects and arrays', () => {
+      expect(DevTools.diff({
+        address: { city: 'Paris' },
+        tags: ['a']
+      }, {
+        address: { city: 'Lyon' },
+        tags: ['a', 'b']
+      })).toEqual([{
+        path: ['address', 'city'],
+        type: 'changed',
+        before: 'Paris',
+        after: 'Lyon'
+      }, {
+        path: ['tags', 1],
+        type: 'added',
+        after: 'b'
+      }])
+    })
+    it('compares dates by their time', () => {
+      expect(DevTools.diff({ at: new Date(0) }, { at: new Date(0) })).toEqual([])
+      expect(DevTools.diff({ at: new Date(0) }, { at: new Date(1) })).toHaveLength(1)
+    })
+    it('returns no changes for equal data', () => {
+      expect(DevTools.diff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+    })
+  })
+  describe('static formatDiff', () => {
+    it('returns a line per change', () => {
+      expect(DevTools.formatDiff([{
+        path: ['age'],
+        type: 'changed',
+        before: 20,
+        after: 30
+      }, {
+        path: ['tags', 0],
+        type: 'removed',
+        before: 'a'
+      }, {
+        path: ['name'],
+        type: 'added',
+        after: 'George'
+      }])).toEqual([
+        '~ data.age: 20 -> 30',
+        '- data.tags[0]: "a"',
+        '+ data.name: "George"'
+      ].join('\n'))
+    })
+  })
+})
@@ -0,0 +1,27 @@
+import { FlowAbortController } from '../FlowAbortController'
+
+describe('Unit::FlowAbortController', () => {
+  it('aborts the signal with the reason', () => {
+    const controller = new FlowAbortController()
+    expect(controller.signal.aborted).toEqual(false)
+    controller.abort('removed')
+    expect(controller.signal.aborted).toEqual(true)
+    expect(controller.signal.reason).toEqual('removed')
+  })
+  it('calls the listeners once', () => {
+    const controller = new FlowAbortController()
+    const listener = jest.fn()
+    controller.signal.addEventListener('abort', listener)
+    controller.abort()
+    controller.abort()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+  it('does not call removed listeners', () => {
+    const controller = new FlowAbortController()
+    const listener = jest.fn()
+    controller.signal.addEventListener('abort', listener)
+    controller.signal.removeEventListener('abort', listener)
+    controller.abort()
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
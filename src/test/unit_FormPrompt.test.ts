@@ -0,0 +1,238 @@
+import { FormPrompt, Form } from '../FormPrompt'
+import { Parsers } from '../Parsers'
+import { EventEmitter } from 'events'
+import { MessageInterface } from '../interfaces/Message'
+import { FormRejection } from '../errors/FormRejection'
+import { Localizer } from '../Localizer'
+
+type Data = {
+  name?: string;
+  age?: number;
+  city?: string;
+}
+
+class MyFormPrompt extends FormPrompt<Data, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+const createMockChannel = (): { send: jest.Mock } => ({
+  send: jest.fn(() => Promise.resolve())
+})
+
+describe('Unit::FormPrompt', () => {
+  const form: Form<Data> = {
+    title: 'Tell us about yourself',
+    fields: [{
+      field: 'name',
+      label: 'Name',
+      parser: Parsers.nonEmpty()
+    }, {
+      field: 'age',
+      label: 'Age',
+      parser: Parsers.integer({ message: 'Not a number' })
+    }, {
+      field: 'city',
+      label: 'City',
+      parser: Parsers.nonEmpty()
+    }]
+  }
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+  it('renders the title and fields as the visual', async () => {
+    const prompt = new MyFormPrompt(form)
+    await expect(prompt.getVisual({})).resolves.toEqual({
+      text: 'Tell us about yourself\nAnswer with: Name, Age, City'
+    })
+  })
+  describe('static parseAnswer', () => {
+    it('parses values in the order of the fields', () => {
+      expect(MyFormPrompt.parseAnswer(form, 'George, 30, Paris')).toEqual({
+        values: {
+          name: 'George',
+          age: 30,
+          city: 'Paris'
+        },
+        failures: []
+      })
+    })
+    it('uses the delimiter', () => {
+      expect(MyFormPrompt.parseAnswer({
+        ...form,
+        delimiter: ';'
+      }, 'George; 30').values).toEqual({
+        name: 'George',
+        age: 30
+      })
+    })
+    it('parses key=value pairs by label or field name', () => {
+      expect(MyFormPrompt.parseAnswer(form, 'CITY=Paris, age = 30')).toEqual({
+        values: {
+          age: 30,
+          city: 'Paris'
+        },
+        failures: []
+      })
+    })
+    it('leaves empty values missing', () => {
+      expect(MyFormPrompt.parseAnswer(form, 'George,,Paris')).toEqual({
+        values: {
+          name: 'George',
+          city: 'Paris'
+        },
+        failures: []
+      })
+    })
+    it('returns the failures of invalid values', () => {
+      expect(MyFormPrompt.parseAnswer(form, 'George, abc')).toEqual({
+        values: {
+          name: 'George'
+        },
+        failures: [{
+          label: 'Age',
+          message: 'Not a number'
+        }]
+      })
+    })
+    it('returns failures for unknown keys and extra values', () => {
+      expect(MyFormPrompt.parseAnswer(form, 'zip=123').failures).toEqual([{
+        label: 'zip',
+        message: 'Unknown field'
+      }])
+      expect(MyFormPrompt.parseAnswer(form, 'a, 1, b, c').failures).toEqual([{
+        label: 'City',
+        message: 'Expected at most 3 values'
+      }])
+    })
+    it('throws errors that are not rejections', () => {
+      const error = new Error('Parser failed')
+      expect(() => MyFormPrompt.parseAnswer({
+        title: 'Form',
+        fields: [{
+          field: 'name',
+          label: 'Name',
+          parser: (): string => {
+            throw error
+          }
+        }]
+      }, 'George')).toThrow(error)
+    })
+  })
+  describe('createMessageFilter', () => {
+    it('passes a complete answer', async () => {
+      const prompt = new MyFormPrompt(form)
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {})
+      const message = { content: 'George, 30, Paris' }
+      await expect(filter(message)).resolves.toEqual(true)
+      expect(prompt.answers.get(message)).toEqual({
+        name: 'George',
+        age: 30,
+        city: 'Paris'
+      })
+      expect(channel.send).not.toHaveBeenCalled()
+    })
+    it('asks for missing fields one at a time', async () => {
+      const prompt = new MyFormPrompt(form)
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {})
+      await expect(filter({ content: 'George' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith({
+        text: 'Please enter Age'
+      })
+      await expect(filter({ content: '30' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith({
+        text: 'Please enter City'
+      })
+      const message = { content: 'Paris, France' }
+      await expect(filter(message)).resolves.toEqual(true)
+      expect(prompt.answers.get(message)).toEqual({
+        name: 'George',
+        age: 30,
+        city: 'Paris, France'
+      })
+    })
+    it('passes invalid answers with a rejection that names the fields', async () => {
+      const prompt = new MyFormPrompt(form)
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {})
+      const message = { content: 'George, abc' }
+      await expect(filter(message)).resolves.toEqual(true)
+      const rejection = prompt.answers.get(message) as FormRejection
+      expect(rejection).toBeInstanceOf(FormRejection)
+      expect(rejection.fields).toEqual(['Age'])
+      expect(rejection.message).toEqual('Age: Not a number\nPlease enter Age')
+    })
+    it('localizes its messages and the rejections of parsers', async () => {
+      const localization = new Localizer({
+        catalogs: {
+          es: {
+            'forms.question': 'Introduce {field}',
+            'forms.unknownField': 'Campo desconocido',
+            'parsers.integer': 'Introduce un número entero'
+          }
+        },
+        onMissing: (): void => undefined
+      }).createContext('es')
+      const prompt = new MyFormPrompt({
+        ...form,
+        fields: [form.fields[0], {
+          field: 'age',
+          label: 'Age',
+          parser: Parsers.integer()
+        }]
+      })
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {}, localization)
+      await expect(filter({ content: 'George' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith({
+        text: 'Introduce Age'
+      })
+      const invalid = { content: 'abc' }
+      await expect(filter(invalid)).resolves.toEqual(true)
+      expect((prompt.answers.get(invalid) as FormRejection).message).toEqual('Age: Introduce un número entero\nIntroduce Age')
+      const unknown = { content: 'colour=red' }
+      await expect(prompt.createMessageFilter(channel, {}, localization)(unknown)).resolves.toEqual(true)
+      expect((prompt.answers.get(unknown) as FormRejection).message).toEqual('colour: Campo desconocido\nIntroduce Name')
+    })
+    it('tracks the values of each collector separately', async () => {
+      const prompt = new MyFormPrompt(form)
+      const channel = createMockChannel()
+      const filter1 = prompt.createMessageFilter(channel, {})
+      const filter2 = prompt.createMessageFilter(channel, {})
+      await filter1({ content: 'George, 30' })
+      await expect(filter2({ content: 'Paris' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith({
+        text: 'Please enter Age'
+      })
+    })
+  })
+  describe('collect', () => {
+    it('merges the values into the data', async () => {
+      const emitter = new EventEmitter()
+      const channel = createMockChannel()
+      const prompt = new MyFormPrompt(form)
+      jest.spyOn(prompt, 'createCollector')
+        .mockReturnValue(emitter)
+      const onReject = jest.spyOn(prompt, 'onReject')
+      const promptRun = prompt.collect(channel, { name: 'Old' })
+      emitter.emit('message', { content: 'age=abc' })
+      emitter.emit('message', { content: 'George' })
+      emitter.emit('message', { content: '30' })
+      emitter.emit('message', { content: 'Paris' })
+      await expect(promptRun).resolves.toEqual({
+        name: 'George',
+        age: 30,
+        city: 'Paris'
+      })
+      expect(onReject).toHaveBeenCalledTimes(1)
+      const [[rejection]] = onReject.mock.calls as unknown as Array<[FormRejection]>
+      expect(rejection.message).toEqual('Age: Not a number\nPlease enter Name')
+    })
+  })
+})
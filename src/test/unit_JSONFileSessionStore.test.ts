@@ -0,0 +1,58 @@
+import { JSONFileSessionStore } from "../stores/JSONFileSessionStore"
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('Unit::JSONFileSessionStore', () => {
+  let path: string
+  beforeEach(() => {
+    path = join(tmpdir(), `prompt-anything-${process.pid}-${Date.now()}.json`)
+  })
+  afterEach(async () => {
+    await fs.unlink(path).catch(() => undefined)
+  })
+  it('returns undefined if the file does not exist', async () => {
+    const store = new JSONFileSessionStore(path)
+    await expect(store.get('key')).resolves.toBeUndefined()
+  })
+  it('persists snapshots to the file', async () => {
+    const store = new JSONFileSessionStore<{ a: number }>(path)
+    const snapshot = {
+      nodeID: 'askAge',
+      data: { a: 1 }
+    }
+    await store.set('key', snapshot)
+    const otherStore = new JSONFileSessionStore<{ a: number }>(path)
+    await expect(otherStore.get('key')).resolves.toEqual(snapshot)
+  })
+  it('does not lose concurrent writes', async () => {
+    const store = new JSONFileSessionStore<{ a: number }>(path)
+    await Promise.all([
+      store.set('key1', { nodeID: '0', data: { a: 1 } }),
+      store.set('key2', { nodeID: '0', data: { a: 2 } }),
+      store.delete('key1')
+    ])
+    await expect(store.get('key1')).resolves.toBeUndefined()
+    await expect(store.get('key2')).resolves.toEqual({ nodeID: '0', data: { a: 2 } })
+  })
+  it('keeps the file intact if a write fails', async () => {
+    const store = new JSONFileSessionStore<{ a: number }>(path)
+    const snapshot = {
+      nodeID: '0',
+      data: { a: 1 }
+    }
+    await store.set('key1', snapshot)
+    const rename = jest.spyOn(fs, 'rename')
+      .mockRejectedValueOnce(new Error('Crashed'))
+    await expect(store.set('key2', snapshot)).rejects.toThrow('Crashed')
+    const tempPath = rename.mock.calls[0][0] as string
+    rename.mockRestore()
+    await expect(fs.readFile(path, 'utf8')).resolves.toEqual(JSON.stringify({
+      key1: snapshot
+    }))
+    expect(tempPath.startsWith(`${path}.`)).toEqual(true)
+    await expect(fs.access(tempPath)).rejects.toThrow()
+    await store.set('key2', snapshot)
+    await expect(store.get('key2')).resolves.toEqual(snapshot)
+  })
+})
@@ -0,0 +1,219 @@
+import { Localizer, BUILT_IN_MESSAGES } from '../Localizer'
+import { Rejection } from '../errors/Rejection'
+
+describe('Unit::Localizer', () => {
+  describe('constructor', () => {
+    it('initializes', () => {
+      const onMissing = jest.fn()
+      const rule = (): 'other' => 'other'
+      const localizer = new Localizer({
+        defaultLocale: 'de',
+        catalogs: {
+          de: {
+            hello: 'Hallo'
+          }
+        },
+        pluralRules: {
+          xx: rule
+        },
+        onMissing
+      })
+      expect(localizer.defaultLocale).toEqual('de')
+      expect(localizer.catalogs.get('de')).toEqual({
+        hello: 'Hallo'
+      })
+      expect(localizer.pluralRules.get('xx')).toEqual(rule)
+      expect(localizer.onMissing).toEqual(onMissing)
+    })
+    it('defaults to english', () => {
+      expect(new Localizer().defaultLocale).toEqual('en')
+    })
+  })
+  describe('addCatalog', () => {
+    it('merges the messages into the catalog of the locale', () => {
+      const localizer = new Localizer({
+        catalogs: {
+          fr: {
+            hello: 'Bonjour',
+            bye: 'Salut'
+          }
+        }
+      })
+      expect(localizer.addCatalog('fr', { bye: 'Au revoir' })).toEqual(localizer)
+      expect(localizer.catalogs.get('fr')).toEqual({
+        hello: 'Bonjour',
+        bye: 'Au revoir'
+      })
+    })
+  })
+  describe('static interpolate', () => {
+    it('replaces the placeholders', () => {
+      expect(Localizer.interpolate('Hi {name}, you are {age}', {
+        name: 'Ana',
+        age: 30
+      })).toEqual('Hi Ana, you are 30')
+    })
+    it('keeps placeholders without parameters', () => {
+      expect(Localizer.interpolate('Hi {name}')).toEqual('Hi {name}')
+    })
+    it('joins arrays', () => {
+      expect(Localizer.interpolate('{choices}', {
+        choices: ['a', 'b']
+      })).toEqual('a, b')
+    })
+  })
+  describe('static format', () => {
+    const message = {
+      one: '{count} item',
+      other: '{count} items'
+    }
+    const rule = (count: number): 'one'|'other' => count === 1 ? 'one' : 'other'
+    it('chooses the plural form of the count', () => {
+      expect(Localizer.format(message, { count: 1 }, rule)).toEqual('1 item')
+      expect(Localizer.format(message, { count: 3 }, rule)).toEqual('3 items')
+    })
+    it('uses the other form for missing categories', () => {
+      expect(Localizer.format(message, { count: 2 }, () => 'few')).toEqual('2 items')
+    })
+  })
+  describe('static getBuiltIn', () => {
+    it('returns the built-in message', () => {
+      expect(Localizer.getBuiltIn('parsers.number.min', { min: 3 }))
+        .toEqual('Please enter a number of at least 3')
+    })
+    it('returns the id of unknown messages', () => {
+      expect(Localizer.getBuiltIn('unknown')).toEqual('unknown')
+    })
+  })
+  describe('getPluralRule', () => {
+    it('returns the given rule of the locale or its language', () => {
+      const rule = (): 'few' => 'few'
+      const localizer = new Localizer({
+        pluralRules: {
+          xx: rule
+        }
+      })
+      expect(localizer.getPluralRule('xx')).toEqual(rule)
+      expect(localizer.getPluralRule('xx-YY')).toEqual(rule)
+    })
+    it('uses Intl.PluralRules otherwise', () => {
+      const rule = new Localizer().getPluralRule('pl')
+      expect(rule(1)).toEqual('one')
+      expect(rule(3)).toEqual('few')
+      expect(rule(5)).toEqual('many')
+    })
+  })
+  describe('translate', () => {
+    it('returns the message of the locale', () => {
+      const localizer = new Localizer({
+        catalogs: {
+          fr: {
+            hello: 'Bonjour {name}'
+          }
+        }
+      })
+      expect(localizer.translate('fr', 'hello', { name: 'Ana' })).toEqual('Bonjour Ana')
+    })
+    it('uses the catalog of the language of the locale', () => {
+      const localizer = new Localizer({
+        catalogs: {
+          pt: {
+            hello: 'Olá'
+          }
+        }
+      })
+      expect(localizer.translate('pt-BR', 'hello')).toEqual('Olá')
+    })
+    it('uses the plural rule of the locale', () => {
+      const localizer = new Localizer({
+        catalogs: {
+          pl: {
+            files: {
+              one: '{count} plik',
+              few: '{count} pliki',
+              other: '{count} plików'
+            }
+          }
+        }
+      })
+      expect(localizer.translate('pl', 'files', { count: 2 })).toEqual('2 pliki')
+      expect(localizer.translate('pl', 'files', { count: 1 })).toEqual('1 plik')
+    })
+    it('has the built-in messages in english', () => {
+      const onMissing = jest.fn()
+      const localizer = new Localizer({ onMissing })
+      expect(localizer.translate('en-GB', 'errors.exit')).toEqual(BUILT_IN_MESSAGES['errors.exit'])
+      expect(onMissing).not.toHaveBeenCalled()
+    })
+    it('reports missing messages once and falls back to the default locale', () => {
+      const onMissing = jest.fn()
+      const localizer = new Localizer({
+        catalogs: {
+          en: {
+            hello: 'Hello'
+          }
+        },
+        onMissing
+      })
+      expect(localizer.translate('fr', 'hello')).toEqual('Hello')
+      expect(localizer.translate('fr', 'hello')).toEqual('Hello')
+      expect(onMissing).toHaveBeenCalledTimes(1)
+      expect(onMissing).toHaveBeenCalledWith('hello', 'fr')
+    })
+    it('falls back to the built-in messages and then the id', () => {
+      const onMissing = jest.fn()
+      const localizer = new Localizer({
+        defaultLocale: 'de',
+        onMissing
+      })
+      expect(localizer.translate('fr', 'errors.exit')).toEqual(BUILT_IN_MESSAGES['errors.exit'])
+      expect(localizer.translate('fr', 'unknown')).toEqual('unknown')
+      expect(onMissing).toHaveBeenCalledWith('errors.exit', 'fr')
+      expect(onMissing).toHaveBeenCalledWith('errors.exit', 'de')
+    })
+    it('does not report missing messages by default', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation()
+      expect(new Localizer().translate('fr', 'hello')).toEqual('hello')
+      expect(warn).not.toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
+  describe('createContext', () => {
+    it('translates in the locale', () => {
+      const localizer = new Localizer({
+        catalogs: {
+          es: {
+            hello: 'Hola'
+          }
+        }
+      })
+      const context = localizer.createContext('es')
+      expect(context.locale).toEqual('es')
+      expect(context.t('hello')).toEqual('Hola')
+    })
+    it('defaults to the default locale', () => {
+      expect(new Localizer().createContext().locale).toEqual('en')
+    })
+  })
+  describe('static localizeRejection', () => {
+    const context = new Localizer({
+      catalogs: {
+        es: {
+          'parsers.yesNo': 'Responde sí o no'
+        }
+      }
+    }).createContext('es')
+    it('translates rejections with an id', () => {
+      const rejection = new Rejection('Please answer yes or no', {
+        id: 'parsers.yesNo'
+      })
+      expect(Localizer.localizeRejection(rejection, context)).toEqual(rejection)
+      expect(rejection.message).toEqual('Responde sí o no')
+    })
+    it('keeps the message of rejections without an id', () => {
+      const rejection = new Rejection('Custom')
+      Localizer.localizeRejection(rejection, context)
+      expect(rejection.message).toEqual('Custom')
+    })
+  })
+})
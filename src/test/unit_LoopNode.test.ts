@@ -0,0 +1,114 @@
+import { LoopNode, Loop } from '../LoopNode'
+import { PromptNode } from '../PromptNode'
+import { Prompt } from '../Prompt'
+import { EventEmitter } from 'events'
+import { MessageInterface } from '../interfaces/Message'
+import { UserLoopStopError } from '../errors/user/UserLoopStopError'
+
+type ItemData = {
+  name?: string;
+}
+
+type ListData = {
+  items?: Array<ItemData>;
+}
+
+class MyPrompt extends Prompt<ItemData, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+const createNode = (options: Partial<Loop<ListData, ItemData, 'items'>> = {}): LoopNode<ListData, ItemData, MessageInterface, 'items'> => {
+  const rootNode = new PromptNode(new MyPrompt({ text: 'Item?' }))
+  return new LoopNode(rootNode, {
+    field: 'items',
+    start: async (): Promise<ItemData> => ({}),
+    ...options
+  })
+}
+
+describe('Unit::LoopNode', () => {
+  describe('constructor', () => {
+    it('initializes', () => {
+      const rootNode = new PromptNode(new MyPrompt({ text: 'Item?' }))
+      const loop: Loop<ListData, ItemData, 'items'> = {
+        field: 'items',
+        start: async () => ({})
+      }
+      const condition = async (): Promise<boolean> => true
+      const node = new LoopNode(rootNode, loop, condition, 'id')
+      expect(node.rootNode).toEqual(rootNode)
+      expect(node.loop).toEqual(loop)
+      expect(node.condition).toEqual(condition)
+      expect(node.id).toEqual('id')
+    })
+  })
+  describe('mapping', () => {
+    it('starts each iteration with the index of its item', async () => {
+      const start = jest.fn(async (): Promise<ItemData> => ({ name: 'a' }))
+      const node = createNode({ start })
+      const data = {
+        items: [{ name: 'first' }]
+      }
+      await expect(node.mapping.input(data)).resolves.toEqual({ name: 'a' })
+      expect(start).toHaveBeenCalledWith(data, 1)
+    })
+    it('appends the item to the field', async () => {
+      const node = createNode()
+      await expect(node.mapping.output({}, { name: 'a' })).resolves.toEqual({
+        items: [{ name: 'a' }]
+      })
+      await expect(node.mapping.output({ items: [{ name: 'a' }] }, { name: 'b' })).resolves.toEqual({
+        items: [{ name: 'a' }, { name: 'b' }]
+      })
+    })
+  })
+  describe('hasRoom', () => {
+    it('returns true with no max', () => {
+      expect(createNode().hasRoom({ items: [{}, {}] })).toEqual(true)
+    })
+    it('returns whether there are fewer items than the max', () => {
+      const node = createNode({ max: 2 })
+      expect(node.hasRoom({ items: [{}] })).toEqual(true)
+      expect(node.hasRoom({ items: [{}, {}] })).toEqual(false)
+    })
+  })
+  describe('shouldRepeat', () => {
+    it('returns true with no stop condition', async () => {
+      await expect(createNode().shouldRepeat({ items: [{}] })).resolves.toEqual(true)
+    })
+    it('returns false once the max is reached', async () => {
+      await expect(createNode({ max: 1 }).shouldRepeat({ items: [{}] })).resolves.toEqual(false)
+    })
+    it('returns false once the stop condition passes', async () => {
+      const until = jest.fn(async (): Promise<boolean> => true)
+      const data = { items: [{}] }
+      await expect(createNode({ until }).shouldRepeat(data)).resolves.toEqual(false)
+      expect(until).toHaveBeenCalledWith(data)
+    })
+    it('ignores the stop condition until the min is reached', async () => {
+      const until = async (): Promise<boolean> => true
+      await expect(createNode({ until, min: 2 }).shouldRepeat({ items: [{}] })).resolves.toEqual(true)
+    })
+  })
+  describe('createStopFilter', () => {
+    it('returns undefined with no stop keyword', () => {
+      expect(createNode().createStopFilter({})).toBeUndefined()
+    })
+    it('returns undefined until the min is reached', () => {
+      expect(createNode({ stopKeyword: 'done', min: 1 }).createStopFilter({})).toBeUndefined()
+    })
+    it('throws a UserLoopStopError for the stop keyword', async () => {
+      const filter = createNode({ stopKeyword: 'done' }).createStopFilter({}) as (message: MessageInterface) => Promise<boolean>
+      await expect(filter({ content: ' DONE ' })).rejects.toThrow(UserLoopStopError)
+    })
+    it('passes other messages', async () => {
+      const filter = createNode({ stopKeyword: 'done' }).createStopFilter({}) as (message: MessageInterface) => Promise<boolean>
+      await expect(filter({ content: 'apple' })).resolves.toEqual(true)
+    })
+  })
+})
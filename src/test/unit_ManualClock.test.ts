@@ -0,0 +1,40 @@
+import { ManualClock } from '../clocks/ManualClock'
+
+describe('Unit::ManualClock', () => {
+  it('runs timers once they are due', () => {
+    const clock = new ManualClock()
+    const callback = jest.fn()
+    clock.setTimeout(callback, 100)
+    expect(clock.advance(99)).toEqual(0)
+    expect(callback).not.toHaveBeenCalled()
+    expect(clock.advance(1)).toEqual(1)
+    expect(callback).toHaveBeenCalledTimes(1)
+    expect(clock.advance(1000)).toEqual(0)
+  })
+  it('runs timers in the order they are due', () => {
+    const clock = new ManualClock()
+    const order: Array<number> = []
+    clock.setTimeout(() => order.push(clock.now()), 200)
+    clock.setTimeout(() => order.push(clock.now()), 100)
+    clock.advance(500)
+    expect(order).toEqual([100, 200])
+    expect(clock.now()).toEqual(500)
+  })
+  it('runs timers set by timers within the same advance', () => {
+    const clock = new ManualClock()
+    const callback = jest.fn()
+    clock.setTimeout(() => clock.setTimeout(callback, 50), 100)
+    clock.advance(149)
+    expect(callback).not.toHaveBeenCalled()
+    clock.advance(1)
+    expect(callback).toHaveBeenCalled()
+  })
+  it('does not run cleared timers', () => {
+    const clock = new ManualClock()
+    const callback = jest.fn()
+    const timer = clock.setTimeout(callback, 100)
+    clock.clearTimeout(timer)
+    clock.advance(100)
+    expect(callback).not.toHaveBeenCalled()
+  })
+})
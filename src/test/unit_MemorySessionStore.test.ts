@@ -0,0 +1,15 @@
+import { MemorySessionStore } from "../stores/MemorySessionStore"
+
+describe('Unit::MemorySessionStore', () => {
+  it('sets, gets and deletes snapshots', async () => {
+    const store = new MemorySessionStore<{ a?: number }>()
+    const snapshot = {
+      nodeID: '0.1',
+      data: { a: 1 }
+    }
+    await store.set('key', snapshot)
+    await expect(store.get('key')).resolves.toEqual(snapshot)
+    await store.delete('key')
+    await expect(store.get('key')).resolves.toBeUndefined()
+  })
+})
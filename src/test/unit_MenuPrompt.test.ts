@@ -0,0 +1,134 @@
+import { MenuPrompt } from '../MenuPrompt'
+import { Prompt } from '../Prompt'
+import { EventEmitter } from 'events'
+import { MessageInterface } from '../interfaces/Message'
+import { Rejection } from '../errors/Rejection'
+
+type Data = {
+  color?: string;
+}
+
+class MyMenuPrompt extends MenuPrompt<Data, MessageInterface, 'color'> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+class MyPrompt extends Prompt<Data, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+describe('Unit::MenuPrompt', () => {
+  const menu = {
+    title: 'Pick a color',
+    field: 'color' as const,
+    options: [{
+      label: 'Red',
+      value: 'red'
+    }, {
+      label: 'Dark Blue',
+      value: 'blue',
+      aliases: ['navy']
+    }]
+  }
+  it('renders the title and numbered options', () => {
+    const prompt = new MyMenuPrompt(menu)
+    expect(prompt.visualGenerator).toEqual({
+      text: 'Pick a color\n1. Red\n2. Dark Blue'
+    })
+  })
+  it('passes the duration and options to the prompt', () => {
+    const retry = {
+      maxAttempts: 2
+    }
+    const prompt = new MyMenuPrompt(menu, 1000, {
+      retry
+    })
+    expect(prompt.duration).toEqual(1000)
+    expect(prompt.retry).toEqual(retry)
+  })
+  describe('static findOption', () => {
+    it('finds options by number', () => {
+      expect(MyMenuPrompt.findOption(menu.options, ' 2 ')).toEqual(menu.options[1])
+    })
+    it('finds options by label and alias, ignoring case', () => {
+      expect(MyMenuPrompt.findOption(menu.options, 'dark blue')).toEqual(menu.options[1])
+      expect(MyMenuPrompt.findOption(menu.options, 'NAVY')).toEqual(menu.options[1])
+      expect(MyMenuPrompt.findOption(menu.options, 'red')).toEqual(menu.options[0])
+    })
+    it('prefers labels and aliases that are numbers over positions', () => {
+      const options = [{
+        label: '2020',
+        value: 2020,
+        aliases: ['2']
+      }, {
+        label: '2021',
+        value: 2021
+      }]
+      expect(MyMenuPrompt.findOption(options, '2020')).toEqual(options[0])
+      expect(MyMenuPrompt.findOption(options, '2')).toEqual(options[0])
+      expect(MyMenuPrompt.findOption(options, '1')).toEqual(options[0])
+    })
+    it('returns undefined for anything else', () => {
+      expect(MyMenuPrompt.findOption(menu.options, '0')).toBeUndefined()
+      expect(MyMenuPrompt.findOption(menu.options, '3')).toBeUndefined()
+      expect(MyMenuPrompt.findOption(menu.options, 'green')).toBeUndefined()
+    })
+  })
+  describe('function', () => {
+    it('sets the value of the selected option', async () => {
+      const prompt = new MyMenuPrompt(menu)
+      const f = prompt.function as Function
+      await expect(f({ content: 'navy' }, {})).resolves.toEqual({
+        color: 'blue'
+      })
+    })
+    it('rejects with the valid choices', async () => {
+      const prompt = new MyMenuPrompt(menu)
+      const f = prompt.function as Function
+      await expect(f({ content: 'green' }, {})).rejects.toThrow(Rejection)
+      await expect(f({ content: 'green' }, {})).rejects.toThrow('Please choose one of: 1. Red, 2. Dark Blue')
+    })
+    it('rejects with the custom message', async () => {
+      const prompt = new MyMenuPrompt({
+        ...menu,
+        message: 'Pick a listed color'
+      })
+      const f = prompt.function as Function
+      await expect(f({ content: 'green' }, {})).rejects.toThrow('Pick a listed color')
+    })
+  })
+  describe('createNodes', () => {
+    it('creates a node per option that branches on the selection', async () => {
+      const prompt = new MyMenuPrompt(menu)
+      const redPrompt = new MyPrompt({ text: 'red' })
+      const bluePrompt = new MyPrompt({ text: 'blue' })
+      const [redNode, blueNode] = prompt.createNodes([redPrompt, bluePrompt])
+      expect(redNode.prompt).toEqual(redPrompt)
+      expect(blueNode.prompt).toEqual(bluePrompt)
+      const redCondition = redNode.condition as Function
+      const blueCondition = blueNode.condition as Function
+      await expect(redCondition({ color: 'red' })).resolves.toEqual(true)
+      await expect(blueCondition({ color: 'red' })).resolves.toEqual(false)
+      await expect(blueCondition({ color: 'blue' })).resolves.toEqual(true)
+    })
+    it('names the conditions after the options', () => {
+      const prompt = new MyMenuPrompt(menu)
+      const [redNode] = prompt.createNodes([new MyPrompt({ text: 'red' }), new MyPrompt({ text: 'blue' })])
+      expect((redNode.condition as Function).name).toEqual('color is Red')
+    })
+    it('throws if the number of prompts does not match the options', () => {
+      const prompt = new MyMenuPrompt(menu)
+      expect(() => prompt.createNodes([new MyPrompt({ text: 'red' })]))
+        .toThrow('Expected 2 prompts for the menu options, but got 1')
+    })
+  })
+})
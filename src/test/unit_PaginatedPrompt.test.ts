@@ -0,0 +1,162 @@
+import { PaginatedPrompt } from '../PaginatedPrompt'
+import { EventEmitter } from 'events'
+import { MessageInterface } from '../interfaces/Message'
+import { Localizer } from '../Localizer'
+
+type Data = {
+  item?: string;
+}
+
+class MyPaginatedPrompt extends PaginatedPrompt<Data, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+const createMockChannel = (): { send: jest.Mock } => ({
+  send: jest.fn(() => Promise.resolve())
+})
+
+describe('Unit::PaginatedPrompt', () => {
+  const list = {
+    title: 'Pick an item',
+    items: ['a', 'b', 'c', 'd', 'e'],
+    pageSize: 2
+  }
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+  it('renders the first page as the visual', async () => {
+    const prompt = new MyPaginatedPrompt(list)
+    await expect(prompt.getVisual({})).resolves.toEqual({
+      text: 'Pick an item\n1. a\n2. b\nPage 1 of 3 (next, prev, page <number>)'
+    })
+  })
+  it('throws for page sizes that are not positive integers', () => {
+    for (const pageSize of [0, -1, 1.5, NaN]) {
+      expect(() => new MyPaginatedPrompt({ ...list, pageSize }))
+        .toThrow(`Page size must be a positive integer, but got ${pageSize}`)
+    }
+  })
+  it('generates the items with the data', async () => {
+    const items = jest.fn().mockResolvedValue(['x'])
+    const prompt = new MyPaginatedPrompt({
+      items,
+      pageSize: 2
+    })
+    const data = {
+      item: 'foo'
+    }
+    await expect(prompt.getVisual(data)).resolves.toEqual({
+      text: '1. x\nPage 1 of 1'
+    })
+    expect(items).toHaveBeenCalledWith(data)
+  })
+  describe('static getPageVisual', () => {
+    it('numbers items across pages', () => {
+      const visual = MyPaginatedPrompt.getPageVisual(list, list.items, 2)
+      expect(visual.text).toEqual('Pick an item\n5. e\nPage 3 of 3 (next, prev, page <number>)')
+    })
+    it('localizes the footer', () => {
+      const localization = new Localizer({
+        catalogs: {
+          es: {
+            'pages.footer': 'Página {page} de {count}',
+            'pages.footer.navigation': 'Página {page} de {count} (next, prev, page <número>)'
+          }
+        }
+      }).createContext('es')
+      expect(MyPaginatedPrompt.getPageVisual(list, list.items, 0, localization).text)
+        .toEqual('Pick an item\n1. a\n2. b\nPágina 1 de 3 (next, prev, page <número>)')
+      expect(MyPaginatedPrompt.getPageVisual(list, ['a'], 0, localization).text)
+        .toEqual('Pick an item\n1. a\nPágina 1 de 1')
+    })
+    it('uses the item formatter', () => {
+      const visual = MyPaginatedPrompt.getPageVisual({
+        ...list,
+        formatItem: (item: string, index: number) => `[${index}] ${item.toUpperCase()}`
+      }, list.items, 1)
+      expect(visual.text).toEqual('Pick an item\n[2] C\n[3] D\nPage 2 of 3 (next, prev, page <number>)')
+    })
+  })
+  describe('static getNavigation', () => {
+    it('returns the next and previous pages', () => {
+      expect(MyPaginatedPrompt.getNavigation('next', 0, 3)).toEqual(1)
+      expect(MyPaginatedPrompt.getNavigation(' PREV ', 2, 3)).toEqual(1)
+      expect(MyPaginatedPrompt.getNavigation('previous', 1, 3)).toEqual(0)
+    })
+    it('returns the page of a page number', () => {
+      expect(MyPaginatedPrompt.getNavigation('page 3', 0, 3)).toEqual(2)
+    })
+    it('stays within the pages', () => {
+      expect(MyPaginatedPrompt.getNavigation('next', 2, 3)).toEqual(2)
+      expect(MyPaginatedPrompt.getNavigation('prev', 0, 3)).toEqual(0)
+      expect(MyPaginatedPrompt.getNavigation('page 9', 0, 3)).toEqual(2)
+    })
+    it('returns null for other input', () => {
+      expect(MyPaginatedPrompt.getNavigation('3', 0, 3)).toEqual(null)
+      expect(MyPaginatedPrompt.getNavigation('nextt', 0, 3)).toEqual(null)
+    })
+  })
+  describe('static findItem', () => {
+    it('returns the item of a number', () => {
+      expect(MyPaginatedPrompt.findItem(list.items, '5')).toEqual('e')
+    })
+    it('returns undefined for other input', () => {
+      expect(MyPaginatedPrompt.findItem(list.items, '6')).toBeUndefined()
+      expect(MyPaginatedPrompt.findItem(list.items, 'a')).toBeUndefined()
+    })
+  })
+  describe('createMessageFilter', () => {
+    it('sends the page of navigation input and filters it out', async () => {
+      const prompt = new MyPaginatedPrompt(list)
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {})
+      await expect(filter({ content: 'next' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith(MyPaginatedPrompt.getPageVisual(list, list.items, 1))
+      await expect(filter({ content: 'next' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith(MyPaginatedPrompt.getPageVisual(list, list.items, 2))
+      await expect(filter({ content: 'page 1' })).resolves.toEqual(false)
+      expect(channel.send).toHaveBeenLastCalledWith(MyPaginatedPrompt.getPageVisual(list, list.items, 0))
+    })
+    it('passes other input', async () => {
+      const prompt = new MyPaginatedPrompt(list)
+      const channel = createMockChannel()
+      const filter = prompt.createMessageFilter(channel, {})
+      await expect(filter({ content: '3' })).resolves.toEqual(true)
+      expect(channel.send).not.toHaveBeenCalled()
+    })
+    it('tracks the page of each collector separately', async () => {
+      const prompt = new MyPaginatedPrompt(list)
+      const channel = createMockChannel()
+      const filter1 = prompt.createMessageFilter(channel, {})
+      const filter2 = prompt.createMessageFilter(channel, {})
+      await filter1({ content: 'next' })
+      await filter2({ content: 'next' })
+      expect(channel.send).toHaveBeenLastCalledWith(MyPaginatedPrompt.getPageVisual(list, list.items, 1))
+    })
+  })
+  describe('collect', () => {
+    it('accepts selections after navigation without rejecting', async () => {
+      const emitter = new EventEmitter()
+      const channel = createMockChannel()
+      const prompt = new MyPaginatedPrompt(list, async (m, data) => ({
+        ...data,
+        item: MyPaginatedPrompt.findItem(list.items, m.content)
+      }))
+      jest.spyOn(prompt, 'createCollector')
+        .mockReturnValue(emitter)
+      const onReject = jest.spyOn(prompt, 'onReject')
+      const promptRun = prompt.collect(channel, {})
+      emitter.emit('message', { content: 'next' })
+      emitter.emit('message', { content: '4' })
+      await expect(promptRun).resolves.toEqual({
+        item: 'd'
+      })
+      expect(onReject).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,192 @@
+import { Parsers } from '../Parsers'
+import { Rejection } from '../errors/Rejection'
+
+describe('Unit::Parsers', () => {
+  describe('static number', () => {
+    it('parses numbers', () => {
+      expect(Parsers.number()(' 2.5 ')).toEqual(2.5)
+      expect(Parsers.number()('-3')).toEqual(-3)
+    })
+    it('rejects text that is not a number', () => {
+      expect(() => Parsers.number()('abc')).toThrow(Rejection)
+      expect(() => Parsers.number()('')).toThrow(Rejection)
+      expect(() => Parsers.number()('Infinity')).toThrow(Rejection)
+    })
+    it('rejects numbers outside of the range', () => {
+      const parse = Parsers.number({ min: 1, max: 10 })
+      expect(parse('1')).toEqual(1)
+      expect(parse('10')).toEqual(10)
+      expect(() => parse('0.5')).toThrow('Please enter a number between 1 and 10')
+      expect(() => parse('11')).toThrow(Rejection)
+    })
+    it('uses the custom message', () => {
+      expect(() => Parsers.number({ message: 'Nope' })('a')).toThrow('Nope')
+    })
+    it('rejects with the id and parameters of the built-in message', () => {
+      try {
+        Parsers.number({ min: 1 })('0')
+        throw new Error('Expected a rejection')
+      } catch (err) {
+        expect(err).toBeInstanceOf(Rejection)
+        expect(err.id).toEqual('parsers.number.min')
+        expect(err.params).toEqual({
+          min: 1,
+          max: undefined
+        })
+      }
+    })
+    it('rejects without an id for custom messages', () => {
+      try {
+        Parsers.number({ message: 'Nope' })('a')
+        throw new Error('Expected a rejection')
+      } catch (err) {
+        expect(err.id).toBeUndefined()
+      }
+    })
+  })
+  describe('static integer', () => {
+    it('parses whole numbers', () => {
+      expect(Parsers.integer()('42')).toEqual(42)
+      expect(Parsers.integer()('-7')).toEqual(-7)
+    })
+    it('rejects decimals and other text', () => {
+      expect(() => Parsers.integer()('4.2')).toThrow(Rejection)
+      expect(() => Parsers.integer()('1e3')).toThrow(Rejection)
+      expect(() => Parsers.integer()('four')).toThrow(Rejection)
+    })
+    it('rejects numbers outside of the range', () => {
+      expect(() => Parsers.integer({ min: 18 })('17')).toThrow('Please enter a whole number of at least 18')
+      expect(() => Parsers.integer({ max: 5 })('6')).toThrow('Please enter a whole number of at most 5')
+    })
+  })
+  describe('static nonEmpty', () => {
+    it('returns the trimmed text', () => {
+      expect(Parsers.nonEmpty()('  hi  ')).toEqual('hi')
+    })
+    it('rejects empty text', () => {
+      expect(() => Parsers.nonEmpty()('   ')).toThrow(Rejection)
+    })
+    it('rejects text outside of the length limits', () => {
+      const parse = Parsers.nonEmpty({ minLength: 2, maxLength: 3 })
+      expect(() => parse('a')).toThrow(Rejection)
+      expect(() => parse('abcd')).toThrow(Rejection)
+      expect(parse('abc')).toEqual('abc')
+    })
+  })
+  describe('static regex', () => {
+    it('accepts matching text', () => {
+      expect(Parsers.regex(/^[a-z]+$/)(' abc ')).toEqual('abc')
+    })
+    it('rejects text that does not match', () => {
+      expect(() => Parsers.regex(/^[a-z]+$/, { message: 'Letters only' })('abc1')).toThrow('Letters only')
+    })
+    it('works with global patterns more than once', () => {
+      const parse = Parsers.regex(/^a/g)
+      expect(parse('a')).toEqual('a')
+      expect(parse('a')).toEqual('a')
+    })
+  })
+  describe('static yesNo', () => {
+    it('parses yes and no synonyms', () => {
+      const parse = Parsers.yesNo()
+      expect(parse('Yes')).toEqual(true)
+      expect(parse('y')).toEqual(true)
+      expect(parse('sure')).toEqual(true)
+      expect(parse('NO')).toEqual(false)
+      expect(parse('nope')).toEqual(false)
+    })
+    it('uses the custom words', () => {
+      const parse = Parsers.yesNo({ yes: ['oui'], no: ['non'] })
+      expect(parse('oui')).toEqual(true)
+      expect(parse('non')).toEqual(false)
+      expect(() => parse('yes')).toThrow(Rejection)
+    })
+    it('rejects other text', () => {
+      expect(() => Parsers.yesNo()('maybe')).toThrow('Please answer yes or no')
+    })
+  })
+  describe('static oneOf', () => {
+    it('returns the choice as written in the list', () => {
+      expect(Parsers.oneOf(['Red', 'Blue'])(' red ')).toEqual('Red')
+    })
+    it('rejects other text with the choices', () => {
+      expect(() => Parsers.oneOf(['Red', 'Blue'])('green')).toThrow('Please enter one of: Red, Blue')
+    })
+    it('compares case if case sensitive', () => {
+      expect(() => Parsers.oneOf(['Red'], { caseSensitive: true })('red')).toThrow(Rejection)
+    })
+  })
+  describe('static email', () => {
+    it('accepts email addresses', () => {
+      expect(Parsers.email()('me@example.com')).toEqual('me@example.com')
+    })
+    it('rejects invalid email addresses', () => {
+      expect(() => Parsers.email()('me@example')).toThrow('Please enter a valid email address')
+      expect(() => Parsers.email()('me @example.com')).toThrow(Rejection)
+    })
+  })
+  describe('static url', () => {
+    it('accepts http urls', () => {
+      expect(Parsers.url()('https://example.com/a')).toEqual('https://example.com/a')
+    })
+    it('rejects invalid urls', () => {
+      expect(() => Parsers.url()('example.com')).toThrow('Please enter a valid URL')
+    })
+    it('rejects other protocols', () => {
+      expect(() => Parsers.url()('ftp://example.com')).toThrow(Rejection)
+      expect(Parsers.url({ protocols: ['ftp:'] })('ftp://example.com')).toEqual('ftp://example.com/')
+    })
+  })
+  describe('static isoDate', () => {
+    it('parses dates and times', () => {
+      expect(Parsers.isoDate()('2020-04-30').toISOString()).toEqual('2020-04-30T00:00:00.000Z')
+      expect(Parsers.isoDate()('2020-04-30T10:20:30Z').toISOString()).toEqual('2020-04-30T10:20:30.000Z')
+    })
+    it('rejects other formats', () => {
+      expect(() => Parsers.isoDate()('04/30/2020')).toThrow(Rejection)
+      expect(() => Parsers.isoDate()('2020-13-01')).toThrow(Rejection)
+    })
+    it('rejects days that do not exist', () => {
+      expect(() => Parsers.isoDate()('2021-02-29')).toThrow(Rejection)
+    })
+  })
+  describe('static list', () => {
+    it('parses every item', () => {
+      expect(Parsers.list(Parsers.integer())('1, 2,,3')).toEqual([1, 2, 3])
+    })
+    it('uses the separator', () => {
+      expect(Parsers.list(Parsers.nonEmpty(), { separator: ';' })('a;b, c')).toEqual(['a', 'b, c'])
+    })
+    it('rejects lists outside of the item limits', () => {
+      const parse = Parsers.list(Parsers.nonEmpty(), { maxItems: 2 })
+      expect(() => parse('a,b,c')).toThrow(Rejection)
+      expect(() => parse(' , ')).toThrow(Rejection)
+    })
+    it('rejects with the rejection of an item', () => {
+      expect(() => Parsers.list(Parsers.integer({ message: 'Bad item' }))('1,a')).toThrow('Bad item')
+    })
+  })
+  describe('static bind', () => {
+    it('sets the parsed value in a copy of the data', async () => {
+      type Data = {
+        name: string;
+        age?: number;
+      }
+      const data: Data = {
+        name: 'George'
+      }
+      const f = Parsers.bind<Data, 'age'>('age', Parsers.integer())
+      await expect(f({ content: '30' }, data)).resolves.toEqual({
+        name: 'George',
+        age: 30
+      })
+      expect(data).toEqual({
+        name: 'George'
+      })
+    })
+    it('rejects with the rejection of the parser', async () => {
+      const f = Parsers.bind<{ age?: number }, 'age'>('age', Parsers.integer())
+      await expect(f({ content: 'abc' }, {})).rejects.toThrow(Rejection)
+    })
+  })
+})
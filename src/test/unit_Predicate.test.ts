@@ -0,0 +1,90 @@
+import { Predicate } from "../loader/Predicate"
+
+describe('Unit::Predicate', () => {
+  describe('static getField', () => {
+    it('returns nested values', () => {
+      expect(Predicate.getField({ a: { b: 1 } }, 'a.b')).toEqual(1)
+      expect(Predicate.getField({ a: 1 }, 'a.b')).toBeUndefined()
+    })
+  })
+  describe('static validate', () => {
+    it('returns no issues for valid predicates', () => {
+      expect(Predicate.validate({
+        or: [{
+          field: 'age',
+          greaterThan: 20
+        }, {
+          not: {
+            field: 'name',
+            equals: 'George'
+          }
+        }]
+      }, '$')).toEqual([])
+    })
+    it('returns the paths of all invalid predicates', () => {
+      expect(Predicate.validate({
+        and: [{
+          field: 'age',
+          greaterThan: '20'
+        }, {
+          field: 'age',
+          equals: 1,
+          lessThan: 2
+        }, {
+          foo: 'bar'
+        }]
+      }, '$.c')).toEqual([{
+        path: '$.c.and[0].greaterThan',
+        message: 'Must be a number'
+      }, {
+        path: '$.c.and[1]',
+        message: 'Field predicate must have exactly one of equals, greaterThan, lessThan, exists'
+      }, {
+        path: '$.c.and[2]',
+        message: 'Predicate must have "and", "or", "not", or a "field" with one operator'
+      }])
+    })
+    it('returns an issue for empty and/or', () => {
+      expect(Predicate.validate({ or: [] }, '$')).toEqual([{
+        path: '$.or',
+        message: 'Must be a non-empty array of predicates'
+      }])
+    })
+  })
+  describe('static test', () => {
+    const data = {
+      name: 'George',
+      age: 30,
+      address: {
+        city: 'Paris'
+      }
+    }
+    it('tests field operators', () => {
+      expect(Predicate.test({ field: 'name', equals: 'George' }, data)).toEqual(true)
+      expect(Predicate.test({ field: 'age', greaterThan: 30 }, data)).toEqual(false)
+      expect(Predicate.test({ field: 'age', lessThan: 31 }, data)).toEqual(true)
+      expect(Predicate.test({ field: 'address.city', exists: true }, data)).toEqual(true)
+      expect(Predicate.test({ field: 'address.zip', exists: false }, data)).toEqual(true)
+    })
+    it('tests and, or and not', () => {
+      expect(Predicate.test({
+        and: [
+          { field: 'name', equals: 'George' },
+          { not: { field: 'age', lessThan: 20 } }
+        ]
+      }, data)).toEqual(true)
+      expect(Predicate.test({
+        or: [
+          { field: 'name', equals: 'Bob' },
+          { field: 'age', greaterThan: 40 }
+        ]
+      }, data)).toEqual(false)
+    })
+  })
+  describe('static compile', () => {
+    it('returns an async condition', async () => {
+      const condition = Predicate.compile({ field: 'age', greaterThan: 20 })
+      await expect(condition({ age: 21 })).resolves.toEqual(true)
+    })
+  })
+})
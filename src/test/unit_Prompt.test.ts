@@ -1,9 +1,16 @@
-import { Prompt, VisualGenerator } from "../Prompt"
+import { Prompt, VisualGenerator, CollectorOptions, CollectorWarning, MessageFilter } from "../Prompt"
 import { EventEmitter } from 'events'
 import { Rejection } from '../errors/Rejection'
 import { MessageInterface } from "../interfaces/Message";
 import { UserVoluntaryExitError } from "../errors/user/UserVoluntaryExitError";
 import { UserInactivityError } from "../errors/user/UserInactivityError";
+import { UserBackError } from "../errors/user/UserBackError";
+import { UserRejectionLimitError } from "../errors/user/UserRejectionLimitError";
+import { FlowAbortedError } from "../errors/FlowAbortedError";
+import { FlowAbortController } from "../FlowAbortController";
+import { ManualClock } from "../clocks/ManualClock";
+import { Localizer } from "../Localizer";
+import { Template } from "../Template";
 
 class MyPrompt<DataType> extends Prompt<DataType, MessageInterface> {
   onReject(): Promise<void> {
@@ -62,7 +69,22 @@ describe('Unit::Prompt', () => {
     expect(prompt.function).toEqual(promptFunc)
     expect(prompt.duration).toEqual(duration)
   })
+  it('compiles template visuals once', () => {
+    const prompt = new MyPrompt<{}>('Hi {{name}}')
+    expect(prompt.template).toBeInstanceOf(Template)
+    expect(prompt.template && prompt.template.source).toEqual('Hi {{name}}')
+    expect(new MyPrompt(promptVis).template).toBeUndefined()
+  })
   describe('getVisual', () => {
+    it('renders the template with the data', async () => {
+      const prompt = new MyPrompt<{ name?: string }>('Hi {{name | "there"}}')
+      await expect(prompt.getVisual({ name: 'Ana' })).resolves.toEqual({
+        text: 'Hi Ana'
+      })
+      await expect(prompt.getVisual({})).resolves.toEqual({
+        text: 'Hi there'
+      })
+    })
     it('returns the function return value if visual generator is func', async () => {
       const prompt = new MyPrompt<{}>(promptVis)
       const visual = {
@@ -78,7 +100,9 @@ describe('Unit::Prompt', () => {
       await expect(prompt.getVisual(data))
         .resolves.toEqual(visual)
       expect(generator)
-        .toHaveBeenCalledWith(data)
+        .toHaveBeenCalledWith(data, expect.objectContaining({
+          locale: 'en'
+        }))
     })
     it('directly returns the value if visual generator is not func', async () => {
       const prompt = new MyPrompt(promptVis)
@@ -116,6 +140,27 @@ describe('Unit::Prompt', () => {
       await Prompt.handleMessage(emitter, message, thisPromptFunc)
       expect(emit).toHaveBeenCalledWith('reject', message, rejectError)
     })
+    it('translates the rejection with the localization', async () => {
+      const message = createMockMessage('rfdeh', authorID)
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const rejectError = new Rejection('Please answer yes or no', {
+        id: 'parsers.yesNo'
+      })
+      const thisPromptFunc = async (): Promise<{}> => {
+        throw rejectError
+      }
+      const localization = new Localizer({
+        catalogs: {
+          es: {
+            'parsers.yesNo': 'Responde sí o no'
+          }
+        }
+      }).createContext('es')
+      await Prompt.handleMessage(emitter, message, thisPromptFunc, {}, localization)
+      expect(emit).toHaveBeenCalledWith('reject', message, rejectError)
+      expect(rejectError.message).toEqual('Responde sí o no')
+    })
     it('emits error if func error is not Rejection', async () => {
       const message = createMockMessage('rfdeh', authorID)
       const emitter = new EventEmitter()
@@ -150,8 +195,8 @@ describe('Unit::Prompt', () => {
       emitter.emit('message', message)
       emitter.emit('message', message2)
       await flushPromises()
-      expect(handleMessage).toHaveBeenCalledWith(emitter, message, promptFunc, data)
-      expect(handleMessage).toHaveBeenCalledWith(emitter, message2, promptFunc, data)
+      expect(handleMessage).toHaveBeenCalledWith(emitter, message, promptFunc, data, undefined)
+      expect(handleMessage).toHaveBeenCalledWith(emitter, message2, promptFunc, data, undefined)
     })
     it('clears timeout on emitter stop', async () => {
       const emitter = new EventEmitter()
@@ -193,6 +238,401 @@ describe('Unit::Prompt', () => {
       expect(emit).toHaveBeenCalledWith('inactivity')
     })
   })
+  describe('static combineFilters', () => {
+    it('returns the only filter', () => {
+      const filter = async (): Promise<boolean> => true
+      expect(Prompt.combineFilters(filter, undefined)).toEqual(filter)
+      expect(Prompt.combineFilters(undefined, filter)).toEqual(filter)
+      expect(Prompt.combineFilters()).toBeUndefined()
+    })
+    it('passes messages that pass both filters', async () => {
+      const second = jest.fn().mockResolvedValue(false)
+      const message = createMockMessage()
+      const rejectFirst = Prompt.combineFilters(async () => false, second) as MessageFilter<MessageInterface>
+      await expect(rejectFirst(message)).resolves.toEqual(false)
+      expect(second).not.toHaveBeenCalled()
+      const rejectSecond = Prompt.combineFilters(async () => true, second) as MessageFilter<MessageInterface>
+      await expect(rejectSecond(message)).resolves.toEqual(false)
+      expect(second).toHaveBeenCalledWith(message)
+      const passBoth = Prompt.combineFilters(async () => true, async () => true) as MessageFilter<MessageInterface>
+      await expect(passBoth(message)).resolves.toEqual(true)
+    })
+  })
+  describe('static parseChoices', () => {
+    const buttons = [{
+      label: 'Yes',
+      value: 'yes'
+    }, {
+      label: 'No',
+      value: 'no'
+    }]
+    it('passes the value of the chosen button as the content', async () => {
+      const func = jest.fn(async (m: MessageInterface, data: { foo?: string }) => ({ ...data, foo: m.content }))
+      const parsed = Prompt.parseChoices<{ foo?: string }, MessageInterface>(func, buttons)
+      await expect(parsed(createMockMessage('2'), {})).resolves.toEqual({ foo: 'no' })
+      await expect(parsed(createMockMessage(' YES '), {})).resolves.toEqual({ foo: 'yes' })
+      await expect(parsed(createMockMessage('no'), {})).resolves.toEqual({ foo: 'no' })
+      expect(func).toHaveBeenLastCalledWith(expect.objectContaining({
+        author: {
+          id: '1'
+        },
+        content: 'no'
+      }), {})
+    })
+    it('rejects other answers without calling the function', async () => {
+      const func = jest.fn()
+      const parsed = Prompt.parseChoices(func, buttons)
+      await expect(parsed(createMockMessage('maybe'), {})).rejects.toThrow(Rejection)
+      expect(func).not.toHaveBeenCalled()
+    })
+  })
+  describe('handleCollector filter', () => {
+    it('calls handleMessage for messages that pass the filter', async () => {
+      const emitter = new EventEmitter()
+      const message = createMockMessage('a')
+      const data = {
+        foo: 'bar'
+      }
+      const handleMessage = jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      const filter = jest.fn().mockResolvedValue(true)
+      Prompt.handleCollector(emitter, promptFunc, data, undefined, {
+        filter
+      })
+      emitter.emit('message', message)
+      await flushPromises()
+      expect(filter).toHaveBeenCalledWith(message)
+      expect(handleMessage).toHaveBeenCalledWith(emitter, message, promptFunc, data, undefined)
+    })
+    it('emits ignore for messages that do not pass the filter', async () => {
+      const emitter = new EventEmitter()
+      const message = createMockMessage('a')
+      const handleMessage = jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      const emit = jest.spyOn(emitter, 'emit')
+      Prompt.handleCollector(emitter, promptFunc, {}, undefined, {
+        filter: async () => false
+      })
+      emitter.emit('message', message)
+      await flushPromises()
+      expect(handleMessage).not.toHaveBeenCalled()
+      expect(emit).toHaveBeenCalledWith('ignore', message)
+    })
+    it('emits error if the filter rejects', async () => {
+      const emitter = new EventEmitter()
+      const error = new Error('filter failed')
+      const errorListener = jest.fn()
+      emitter.on('error', errorListener)
+      jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      Prompt.handleCollector(emitter, promptFunc, {}, undefined, {
+        filter: async () => {
+          throw error
+        }
+      })
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      expect(errorListener).toHaveBeenCalledWith(error)
+    })
+    it('emits input for messages that pass the filter before the message filter', async () => {
+      const emitter = new EventEmitter()
+      const message = createMockMessage('next')
+      const handleMessage = jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      const emit = jest.spyOn(emitter, 'emit')
+      Prompt.handleCollector(emitter, promptFunc, {}, undefined, {
+        filter: async () => true,
+        messageFilter: async () => false
+      })
+      emitter.emit('message', message)
+      await flushPromises()
+      expect(handleMessage).not.toHaveBeenCalled()
+      expect(emit.mock.calls.map(call => call[0])).toEqual(['message', 'input', 'ignore'])
+    })
+  })
+  describe('handleCollector beforeFunction', () => {
+    it('passes the data of the hook to handleMessage', async () => {
+      const emitter = new EventEmitter()
+      const message = createMockMessage('a')
+      const handleMessage = jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      const beforeFunction = jest.fn().mockResolvedValue({
+        data: {
+          foo: 'changed'
+        }
+      })
+      Prompt.handleCollector(emitter, promptFunc, { foo: 'bar' }, undefined, {
+        beforeFunction
+      })
+      emitter.emit('message', message)
+      await flushPromises()
+      expect(beforeFunction).toHaveBeenCalledWith(message, { foo: 'bar' })
+      expect(handleMessage).toHaveBeenCalledWith(emitter, message, promptFunc, { foo: 'changed' }, undefined)
+    })
+    it('emits ignore if the hook skips', async () => {
+      const emitter = new EventEmitter()
+      const message = createMockMessage('a')
+      const handleMessage = jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      const emit = jest.spyOn(emitter, 'emit')
+      Prompt.handleCollector(emitter, promptFunc, {}, undefined, {
+        beforeFunction: async () => ({
+          skip: true
+        })
+      })
+      emitter.emit('message', message)
+      await flushPromises()
+      expect(handleMessage).not.toHaveBeenCalled()
+      expect(emit).toHaveBeenCalledWith('ignore', message)
+    })
+    it('emits error if the hook rejects', async () => {
+      const emitter = new EventEmitter()
+      const error = new Error('hook failed')
+      const errorListener = jest.fn()
+      emitter.on('error', errorListener)
+      jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      Prompt.handleCollector(emitter, promptFunc, {}, undefined, {
+        beforeFunction: async () => {
+          throw error
+        }
+      })
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      expect(errorListener).toHaveBeenCalledWith(error)
+    })
+  })
+  describe('handleCollector clock', () => {
+    it('uses the clock for the inactivity timer', () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      let callback = (): void => undefined
+      const clock = {
+        setTimeout: jest.fn((cb: () => void) => {
+          callback = cb
+          return 'timer'
+        }),
+        clearTimeout: jest.fn(),
+        now: jest.fn()
+      }
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock
+      })
+      expect(clock.setTimeout).toHaveBeenCalledWith(expect.any(Function), 100)
+      callback()
+      expect(emit).toHaveBeenCalledWith('inactivity')
+      emitter.emit('stop')
+      expect(clock.clearTimeout).toHaveBeenCalledWith('timer')
+    })
+  })
+  describe('handleCollector inactivity', () => {
+    it('restarts the timer for every message if sliding', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        sliding: true
+      })
+      clock.advance(90)
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      clock.advance(90)
+      expect(emit).not.toHaveBeenCalledWith('inactivity')
+      clock.advance(10)
+      expect(emit).toHaveBeenCalledWith('inactivity')
+    })
+    it('does not restart the timer if the collector stops while filtering', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      let pass: (passed: boolean) => void = (): void => undefined
+      const func = jest.fn()
+      Prompt.handleCollector(emitter, func, {}, 100, {
+        clock,
+        sliding: true,
+        filter: () => new Promise(resolve => {
+          pass = resolve
+        })
+      })
+      emitter.emit('message', createMockMessage())
+      emitter.emit('stop')
+      pass(true)
+      await flushPromises()
+      expect(clock.timers.size).toEqual(0)
+      expect(emit).not.toHaveBeenCalledWith('input', expect.anything())
+      expect(func).not.toHaveBeenCalled()
+    })
+    it('does not restart the timer for ignored messages', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        sliding: true,
+        filter: async () => false
+      })
+      clock.advance(90)
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      clock.advance(10)
+      expect(emit).toHaveBeenCalledWith('inactivity')
+    })
+    it('does not restart the timer for messages that the message filter ignores', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        sliding: true,
+        messageFilter: async () => false
+      })
+      clock.advance(90)
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      clock.advance(10)
+      expect(emit).toHaveBeenCalledWith('inactivity')
+    })
+    it('restarts the timer for filtered answers if the prompt handles them', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        sliding: true,
+        slideOnFiltered: true,
+        messageFilter: async () => false
+      })
+      clock.advance(90)
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      clock.advance(90)
+      expect(emit).not.toHaveBeenCalledWith('inactivity')
+      clock.advance(10)
+      expect(emit).toHaveBeenCalledWith('inactivity')
+    })
+    it('does not restart the timer if not sliding', async () => {
+      const emitter = new EventEmitter()
+      const emit = jest.spyOn(emitter, 'emit')
+      const clock = new ManualClock()
+      jest.spyOn(Prompt, 'handleMessage')
+        .mockResolvedValue()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock
+      })
+      clock.advance(90)
+      emitter.emit('message', createMockMessage())
+      await flushPromises()
+      clock.advance(10)
+      expect(emit).toHaveBeenCalledWith('inactivity')
+    })
+    it('sends the warning before the timer expires', () => {
+      const emitter = new EventEmitter()
+      const clock = new ManualClock()
+      const send = jest.fn().mockResolvedValue(undefined)
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        warning: {
+          before: 30,
+          send
+        }
+      })
+      clock.advance(69)
+      expect(send).not.toHaveBeenCalled()
+      clock.advance(1)
+      expect(send).toHaveBeenCalledTimes(1)
+    })
+    it('emits error if the warning fails to send', async () => {
+      const emitter = new EventEmitter()
+      const clock = new ManualClock()
+      const error = new Error('send failed')
+      const errorListener = jest.fn()
+      emitter.on('error', errorListener)
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        warning: {
+          before: 30,
+          send: jest.fn().mockRejectedValue(error)
+        }
+      })
+      clock.advance(70)
+      await flushPromises()
+      expect(errorListener).toHaveBeenCalledWith(error)
+    })
+    it('clears the warning timer on stop', () => {
+      const emitter = new EventEmitter()
+      const clock = new ManualClock()
+      Prompt.handleCollector(emitter, promptFunc, {}, 100, {
+        clock,
+        warning: {
+          before: 30,
+          send: jest.fn()
+        }
+      })
+      expect(clock.timers.size).toEqual(2)
+      emitter.emit('stop')
+      expect(clock.timers.size).toEqual(0)
+    })
+  })
+  describe('getInactivity', () => {
+    const warning = {
+      before: 10,
+      visual: {
+        text: 'Hurry'
+      }
+    }
+    it('uses the defaults for what the prompt does not set', () => {
+      const prompt = new MyPrompt(promptVis, promptFunc, 0, {
+        inactivity: {
+          sliding: false
+        }
+      })
+      expect(prompt.getInactivity({
+        duration: 500,
+        sliding: true,
+        warning
+      })).toEqual({
+        duration: 500,
+        sliding: false,
+        warning
+      })
+    })
+    it('prefers the duration of the prompt', () => {
+      const prompt = new MyPrompt(promptVis, promptFunc, 100)
+      expect(prompt.getInactivity({
+        duration: 500
+      })).toEqual({
+        duration: 100
+      })
+    })
+  })
+  describe('sendWarningVisual', () => {
+    it('sends the generated visual', async () => {
+      const prompt = new MyPrompt<{ seconds: number }>(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+        .mockResolvedValue(createMockMessage())
+      const channel = createMockChannel()
+      await prompt.sendWarningVisual({
+        before: 10,
+        visual: async (data): Promise<{ text: string }> => ({
+          text: `${data.seconds} seconds left`
+        })
+      }, channel, {
+        seconds: 10
+      })
+      expect(sendVisual).toHaveBeenCalledWith({
+        text: '10 seconds left'
+      }, channel)
+    })
+  })
+  describe('createMessageFilter', () => {
+    it('returns no filter by default', () => {
+      const prompt = new MyPrompt(promptVis, promptFunc)
+      expect(prompt.createMessageFilter(createMockChannel(), {})).toBeUndefined()
+    })
+  })
   describe('sendUserVisual', () => {
     it('returns the message', async () => {
       const channel = createMockChannel()
@@ -226,6 +666,20 @@ describe('Unit::Prompt', () => {
       await prompt.sendUserVisual(channel, data)
       expect(spy).toHaveBeenCalledWith(visual, channel)
     })
+    it('throws without sending if the signal aborted during generation', async () => {
+      const channel = createMockChannel()
+      const prompt = new MyPrompt(promptVis)
+      const controller = new FlowAbortController()
+      jest.spyOn(prompt, 'getVisual')
+        .mockImplementation(async () => {
+          controller.abort('late')
+          return { text: 'a' }
+        })
+      const spy = jest.spyOn(prompt, 'sendVisual')
+      await expect(prompt.sendUserVisual(channel, {}, undefined, controller.signal))
+        .rejects.toThrow(FlowAbortedError)
+      expect(spy).not.toHaveBeenCalled()
+    })
   })
   describe('sendVisual', () => {
     const visual = {
@@ -238,6 +692,28 @@ describe('Unit::Prompt', () => {
       expect(channel.send)
         .toHaveBeenCalledWith(visual)
     })
+    it('writes the parts the channel cannot show into the text', async () => {
+      const prompt = new MyPrompt(promptVis, promptFunc)
+      const channel = {
+        ...createMockChannel(),
+        capabilities: {
+          buttons: true
+        }
+      }
+      const buttons = [{
+        label: 'Yes',
+        value: 'yes'
+      }]
+      await prompt.sendVisual({
+        title: 'Sure?',
+        text: 'Confirm',
+        buttons
+      }, channel)
+      expect(channel.send).toHaveBeenCalledWith({
+        text: 'Sure?\n\nConfirm',
+        buttons
+      })
+    })
     it('returns the message if it exists', async () => {
       const prompt = new MyPrompt(promptVis, promptFunc)
       const returnedMessage = createMockMessage()
@@ -284,6 +760,72 @@ describe('Unit::Prompt', () => {
       expect(returned[1]).toEqual(message2)
     })
   })
+  describe('sendRetryVisual', () => {
+    it('sends the hint of the attempt', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+        .mockResolvedValue(createMockMessage())
+      const channel = createMockChannel()
+      const hint1 = {
+        text: 'hint1'
+      }
+      const hint2 = {
+        text: 'hint2'
+      }
+      const policy = {
+        maxAttempts: 5,
+        visuals: [hint1, hint2]
+      }
+      await prompt.sendRetryVisual(policy, 1, channel, {})
+      expect(sendVisual).toHaveBeenLastCalledWith(hint1, channel)
+      await prompt.sendRetryVisual(policy, 2, channel, {})
+      expect(sendVisual).toHaveBeenLastCalledWith(hint2, channel)
+    })
+    it('repeats the last hint for later attempts', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+        .mockResolvedValue(createMockMessage())
+      const channel = createMockChannel()
+      const hint = {
+        text: 'hint'
+      }
+      await prompt.sendRetryVisual({
+        maxAttempts: 5,
+        visuals: [hint]
+      }, 3, channel, {})
+      expect(sendVisual).toHaveBeenCalledWith(hint, channel)
+    })
+    it('generates the hint with the data', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+        .mockResolvedValue(createMockMessage())
+      const channel = createMockChannel()
+      const data = {
+        foo: 'bar'
+      }
+      const generator = jest.fn().mockResolvedValue({
+        text: 'generated'
+      })
+      await prompt.sendRetryVisual({
+        maxAttempts: 5,
+        visuals: [generator]
+      }, 1, channel, data)
+      expect(generator).toHaveBeenCalledWith(data, expect.objectContaining({
+        locale: 'en'
+      }))
+      expect(sendVisual).toHaveBeenCalledWith({
+        text: 'generated'
+      }, channel)
+    })
+    it('sends nothing without hints', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+      await prompt.sendRetryVisual({
+        maxAttempts: 5
+      }, 1, createMockChannel(), {})
+      expect(sendVisual).not.toHaveBeenCalled()
+    })
+  })
   describe('collect', () => {
     let emitter: EventEmitter
     let prompt: Prompt<object, MessageInterface>
@@ -317,6 +859,16 @@ describe('Unit::Prompt', () => {
         await expect(promptRun).rejects.toThrow(UserVoluntaryExitError)
       })
     })
+    describe('collector back', () => {
+      it('rejects on collector back', async () => {
+        const data = {
+          foo: 'bbb'
+        }
+        const promptRun = prompt.collect(channel, data)
+        emitter.emit('back')
+        await expect(promptRun).rejects.toThrow(UserBackError)
+      })
+    })
     describe('collector inactivity', () => {
       it('rejects on collector inactivity', async () => {
         const data = {
@@ -326,6 +878,20 @@ describe('Unit::Prompt', () => {
         emitter.emit('inactivity')
         await expect(promptRun).rejects.toThrow(UserInactivityError)
       })
+      it('rejects with the message of the localization', async () => {
+        const localization = new Localizer({
+          catalogs: {
+            fr: {
+              'errors.inactivity': 'Inactif'
+            }
+          }
+        }).createContext('fr')
+        const promptRun = prompt.collect(channel, {}, {
+          localization
+        })
+        emitter.emit('inactivity')
+        await expect(promptRun).rejects.toThrow('Inactif')
+      })
     })
     describe('collector error', () => {
       it('rejects prompt run and terminates', async () => {
@@ -351,7 +917,95 @@ describe('Unit::Prompt', () => {
         emitter.emit('reject', message, rejection, channel, data)
         emitter.emit('stop')
         await flushPromises()
-        expect(onReject).toHaveBeenCalledWith(rejection, message, channel, data)
+        expect(onReject).toHaveBeenCalledWith(rejection, message, channel, data, 1)
+      })
+      it('passes the attempt count to onReject', async () => {
+        const onReject = jest.spyOn(prompt, 'onReject')
+        const data = {}
+        prompt.collect(channel, data)
+        const message = createMockMessage()
+        const rejection = new Rejection('azdsegr')
+        emitter.emit('reject', message, rejection)
+        emitter.emit('reject', message, rejection)
+        emitter.emit('stop')
+        await flushPromises()
+        expect(onReject).toHaveBeenNthCalledWith(2, rejection, message, channel, data, 2)
+      })
+      it('calls the onReject option before onReject', async () => {
+        const calls: Array<string> = []
+        jest.spyOn(prompt, 'onReject')
+          .mockImplementation(async () => {
+            calls.push('prompt')
+          })
+        const onRejectOption = jest.fn(async () => {
+          calls.push('option')
+        })
+        prompt.collect(channel, {}, {
+          onReject: onRejectOption
+        })
+        const message = createMockMessage()
+        const rejection = new Rejection('azdsegr')
+        emitter.emit('reject', message, rejection)
+        await flushPromises()
+        expect(onRejectOption).toHaveBeenCalledWith(message, rejection, 1)
+        expect(calls).toEqual(['option', 'prompt'])
+      })
+      it('emits retry once the rejection is handled', async () => {
+        const emit = jest.spyOn(emitter, 'emit')
+        prompt.collect(channel, {})
+        const message = createMockMessage()
+        const rejection = new Rejection('azdsegr')
+        emitter.emit('reject', message, rejection)
+        await flushPromises()
+        expect(emit).toHaveBeenCalledWith('retry', message, rejection)
+      })
+      it('rejects with the limit error when attempts run out', async () => {
+        const promptWithRetry = new MyPrompt(promptVis, promptFunc, 0, {
+          retry: {
+            maxAttempts: 2
+          }
+        })
+        const onReject = jest.spyOn(promptWithRetry, 'onReject')
+          .mockResolvedValue()
+        const promptRun = promptWithRetry.collect(channel, {})
+        const rejection = new Rejection('azdsegr')
+        emitter.emit('reject', createMockMessage(), rejection)
+        emitter.emit('reject', createMockMessage(), rejection)
+        await expect(promptRun).rejects.toThrow(UserRejectionLimitError)
+        await expect(promptRun).rejects.toMatchObject({
+          attempts: 2,
+          rejection
+        })
+        expect(onReject).toHaveBeenCalledTimes(1)
+      })
+      it('uses the retry policy from the runner options', async () => {
+        const promptRun = prompt.collect(channel, {}, {
+          retry: {
+            maxAttempts: 1
+          }
+        })
+        emitter.emit('reject', createMockMessage(), new Rejection())
+        await expect(promptRun).rejects.toThrow(UserRejectionLimitError)
+      })
+      it('sends the hint of each attempt', async () => {
+        const sendRetryVisual = jest.spyOn(prompt, 'sendRetryVisual')
+          .mockResolvedValue()
+        const retry = {
+          maxAttempts: 3,
+          visuals: [{
+            text: 'hint'
+          }]
+        }
+        const data = {}
+        prompt.collect(channel, data, {
+          retry
+        })
+        emitter.emit('reject', createMockMessage(), new Rejection())
+        emitter.emit('reject', createMockMessage(), new Rejection())
+        emitter.emit('stop')
+        await flushPromises()
+        expect(sendRetryVisual).toHaveBeenCalledTimes(2)
+        expect(sendRetryVisual).toHaveBeenNthCalledWith(2, retry, 2, channel, data, undefined)
       })
       it('handles the error from onReject', async () => {
         const error = new Error('dtguj')
@@ -366,6 +1020,114 @@ describe('Unit::Prompt', () => {
         expect(emit).toHaveBeenCalledWith('stop')
       })
     })
+    it('uses the collector of the runner options', async () => {
+      const otherEmitter = new EventEmitter()
+      const createCollector = jest.fn().mockReturnValue(otherEmitter)
+      const data = {}
+      const promptRun = prompt.collect(channel, data, {
+        createCollector
+      })
+      expect(createCollector).toHaveBeenCalledWith(channel, data)
+      expect(prompt.createCollector).not.toHaveBeenCalled()
+      otherEmitter.emit('accept', createMockMessage(), data)
+      await expect(promptRun).resolves.toEqual(data)
+    })
+    describe('abort signal', () => {
+      it('rejects without collecting if already aborted', async () => {
+        const controller = new FlowAbortController()
+        controller.abort('removed')
+        const createCollector = jest.spyOn(prompt, 'createCollector')
+        const promise = prompt.collect(channel, {}, {
+          signal: controller.signal
+        })
+        await expect(promise).rejects.toThrow(FlowAbortedError)
+        expect(createCollector).not.toHaveBeenCalled()
+      })
+      it('stops the collector and rejects with the reason', async () => {
+        const controller = new FlowAbortController()
+        const stop = jest.fn()
+        emitter.on('stop', stop)
+        const promise = prompt.collect(channel, {}, {
+          signal: controller.signal
+        })
+        controller.abort('removed')
+        await expect(promise).rejects.toEqual(new FlowAbortedError('removed'))
+        await expect(promise).rejects.toHaveProperty('reason', 'removed')
+        expect(stop).toHaveBeenCalled()
+      })
+      it('removes the abort listener once the collector stops', async () => {
+        const controller = new FlowAbortController()
+        prompt.collect(channel, {}, {
+          signal: controller.signal
+        })
+        expect(controller.signal.listeners.size).toEqual(1)
+        emitter.emit('stop')
+        expect(controller.signal.listeners.size).toEqual(0)
+      })
+    })
+    it('passes the inactivity options to the collector', async () => {
+      const handleCollector = jest.spyOn(Prompt, 'handleCollector')
+      const sendWarningVisual = jest.spyOn(prompt, 'sendWarningVisual')
+        .mockResolvedValue()
+      const warning = {
+        before: 10,
+        visual: {
+          text: 'Hurry'
+        }
+      }
+      const data = {}
+      prompt.collect(channel, data, {
+        inactivity: {
+          duration: 100,
+          sliding: true,
+          warning
+        }
+      })
+      expect(handleCollector).toHaveBeenCalledWith(emitter, promptFunc, data, 100, expect.objectContaining({
+        sliding: true,
+        warning: {
+          before: 10,
+          send: expect.any(Function)
+        }
+      }))
+      const options = handleCollector.mock.calls[0][4] as CollectorOptions<{}, MessageInterface>
+      await (options.warning as CollectorWarning).send()
+      expect(sendWarningVisual).toHaveBeenCalledWith(warning, channel, data, undefined)
+    })
+    it('passes the filter of the runner options and the message filter', async () => {
+      const handleCollector = jest.spyOn(Prompt, 'handleCollector')
+      const runnerFilter = jest.fn().mockResolvedValue(false)
+      const promptFilter = jest.fn().mockResolvedValue(true)
+      jest.spyOn(prompt, 'createMessageFilter')
+        .mockReturnValue(promptFilter)
+      prompt.collect(channel, {}, {
+        filter: runnerFilter
+      })
+      const { filter, messageFilter } = handleCollector.mock.calls[0][4] as CollectorOptions<{}, MessageInterface>
+      expect(filter).toBe(runnerFilter)
+      expect(messageFilter).toBe(promptFilter)
+    })
+    it('calls onCollector with the collector', async () => {
+      const onCollector = jest.fn()
+      prompt.collect(channel, {}, {
+        onCollector
+      })
+      expect(onCollector).toHaveBeenCalledWith(emitter)
+    })
+    it('passes the message filter to the collector', async () => {
+      const filter = async (): Promise<boolean> => true
+      const createMessageFilter = jest.spyOn(prompt, 'createMessageFilter')
+        .mockReturnValue(filter)
+      const handleCollector = jest.spyOn(Prompt, 'handleCollector')
+        .mockReturnValue()
+      const data = {}
+      prompt.collect(channel, data)
+      expect(createMessageFilter).toHaveBeenCalledWith(channel, data, undefined)
+      expect(handleCollector).toHaveBeenCalledWith(emitter, promptFunc, data, 0, {
+        messageFilter: filter,
+        slideOnFiltered: false
+      })
+    })
     describe('collector accept', () => {
       it('resolves correctly', async () => {
         const acceptMessage = createMockMessage()
@@ -381,7 +1143,7 @@ describe('Unit::Prompt', () => {
   describe('run', () => {
     it('sends the user visual and starts collecting', async () => {
       const prompt = new MyPrompt(promptVis)
-      const sendUserVisual = jest.spyOn(prompt, 'sendUserVisual')
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
         .mockImplementation()
       const collect = jest.spyOn(prompt, 'collect')
         .mockImplementation()
@@ -390,8 +1152,70 @@ describe('Unit::Prompt', () => {
         foo :'baz'
       }
       await prompt.run(channel, data)
-      expect(sendUserVisual).toHaveBeenCalledWith(channel, data)
-      expect(collect).toHaveBeenCalledWith(channel, data)
+      expect(sendVisual).toHaveBeenCalledWith({ text: 'foobar' }, channel)
+      expect(collect).toHaveBeenCalledWith(channel, data, {}, [])
+    })
+    it('collects with the buttons of the visual', async () => {
+      const buttons = [{
+        label: 'Yes',
+        value: 'yes'
+      }]
+      const prompt = new MyPrompt(async () => [{ text: 'a' }, { text: 'b', buttons }])
+      jest.spyOn(prompt, 'sendVisual')
+        .mockImplementation()
+      const collect = jest.spyOn(prompt, 'collect')
+        .mockImplementation()
+      const channel = createMockChannel()
+      await prompt.run(channel, {})
+      expect(collect).toHaveBeenCalledWith(channel, {}, {}, buttons)
+    })
+    it('passes the runner options to collect', async () => {
+      const prompt = new MyPrompt(promptVis)
+      jest.spyOn(prompt, 'sendVisual')
+        .mockImplementation()
+      const collect = jest.spyOn(prompt, 'collect')
+        .mockImplementation()
+      const channel = createMockChannel()
+      const options = {
+        retry: {
+          maxAttempts: 2
+        }
+      }
+      await prompt.run(channel, {}, options)
+      expect(collect).toHaveBeenCalledWith(channel, {}, options, [])
+    })
+    it('throws without sending the visual if aborted', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const sendVisual = jest.spyOn(prompt, 'sendVisual')
+        .mockImplementation()
+      const controller = new FlowAbortController()
+      controller.abort()
+      await expect(prompt.run(createMockChannel(), {}, {
+        signal: controller.signal
+      })).rejects.toThrow(FlowAbortedError)
+      expect(sendVisual).not.toHaveBeenCalled()
+    })
+    it('calls afterVisualSent after sending the visual', async () => {
+      const prompt = new MyPrompt(promptVis)
+      const calls: Array<string> = []
+      jest.spyOn(prompt, 'sendVisual')
+        .mockImplementation(async () => {
+          calls.push('send')
+          return createMockMessage()
+        })
+      jest.spyOn(prompt, 'collect')
+        .mockImplementation(async () => {
+          calls.push('collect')
+          return {}
+        })
+      const afterVisualSent = jest.fn(async () => {
+        calls.push('hook')
+      })
+      await prompt.run(createMockChannel(), { foo: 'bar' }, {
+        afterVisualSent
+      })
+      expect(afterVisualSent).toHaveBeenCalledWith({ foo: 'bar' })
+      expect(calls).toEqual(['send', 'hook', 'collect'])
     })
   })
 })
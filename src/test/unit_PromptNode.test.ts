@@ -2,6 +2,7 @@ import { PromptNode } from "../PromptNode"
 import { Prompt } from "../Prompt"
 import { EventEmitter } from "events"
 import { MessageInterface } from "../interfaces/Message"
+import { Schemas } from "../Schema"
 
 jest.mock('../Prompt')
 
@@ -140,6 +141,18 @@ describe('Unit::PromptNode', () => {
         .resolves.toEqual(node.children[1])
     })
   })
+  describe('setContract', () => {
+    it('sets the contract and returns this', () => {
+      const node = new PromptNode(new MyPrompt(promptVis))
+      const contract = {
+        output: Schemas.object({
+          name: Schemas.string()
+        })
+      }
+      expect(node.setContract(contract)).toEqual(node)
+      expect(node.contract).toEqual(contract)
+    })
+  })
   describe('addChild', () => {
     it('pushes the node to children', () => {
       const prompt = new MyPrompt(promptVis)
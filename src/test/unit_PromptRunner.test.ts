@@ -1,9 +1,18 @@
-import { Prompt, VisualGenerator, PromptFunction } from "../Prompt"
+import { Prompt, VisualGenerator, PromptFunction, PromptRunOptions, MessageFilter } from "../Prompt"
 import { PromptRunner } from '../PromptRunner'
 import { EventEmitter } from "events"
 import { PromptNode } from "../PromptNode"
 import { ChannelInterface } from "../interfaces/Channel"
 import { MessageInterface } from "../interfaces/Message"
+import { UserBackError } from "../errors/user/UserBackError"
+import { UserRejectionLimitError } from "../errors/user/UserRejectionLimitError"
+import { Rejection } from "../errors/Rejection"
+import { Transcript } from "../Transcript"
+import { FlowAbortController, FlowAbortSignal } from "../FlowAbortController"
+import { FlowAbortedError } from "../errors/FlowAbortedError"
+import { UserSessionTimeoutError } from "../errors/user/UserSessionTimeoutError"
+import { ManualClock } from "../clocks/ManualClock"
+import { Localizer } from "../Localizer"
 
 jest.mock('../Prompt')
 jest.mock('../PromptNode')
@@ -62,6 +71,8 @@ describe('Unit::PromptRunner', () => {
       const prompt = new MyPrompt(promptVis, promptFunc)
       const node = new PromptNode(prompt)
       const runner = new PromptRunner<{}, MessageInterface>({})
+      jest.spyOn(runner, 'getTreeNodeIDs')
+        .mockReturnValue(new Map())
       const executeReturnValue = {
         foo: 'bar'
       }
@@ -70,6 +81,142 @@ describe('Unit::PromptRunner', () => {
       const returned = await runner.run(node, channel)
       expect(returned).toEqual(executeReturnValue)
     })
+    it('passes the run options to this.execute', async () => {
+      jest.spyOn(PromptRunner, 'valid')
+        .mockReturnValue(true)
+      const channel = createMockChannel()
+      const node = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({ a: 1 })
+      jest.spyOn(runner, 'getTreeNodeIDs')
+        .mockReturnValue(new Map())
+      const execute = jest.spyOn(runner, 'execute')
+        .mockResolvedValue({})
+      const options = {
+        signal: new FlowAbortController().signal
+      }
+      await runner.run(node, channel, options)
+      expect(execute).toHaveBeenCalledWith(node, channel, { a: 1 }, options)
+    })
+  })
+  describe('resume', () => {
+    it('executes the node of the snapshot with its data', async () => {
+      jest.spyOn(PromptRunner, 'valid')
+        .mockReturnValue(true)
+      jest.spyOn(PromptRunner, 'checkTemplates')
+        .mockReturnValue()
+      const channel = createMockChannel()
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node2 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      node1.children = [node2]
+      node2.children = []
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        session: {
+          store: {
+            get: jest.fn(),
+            set: jest.fn(),
+            delete: jest.fn()
+          },
+          key: 'abc'
+        }
+      })
+      const execute = jest.spyOn(runner, 'execute')
+        .mockResolvedValue({})
+      const snapshotData = { foo: 'bar' }
+      await runner.resume(node1, channel, {
+        nodeID: '0.0',
+        data: snapshotData
+      })
+      expect(execute).toHaveBeenCalledWith(node2, channel, snapshotData, {})
+    })
+    it('throws if the snapshot node does not exist', async () => {
+      jest.spyOn(PromptRunner, 'valid')
+        .mockReturnValue(true)
+      jest.spyOn(PromptRunner, 'checkTemplates')
+        .mockReturnValue()
+      const channel = createMockChannel()
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      node1.children = []
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      await expect(runner.resume(node1, channel, {
+        nodeID: 'missing',
+        data: {}
+      })).rejects.toThrow('Session node "missing" no longer exists in the tree')
+    })
+  })
+  describe('static getNodeIDs', () => {
+    it('uses explicit ids and child index paths', () => {
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node2 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node3 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      Object.defineProperty(node3, 'id', {
+        value: 'askAge'
+      })
+      node1.children = [node2, node3]
+      node2.children = [node1]
+      node3.children = []
+      const ids = PromptRunner.getNodeIDs(node1)
+      expect(ids.get(node1)).toEqual('0')
+      expect(ids.get(node2)).toEqual('0.0')
+      expect(ids.get(node3)).toEqual('askAge')
+    })
+    it('assigns ids to fallback nodes', () => {
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node2 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const fallback = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      node1.children = [node2]
+      node2.children = []
+      fallback.children = []
+      jest.spyOn(node2, 'getFallback')
+        .mockReturnValue(fallback)
+      const ids = PromptRunner.getNodeIDs(node1)
+      expect(ids.get(fallback)).toEqual('0.0.fallback')
+    })
+    it('throws for duplicate ids', () => {
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node2 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      Object.defineProperty(node2, 'id', {
+        value: '0'
+      })
+      node1.children = [node2]
+      node2.children = []
+      expect(() => PromptRunner.getNodeIDs(node1))
+        .toThrow('Duplicate node ID "0" found in tree')
+    })
+  })
+  describe('saveSession', () => {
+    const createStore = (): { get: jest.Mock; set: jest.Mock; delete: jest.Mock } => ({
+      get: jest.fn(),
+      set: jest.fn(),
+      delete: jest.fn()
+    })
+    it('sets the snapshot of the node', async () => {
+      const store = createStore()
+      const node = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        session: {
+          store,
+          key: 'abc'
+        }
+      })
+      runner.nodeIDs = new Map([[node, 'foo']])
+      const data = { a: 1 }
+      await runner.saveSession(node, data)
+      expect(store.set).toHaveBeenCalledWith('abc', {
+        nodeID: 'foo',
+        data
+      })
+    })
+    it('deletes the snapshot if there is no node', async () => {
+      const store = createStore()
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        session: {
+          store,
+          key: 'abc'
+        }
+      })
+      await runner.saveSession(null, {})
+      expect(store.delete).toHaveBeenCalledWith('abc')
+    })
   })
   describe('static valid', () => {
     it('returns false if root prompt has no valid children', () => {
@@ -161,6 +308,23 @@ describe('Unit::PromptRunner', () => {
         expect(spy).toHaveBeenCalledTimes(1)
       }
     })
+    it('sets the current node', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(null)
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      jest.spyOn(prompt1, 'run')
+        .mockImplementation(async () => {
+          expect(runner.currentNode).toEqual(node1)
+          return {}
+        })
+      expect(runner.currentNode).toBeNull()
+      await runner.execute(node1, channel)
+      expect(prompt1.run).toHaveBeenCalled()
+    })
     it('adds each ran prompt into this.ran', async () => {
       const channel = createMockChannel()
       const prompt1 = new MyPrompt(promptVis, promptFunc)
@@ -227,6 +391,623 @@ describe('Unit::PromptRunner', () => {
       const returned = await runner.execute(node1, channel)
       expect(returned).toEqual(prompt3ReturnData)
     })
+    it('goes back to the previous node with its original data', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const prompt2 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const node2 = new PromptNode(prompt2)
+      node2.prompt = prompt2
+      Object.defineProperty(prompt1, 'function', {
+        value: promptFunc
+      })
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(node2)
+      jest.spyOn(node2, 'getNext')
+        .mockResolvedValue(null)
+      const initialData = { a: 1 }
+      const prompt1Data = { a: 2 }
+      const prompt1Run = jest.spyOn(prompt1, 'run')
+        .mockResolvedValue(prompt1Data)
+      jest.spyOn(prompt2, 'run')
+        .mockRejectedValueOnce(new UserBackError())
+        .mockResolvedValueOnce({ a: 3 })
+      const runner = new PromptRunner<{}, MessageInterface>(initialData)
+      await runner.execute(node1, channel)
+      expect(prompt1Run).toHaveBeenCalledTimes(2)
+      expect(prompt1Run).toHaveBeenNthCalledWith(2, channel, initialData, {})
+      expect(runner.ran).toEqual([prompt1, prompt2])
+    })
+    it('runs the root node again on back at the root', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(null)
+      const initialData = { a: 1 }
+      const prompt1Run = jest.spyOn(prompt1, 'run')
+        .mockRejectedValueOnce(new UserBackError())
+        .mockResolvedValueOnce({})
+      const runner = new PromptRunner<{}, MessageInterface>(initialData)
+      await runner.execute(node1, channel)
+      expect(prompt1Run).toHaveBeenCalledTimes(2)
+      expect(prompt1Run).toHaveBeenNthCalledWith(2, channel, initialData, {})
+    })
+    it('continues at the fallback node when the retry limit is reached', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const prompt2 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const node2 = new PromptNode(prompt2)
+      node2.prompt = prompt2
+      jest.spyOn(node2, 'getNext')
+        .mockResolvedValue(null)
+      const initialData = { a: 1 }
+      jest.spyOn(prompt1, 'run')
+        .mockRejectedValue(new UserRejectionLimitError(3, new Rejection()))
+      const prompt2Run = jest.spyOn(prompt2, 'run')
+        .mockResolvedValue({ a: 2 })
+      const runner = new PromptRunner<{}, MessageInterface>(initialData)
+      jest.spyOn(runner, 'getRejectionFallback')
+        .mockReturnValue(node2)
+      await expect(runner.execute(node1, channel)).resolves.toEqual({ a: 2 })
+      expect(prompt2Run).toHaveBeenCalledWith(channel, initialData, {})
+      expect(runner.ran).toEqual([prompt1, prompt2])
+    })
+    it('throws the retry limit error if there is no fallback', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const error = new UserRejectionLimitError(3, new Rejection())
+      jest.spyOn(prompt1, 'run')
+        .mockRejectedValue(error)
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      jest.spyOn(runner, 'getRejectionFallback')
+        .mockReturnValue(null)
+      await expect(runner.execute(node1, channel)).rejects.toThrow(error)
+    })
+    it('passes the runner retry policy to prompts', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(null)
+      const prompt1Run = jest.spyOn(prompt1, 'run')
+        .mockResolvedValue({})
+      const retry = {
+        maxAttempts: 2
+      }
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry
+      })
+      await runner.execute(node1, channel)
+      expect(prompt1Run).toHaveBeenCalledWith(channel, {}, {
+        retry
+      })
+    })
+  })
+  describe('executeWithDeadline', () => {
+    it('runs the nodes with the options if there is no deadline', async () => {
+      const channel = createMockChannel()
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      const executeNodes = jest.spyOn(runner, 'executeNodes')
+        .mockResolvedValue({ a: 1 })
+      const options = {
+        signal: new FlowAbortController().signal
+      }
+      await expect(runner.executeWithDeadline(node1, channel, {}, options)).resolves.toEqual({ a: 1 })
+      expect(executeNodes).toHaveBeenCalledWith(node1, channel, {}, options)
+    })
+    it('throws if the deadline has passed', async () => {
+      const clock = new ManualClock()
+      clock.advance(100)
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const executeNodes = jest.spyOn(runner, 'executeNodes')
+      await expect(runner.executeWithDeadline(node1, createMockChannel(), {}, {
+        deadline: 100
+      })).rejects.toThrow(UserSessionTimeoutError)
+      expect(executeNodes).not.toHaveBeenCalled()
+    })
+    it('rejects and aborts the nodes once the deadline passes', async () => {
+      const clock = new ManualClock()
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const executeNodes = jest.spyOn(runner, 'executeNodes')
+        .mockReturnValue(new Promise(() => undefined))
+      const promise = runner.executeWithDeadline(node1, createMockChannel(), {}, {
+        deadline: 100
+      })
+      clock.advance(100)
+      await expect(promise).rejects.toThrow(UserSessionTimeoutError)
+      const { signal } = executeNodes.mock.calls[0][3] as { signal: FlowAbortSignal }
+      expect(signal.aborted).toEqual(true)
+      expect(signal.reason).toBeInstanceOf(UserSessionTimeoutError)
+    })
+    it('aborts the nodes with the signal of the run', async () => {
+      const clock = new ManualClock()
+      const controller = new FlowAbortController()
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        clock
+      })
+      const executeNodes = jest.spyOn(runner, 'executeNodes')
+        .mockResolvedValue({})
+      await runner.executeWithDeadline(node1, createMockChannel(), {}, {
+        deadline: 100,
+        signal: controller.signal
+      })
+      const { signal } = executeNodes.mock.calls[0][3] as { signal: FlowAbortSignal }
+      expect(controller.signal.listeners.size).toEqual(0)
+      expect(clock.timers.size).toEqual(0)
+      expect(signal.aborted).toEqual(false)
+    })
+  })
+  describe('execute with signal', () => {
+    it('passes the signal to the prompts', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(null)
+      const run = jest.spyOn(prompt1, 'run')
+        .mockResolvedValue({})
+      const { signal } = new FlowAbortController()
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      await runner.execute(node1, channel, {}, {
+        signal
+      })
+      expect(run).toHaveBeenCalledWith(channel, {}, {
+        signal
+      })
+    })
+    it('rejects before the next node once aborted', async () => {
+      const channel = createMockChannel()
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const prompt2 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const node2 = new PromptNode(prompt2)
+      node2.prompt = prompt2
+      jest.spyOn(node1, 'getNext')
+        .mockResolvedValue(node2)
+      const controller = new FlowAbortController()
+      jest.spyOn(prompt1, 'run')
+        .mockImplementation(async () => {
+          controller.abort('newer command')
+          return {}
+        })
+      const run2 = jest.spyOn(prompt2, 'run')
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      await expect(runner.execute(node1, channel, {}, {
+        signal: controller.signal
+      })).rejects.toEqual(new FlowAbortedError('newer command'))
+      expect(run2).not.toHaveBeenCalled()
+    })
+  })
+  describe('static isFromParticipant', () => {
+    it('returns whether the author is the participant', () => {
+      expect(PromptRunner.isFromParticipant({ content: '', author: { id: '1' } }, '1')).toEqual(true)
+      expect(PromptRunner.isFromParticipant({ content: '', author: { id: '2' } }, '1')).toEqual(false)
+      expect(PromptRunner.isFromParticipant({ content: '' }, '1')).toEqual(false)
+    })
+  })
+  describe('getMessageFilter', () => {
+    it('returns no filter without a participant or message filter', () => {
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      expect(runner.getMessageFilter()).toBeUndefined()
+    })
+    it('passes only messages of the participant', async () => {
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        participant: '1'
+      })
+      const filter = runner.getMessageFilter() as MessageFilter<MessageInterface>
+      await expect(filter({ content: '', author: { id: '1' } })).resolves.toEqual(true)
+      await expect(filter({ content: '', author: { id: '2' } })).resolves.toEqual(false)
+    })
+    it('uses the message filter with the participant', async () => {
+      const messageFilter = jest.fn().mockResolvedValue(true)
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        participant: '1',
+        messageFilter
+      })
+      const filter = runner.getMessageFilter() as MessageFilter<MessageInterface>
+      const message = {
+        content: '',
+        author: {
+          id: '2'
+        }
+      }
+      await expect(filter(message)).resolves.toEqual(true)
+      expect(messageFilter).toHaveBeenCalledWith(message, '1')
+    })
+  })
+  describe('getPromptRunOptions', () => {
+    it('returns the options that prompts use', () => {
+      const retry = {
+        maxAttempts: 1
+      }
+      const clock = {
+        setTimeout: jest.fn(),
+        clearTimeout: jest.fn(),
+        now: jest.fn()
+      }
+      const createCollector = jest.fn()
+      const inactivity = {
+        duration: 1000,
+        sliding: true
+      }
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry,
+        clock,
+        inactivity,
+        createCollector
+      })
+      expect(runner.getPromptRunOptions(new PromptNode(new MyPrompt(promptVis, promptFunc)), createMockChannel(), {})).toEqual({
+        retry,
+        clock,
+        inactivity,
+        createCollector
+      })
+    })
+  })
+  describe('getLocale', () => {
+    type LocaleData = {
+      locale?: string;
+    }
+    it('returns undefined without a localizer', () => {
+      const runner = new PromptRunner<LocaleData, MessageInterface>({}, {
+        locale: (data): string|undefined => data.locale
+      })
+      expect(runner.getLocale({ locale: 'fr' })).toBeUndefined()
+    })
+    it('returns the locale of the data', () => {
+      const runner = new PromptRunner<LocaleData, MessageInterface>({}, {
+        localizer: new Localizer(),
+        locale: (data): string|undefined => data.locale
+      })
+      expect(runner.getLocale({ locale: 'fr' })).toEqual('fr')
+    })
+    it('returns the default locale if the data has none', () => {
+      const runner = new PromptRunner<LocaleData, MessageInterface>({}, {
+        localizer: new Localizer({ defaultLocale: 'de' }),
+        locale: (data): string|undefined => data.locale
+      })
+      expect(runner.getLocale({})).toEqual('de')
+    })
+  })
+  describe('getPromptRunOptions with a localizer', () => {
+    it('returns the localization of the locale of the data', () => {
+      const runner = new PromptRunner<{ locale?: string }, MessageInterface>({ locale: 'es' }, {
+        localizer: new Localizer({
+          catalogs: {
+            es: {
+              hello: 'Hola'
+            }
+          }
+        }),
+        locale: (data): string|undefined => data.locale
+      })
+      const options = runner.getPromptRunOptions(new PromptNode(new MyPrompt(promptVis, promptFunc)), createMockChannel(), { locale: 'es' })
+      const localization = options.localization as Required<PromptRunOptions<{}, MessageInterface>>['localization']
+      expect(localization.locale).toEqual('es')
+      expect(localization.t('hello')).toEqual('Hola')
+    })
+  })
+  describe('use', () => {
+    it('registers plugins after the ones of the options', () => {
+      const plugin1 = {}
+      const plugin2 = {}
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        plugins: [plugin1]
+      })
+      expect(runner.use(plugin2)).toEqual(runner)
+      expect(runner.plugins).toEqual([plugin1, plugin2])
+    })
+  })
+  describe('callHooks', () => {
+    it('calls the hooks in order', async () => {
+      const calls: Array<number> = []
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        plugins: [{
+          onComplete: async (): Promise<void> => {
+            calls.push(1)
+          }
+        }, {}, {
+          onComplete: async (): Promise<void> => {
+            calls.push(2)
+          }
+        }]
+      })
+      const node = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const context = {
+        node,
+        data: {},
+        channel: createMockChannel()
+      }
+      await runner.callHooks(plugin => plugin.onComplete && plugin.onComplete(context))
+      expect(calls).toEqual([1, 2])
+    })
+  })
+  describe('applyHooks', () => {
+    const node = new PromptNode(new MyPrompt(promptVis, promptFunc))
+    const channel = createMockChannel()
+    it('passes the data of each hook to the next', async () => {
+      const beforeNode2 = jest.fn().mockResolvedValue(undefined)
+      const runner = new PromptRunner<{ a?: number }, MessageInterface>({}, {
+        plugins: [{
+          beforeNode: async (): Promise<{ data: { a: number } }> => ({
+            data: {
+              a: 1
+            }
+          })
+        }, {
+          beforeNode: beforeNode2
+        }]
+      })
+      const result = await runner.applyHooks({ node, data: {}, channel }, (plugin, context) => plugin.beforeNode && plugin.beforeNode(context))
+      expect(beforeNode2).toHaveBeenCalledWith({
+        node,
+        data: {
+          a: 1
+        },
+        channel
+      })
+      expect(result).toEqual({
+        data: {
+          a: 1
+        }
+      })
+    })
+    it('stops at the first hook that skips', async () => {
+      const beforeNode2 = jest.fn()
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        plugins: [{
+          beforeNode: async (): Promise<{ skip: boolean }> => ({
+            skip: true
+          })
+        }, {
+          beforeNode: beforeNode2
+        }]
+      })
+      const result = await runner.applyHooks({ node, data: {}, channel }, (plugin, context) => plugin.beforeNode && plugin.beforeNode(context))
+      expect(beforeNode2).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        data: {},
+        skip: true
+      })
+    })
+  })
+  describe('getPromptRunOptions with plugins', () => {
+    it('calls the hooks of the plugins with the node', async () => {
+      const plugin = {
+        afterVisualSent: jest.fn().mockResolvedValue(undefined),
+        beforeFunction: jest.fn().mockResolvedValue({
+          skip: true
+        }),
+        onReject: jest.fn().mockResolvedValue(undefined)
+      }
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        plugins: [plugin]
+      })
+      const node = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const channel = createMockChannel()
+      const data = {
+        foo: 1
+      }
+      const options = runner.getPromptRunOptions(node, channel, data) as Required<PromptRunOptions<{}, MessageInterface>>
+      const context = {
+        node,
+        data,
+        channel
+      }
+      const message = {
+        content: 'a'
+      }
+      const rejection = new Rejection('bad')
+      await options.afterVisualSent(data)
+      await expect(options.beforeFunction(message, data)).resolves.toEqual({
+        data,
+        skip: true
+      })
+      await options.onReject(message, rejection, 2)
+      expect(plugin.afterVisualSent).toHaveBeenCalledWith(context)
+      expect(plugin.beforeFunction).toHaveBeenCalledWith(context, message)
+      expect(plugin.onReject).toHaveBeenCalledWith(context, message, rejection, 2)
+    })
+  })
+  describe('execute with transcript', () => {
+    it('runs the nodes with the recorded channel and records the end', async () => {
+      const channel = createMockChannel()
+      const transcript = new Transcript()
+      const wrappedChannel = createMockChannel()
+      jest.spyOn(transcript, 'wrapChannel')
+        .mockReturnValue(wrappedChannel)
+      const recordEnd = jest.spyOn(transcript, 'recordEnd')
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        transcript
+      })
+      const executeNodes = jest.spyOn(runner, 'executeNodes')
+        .mockResolvedValue({ a: 1 })
+      await expect(runner.execute(node1, channel)).resolves.toEqual({ a: 1 })
+      expect(executeNodes).toHaveBeenCalledWith(node1, wrappedChannel, {}, {})
+      expect(recordEnd).toHaveBeenCalledWith()
+    })
+    it('records the error the run ended with', async () => {
+      const transcript = new Transcript()
+      const recordEnd = jest.spyOn(transcript, 'recordEnd')
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        transcript
+      })
+      const error = new Error('Broken')
+      jest.spyOn(runner, 'executeNodes')
+        .mockRejectedValue(error)
+      await expect(runner.execute(node1, createMockChannel())).rejects.toThrow(error)
+      expect(recordEnd).toHaveBeenCalledWith(error)
+    })
+    it('records node transitions', () => {
+      const transcript = new Transcript()
+      const record = jest.spyOn(transcript, 'record')
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const node2 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        transcript
+      })
+      runner.nodeIDs.set(node1, 'a')
+      runner.nodeIDs.set(node2, 'b')
+      runner.recordTransition(null, node1)
+      runner.recordTransition(node1, node2)
+      expect(record).toHaveBeenCalledWith({
+        type: 'transition',
+        from: null,
+        to: 'a'
+      })
+      expect(record).toHaveBeenCalledWith({
+        type: 'transition',
+        from: 'a',
+        to: 'b'
+      })
+      runner.recordTransition(node2, null)
+      expect(record).toHaveBeenCalledTimes(2)
+    })
+    it('records the start and end of a child tree with the parent node', () => {
+      const transcript = new Transcript()
+      const record = jest.spyOn(transcript, 'record')
+      const node1 = new PromptNode(new MyPrompt(promptVis, promptFunc))
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        transcript,
+        subFlow: true,
+        parentNodeID: 'parent'
+      })
+      runner.nodeIDs.set(node1, 'parent.flow')
+      runner.recordTransition(null, node1)
+      runner.recordTransition(node1, null)
+      expect(record.mock.calls).toEqual([[{
+        type: 'transition',
+        from: 'parent',
+        to: 'parent.flow'
+      }], [{
+        type: 'transition',
+        from: 'parent.flow',
+        to: 'parent'
+      }]])
+    })
+  })
+  describe('getTreeNodeIDs', () => {
+    it('includes the subtree of the runner fallback', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      const fallback = new PromptNode(prompt1)
+      node1.children = []
+      fallback.children = []
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry: {
+          maxAttempts: 1,
+          fallback
+        }
+      })
+      const ids = runner.getTreeNodeIDs(node1)
+      expect(ids.get(node1)).toEqual('0')
+      expect(ids.get(fallback)).toEqual('fallback')
+    })
+  })
+  describe('getRejectionFallback', () => {
+    const limitError = new UserRejectionLimitError(3, new Rejection())
+    it('returns null for other errors', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry: {
+          maxAttempts: 1,
+          fallback: new PromptNode(prompt1)
+        }
+      })
+      expect(runner.getRejectionFallback(node1, new Error())).toEqual(null)
+    })
+    it('returns the fallback of the prompt policy first', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const promptFallback = new PromptNode(prompt1)
+      const runnerFallback = new PromptNode(prompt1)
+      Object.defineProperty(prompt1, 'retry', {
+        value: {
+          maxAttempts: 1,
+          fallback: promptFallback
+        }
+      })
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry: {
+          maxAttempts: 1,
+          fallback: runnerFallback
+        }
+      })
+      expect(runner.getRejectionFallback(node1, limitError)).toEqual(promptFallback)
+    })
+    it('returns the fallback of the runner policy', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const runnerFallback = new PromptNode(prompt1)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const runner = new PromptRunner<{}, MessageInterface>({}, {
+        retry: {
+          maxAttempts: 1,
+          fallback: runnerFallback
+        }
+      })
+      expect(runner.getRejectionFallback(node1, limitError)).toEqual(runnerFallback)
+    })
+    it('returns null without a fallback', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      expect(runner.getRejectionFallback(node1, limitError)).toEqual(null)
+    })
+  })
+  describe('popHistory', () => {
+    it('returns the last entry whose prompt has a function', () => {
+      const prompt1 = new MyPrompt(promptVis, promptFunc)
+      const prompt2 = new MyPrompt(promptVis)
+      Object.defineProperty(prompt1, 'function', {
+        value: promptFunc
+      })
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const node2 = new PromptNode(prompt2)
+      node2.prompt = prompt2
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      const entry1 = { node: node1, data: { a: 1 } }
+      const entry2 = { node: node2, data: { a: 2 } }
+      runner.history.push(entry1, entry2)
+      expect(runner.popHistory()).toEqual(entry1)
+      expect(runner.history).toEqual([])
+    })
+    it('returns null if no entry has a function', () => {
+      const prompt1 = new MyPrompt(promptVis)
+      const node1 = new PromptNode(prompt1)
+      node1.prompt = prompt1
+      const runner = new PromptRunner<{}, MessageInterface>({})
+      const entry1 = { node: node1, data: { a: 1 } }
+      runner.history.push(entry1)
+      expect(runner.popHistory()).toEqual(null)
+      expect(runner.history).toEqual([entry1])
+    })
   })
   describe('indexesOf', () => {
     it('calls indexOf', () => {
@@ -371,7 +1152,7 @@ describe('Unit::PromptRunner', () => {
       const run = jest.spyOn(runner, 'run')
         .mockResolvedValue({})
       await runner.runArray([], channel)
-      expect(run).toHaveBeenCalledWith(prompt3Node, channel)
+      expect(run).toHaveBeenCalledWith(prompt3Node, channel, {})
     })
     it('return the result of this.run if matched node', async () => {
       const prompt3 = new MyPrompt(promptVis, promptFunc)
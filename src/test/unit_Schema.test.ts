@@ -0,0 +1,136 @@
+import { Schemas, InferSchema } from '../Schema'
+
+describe('Unit::Schema', () => {
+  describe('static string', () => {
+    it('accepts strings', () => {
+      expect(Schemas.string().validate('a')).toEqual([])
+      expect(Schemas.string().validate(1)).toEqual([{
+        path: [],
+        message: 'Expected a string'
+      }])
+    })
+  })
+  describe('static number', () => {
+    it('accepts numbers other than NaN', () => {
+      expect(Schemas.number().validate(1.5)).toEqual([])
+      expect(Schemas.number().validate(NaN)).toHaveLength(1)
+      expect(Schemas.number().validate('1')).toHaveLength(1)
+    })
+  })
+  describe('static boolean', () => {
+    it('accepts booleans', () => {
+      expect(Schemas.boolean().validate(false)).toEqual([])
+      expect(Schemas.boolean().validate(0)).toHaveLength(1)
+    })
+  })
+  describe('static date', () => {
+    it('accepts valid dates', () => {
+      expect(Schemas.date().validate(new Date(0))).toEqual([])
+      expect(Schemas.date().validate(new Date('x'))).toHaveLength(1)
+      expect(Schemas.date().validate('2020-01-01')).toHaveLength(1)
+    })
+  })
+  describe('static unknown', () => {
+    it('accepts anything', () => {
+      expect(Schemas.unknown().validate(undefined)).toEqual([])
+    })
+  })
+  describe('static oneOf', () => {
+    it('accepts the given values', () => {
+      const schema = Schemas.oneOf(['en', 'es'])
+      expect(schema.validate('es')).toEqual([])
+      expect(schema.validate('fr')).toEqual([{
+        path: [],
+        message: 'Expected one of: en, es'
+      }])
+    })
+  })
+  describe('static array', () => {
+    it('returns the issues of items with their index', () => {
+      const schema = Schemas.array(Schemas.number())
+      expect(schema.validate([1, 2])).toEqual([])
+      expect(schema.validate([1, 'a'])).toEqual([{
+        path: [1],
+        message: 'Expected a number'
+      }])
+      expect(schema.validate({})).toEqual([{
+        path: [],
+        message: 'Expected an array'
+      }])
+    })
+  })
+  describe('static object', () => {
+    const schema = Schemas.object({
+      name: Schemas.string(),
+      age: Schemas.optional(Schemas.number()),
+      address: Schemas.optional(Schemas.object({
+        city: Schemas.string()
+      }))
+    })
+    it('accepts objects with valid fields', () => {
+      expect(schema.validate({ name: 'George' })).toEqual([])
+      expect(schema.validate({ name: 'George', age: 30, extra: true })).toEqual([])
+    })
+    it('returns the issues of fields with their paths', () => {
+      expect(schema.validate({ age: 'a', address: {} })).toEqual([{
+        path: ['name'],
+        message: 'Required'
+      }, {
+        path: ['age'],
+        message: 'Expected a number'
+      }, {
+        path: ['address', 'city'],
+        message: 'Required'
+      }])
+    })
+    it('rejects values that are not objects', () => {
+      expect(schema.validate(null)).toHaveLength(1)
+      expect(schema.validate([])).toHaveLength(1)
+    })
+    it('infers the type of the objects', () => {
+      type Profile = InferSchema<typeof schema>
+      const profile: Profile = {
+        name: 'George'
+      }
+      const withAddress: Profile = {
+        name: 'George',
+        address: {
+          city: 'Paris'
+        }
+      }
+      expect(schema.validate(profile)).toEqual([])
+      expect(schema.validate(withAddress)).toEqual([])
+    })
+  })
+  describe('static hasPath', () => {
+    const schema = Schemas.object({
+      name: Schemas.string(),
+      address: Schemas.optional(Schemas.object({
+        city: Schemas.string()
+      })),
+      tags: Schemas.array(Schemas.string()),
+      extra: Schemas.unknown()
+    })
+    it('returns whether the fields exist', () => {
+      expect(Schemas.hasPath(schema, ['name'])).toEqual(true)
+      expect(Schemas.hasPath(schema, ['address', 'city'])).toEqual(true)
+      expect(Schemas.hasPath(schema, ['address', 'zip'])).toEqual(false)
+      expect(Schemas.hasPath(schema, ['nmae'])).toEqual(false)
+    })
+    it('accepts indices and the length of arrays', () => {
+      expect(Schemas.hasPath(schema, ['tags', 0])).toEqual(true)
+      expect(Schemas.hasPath(schema, ['tags', 'length'])).toEqual(true)
+      expect(Schemas.hasPath(schema, ['tags', 'first'])).toEqual(false)
+      expect(Schemas.hasPath(schema, ['tags', 'length', 'x'])).toEqual(false)
+    })
+    it('does not check within schemas without fields', () => {
+      expect(Schemas.hasPath(schema, ['extra', 'anything'])).toEqual(true)
+    })
+  })
+  describe('static formatPath', () => {
+    it('formats keys and indices', () => {
+      expect(Schemas.formatPath([])).toEqual('data')
+      expect(Schemas.formatPath(['items', 0, 'name'])).toEqual('data.items[0].name')
+    })
+  })
+})
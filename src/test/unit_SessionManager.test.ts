@@ -0,0 +1,186 @@
+import { SessionManager } from '../SessionManager'
+import { PromptRunner, PromptRunnerRunOptions } from '../PromptRunner'
+import { PromptNode } from '../PromptNode'
+import { Prompt } from '../Prompt'
+import { MessageInterface } from '../interfaces/Message'
+import { ManualClock } from '../clocks/ManualClock'
+import { SessionConflictError } from '../errors/SessionConflictError'
+import { FlowAbortedError } from '../errors/FlowAbortedError'
+import { EventEmitter } from 'events'
+
+class MyPrompt extends Prompt<{}, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+async function flushPromises(): Promise<void> {
+  return new Promise(resolve => {
+    setImmediate(resolve);
+  });
+}
+
+type Deferred = {
+  promise: Promise<{}>;
+  resolve: (data: {}) => void;
+  reject: (err: Error) => void;
+}
+
+const createDeferred = (): Deferred => {
+  const deferred = {} as Deferred
+  deferred.promise = new Promise((resolve, reject) => {
+    deferred.resolve = resolve
+    deferred.reject = reject
+  })
+  return deferred
+}
+
+/**
+ * Create a runner whose run settles with the deferred, or
+ * rejects once its signal is aborted
+ */
+const createRunner = (deferred = createDeferred()): PromptRunner<{}, MessageInterface> => {
+  const runner = new PromptRunner<{}, MessageInterface>({})
+  jest.spyOn(runner, 'run')
+    .mockImplementation((rootNode, channel, options: PromptRunnerRunOptions = {}) => {
+      const { signal } = options
+      if (signal) {
+        signal.addEventListener('abort', () => deferred.reject(new FlowAbortedError(signal.reason)))
+      }
+      return deferred.promise
+    })
+  return runner
+}
+
+describe('Unit::SessionManager', () => {
+  const key = {
+    userID: 'user',
+    channelID: 'channel'
+  }
+  const node = new PromptNode(new MyPrompt({
+    text: 'hi'
+  }))
+  const channel = {
+    send: jest.fn()
+  }
+  it('runs the tree with the signal of the session', async () => {
+    const manager = new SessionManager<{}, MessageInterface>()
+    const deferred = createDeferred()
+    const runner = createRunner(deferred)
+    const promise = manager.start(key, runner, node, channel, {
+      deadline: 100
+    })
+    await flushPromises()
+    expect(runner.run).toHaveBeenCalledWith(node, channel, {
+      deadline: 100,
+      signal: manager.sessions[0].controller.signal
+    })
+    deferred.resolve({ a: 1 })
+    await expect(promise).resolves.toEqual({ a: 1 })
+  })
+  it('removes sessions once they end', async () => {
+    const manager = new SessionManager<{}, MessageInterface>()
+    const resolved = createDeferred()
+    const rejected = createDeferred()
+    const promise1 = manager.start(key, createRunner(resolved), node, channel)
+    const promise2 = manager.start({ userID: 'other', channelID: 'channel' }, createRunner(rejected), node, channel)
+    expect(manager.has(key)).toEqual(true)
+    resolved.resolve({})
+    rejected.reject(new Error('Broken'))
+    await promise1
+    await expect(promise2).rejects.toThrow('Broken')
+    await flushPromises()
+    expect(manager.sessions).toEqual([])
+    expect(manager.has(key)).toEqual(false)
+  })
+  it('rejects a second session by default', async () => {
+    const manager = new SessionManager<{}, MessageInterface>()
+    manager.start(key, createRunner(), node, channel)
+    const runner = createRunner()
+    await expect(manager.start(key, runner, node, channel)).rejects.toThrow(SessionConflictError)
+    expect(runner.run).not.toHaveBeenCalled()
+    expect(manager.sessions).toHaveLength(1)
+  })
+  it('replaces the existing session', async () => {
+    const manager = new SessionManager<{}, MessageInterface>({
+      policy: 'replace'
+    })
+    const first = manager.start(key, createRunner(), node, channel)
+    await flushPromises()
+    const deferred = createDeferred()
+    const second = manager.start(key, createRunner(deferred), node, channel)
+    await expect(first).rejects.toThrow(FlowAbortedError)
+    deferred.resolve({ b: 1 })
+    await expect(second).resolves.toEqual({ b: 1 })
+  })
+  it('queues sessions until the existing ones end', async () => {
+    const manager = new SessionManager<{}, MessageInterface>({
+      policy: 'queue'
+    })
+    const deferred1 = createDeferred()
+    const deferred2 = createDeferred()
+    const runner2 = createRunner(deferred2)
+    const first = manager.start(key, createRunner(deferred1), node, channel)
+    const second = manager.start(key, runner2, node, channel)
+    await flushPromises()
+    expect(runner2.run).not.toHaveBeenCalled()
+    expect(manager.list().map(info => info.queued)).toEqual([false, true])
+    deferred1.resolve({})
+    await first
+    await flushPromises()
+    expect(runner2.run).toHaveBeenCalled()
+    deferred2.resolve({ c: 1 })
+    await expect(second).resolves.toEqual({ c: 1 })
+  })
+  it('lists sessions with their node and elapsed time', async () => {
+    const clock = new ManualClock()
+    const manager = new SessionManager<{}, MessageInterface>({
+      clock
+    })
+    const runner = createRunner()
+    runner.currentNode = node
+    manager.start(key, runner, node, channel)
+    clock.advance(500)
+    expect(manager.list()).toEqual([{
+      key,
+      queued: false,
+      node,
+      elapsed: 500
+    }])
+  })
+  it('cancels the sessions of a key', async () => {
+    const manager = new SessionManager<{}, MessageInterface>({
+      policy: 'queue'
+    })
+    const first = manager.start(key, createRunner(), node, channel)
+    const runner2 = createRunner()
+    const second = manager.start(key, runner2, node, channel)
+    const other = manager.start({ userID: 'other', channelID: 'channel' }, createRunner(), node, channel)
+    await flushPromises()
+    expect(manager.cancel(key, 'removed')).toEqual(2)
+    await expect(first).rejects.toEqual(new FlowAbortedError('removed'))
+    await expect(second).rejects.toHaveProperty('reason', 'removed')
+    // Queued sessions do not start once cancelled
+    expect(runner2.run).not.toHaveBeenCalled()
+    await flushPromises()
+    expect(manager.list().map(info => info.key.userID)).toEqual(['other'])
+    manager.cancelChannel('channel')
+    await expect(other).rejects.toThrow(FlowAbortedError)
+  })
+  it('cancels every session in a channel', async () => {
+    const manager = new SessionManager<{}, MessageInterface>()
+    const first = manager.start({ userID: 'a', channelID: 'channel' }, createRunner(), node, channel)
+    const second = manager.start({ userID: 'b', channelID: 'channel' }, createRunner(), node, channel)
+    const deferred = createDeferred()
+    const elsewhere = manager.start({ userID: 'a', channelID: 'elsewhere' }, createRunner(deferred), node, channel)
+    await flushPromises()
+    expect(manager.cancelChannel('channel')).toEqual(2)
+    await expect(first).rejects.toThrow(FlowAbortedError)
+    await expect(second).rejects.toThrow(FlowAbortedError)
+    deferred.resolve({})
+    await expect(elsewhere).resolves.toEqual({})
+  })
+})
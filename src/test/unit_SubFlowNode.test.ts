@@ -0,0 +1,56 @@
+import { SubFlowNode, SubFlowPrompt } from '../SubFlowNode'
+import { PromptNode } from '../PromptNode'
+import { Prompt } from '../Prompt'
+import { EventEmitter } from 'events'
+import { MessageInterface } from '../interfaces/Message'
+import { ChannelInterface } from '../interfaces/Channel'
+
+class MyPrompt extends Prompt<{}, MessageInterface> {
+  async onReject (): Promise<void> {
+    return
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+const mapping = {
+  input: async (): Promise<{}> => ({}),
+  output: async (data: {}): Promise<{}> => data
+}
+
+describe('Unit::SubFlowNode', () => {
+  describe('constructor', () => {
+    it('initializes', () => {
+      const rootNode = new PromptNode(new MyPrompt({ text: 'child' }))
+      const condition = async (): Promise<boolean> => true
+      const node = new SubFlowNode(rootNode, mapping, condition, 'id')
+      expect(node.rootNode).toEqual(rootNode)
+      expect(node.mapping).toEqual(mapping)
+      expect(node.condition).toEqual(condition)
+      expect(node.id).toEqual('id')
+      expect(node.prompt).toBeInstanceOf(SubFlowPrompt)
+    })
+    it('has no function', () => {
+      const node = new SubFlowNode(new PromptNode(new MyPrompt({ text: 'child' })), mapping)
+      expect(node.prompt.function).toBeUndefined()
+    })
+  })
+  describe('SubFlowPrompt', () => {
+    const channel: ChannelInterface<MessageInterface> = {
+      send: async () => ({ content: '' })
+    }
+    it('has no visual', async () => {
+      const prompt = new SubFlowPrompt<{}, MessageInterface>()
+      await expect(prompt.getVisual({})).resolves.toEqual([])
+    })
+    it('cannot run by itself', async () => {
+      const prompt = new SubFlowPrompt<{}, MessageInterface>()
+      await expect(prompt.run(channel, {})).rejects.toThrow('Sub-flows can only be run by a PromptRunner')
+    })
+    it('does not create collectors', () => {
+      const prompt = new SubFlowPrompt<{}, MessageInterface>()
+      expect(() => prompt.createCollector(channel, {})).toThrow('Sub-flows do not collect messages')
+    })
+  })
+})
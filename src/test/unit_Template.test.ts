@@ -0,0 +1,121 @@
+import { Template } from '../Template'
+import { Schemas } from '../Schema'
+import { TemplateSyntaxError } from '../errors/TemplateSyntaxError'
+
+describe('Unit::Template', () => {
+  describe('constructor', () => {
+    it('compiles the source', () => {
+      const template = new Template('Hi {{name}}!')
+      expect(template.source).toEqual('Hi {{name}}!')
+      expect(template.nodes).toEqual([{
+        type: 'text',
+        text: 'Hi '
+      }, {
+        type: 'value',
+        path: {
+          expression: 'name',
+          scope: 'data',
+          keys: ['name'],
+          fieldPath: ['name']
+        },
+        fallback: undefined
+      }, {
+        type: 'text',
+        text: '!'
+      }])
+    })
+  })
+  describe('static parse', () => {
+    it('throws for unclosed blocks', () => {
+      expect(() => new Template('{{#if a}}yes')).toThrow(new TemplateSyntaxError('{{#if a}}yes', 'Missing {{/if}}'))
+    })
+    it('throws for mismatched closing tags', () => {
+      expect(() => new Template('{{#if a}}yes{{/each}}')).toThrow('Unexpected {{/each}}')
+    })
+    it('throws for else outside of if blocks', () => {
+      expect(() => new Template('{{else}}')).toThrow('{{else}} must be within an if block')
+    })
+    it('throws for unknown tags', () => {
+      expect(() => new Template('{{#with a}}{{/with}}')).toThrow('Unknown tag "{{#with a}}"')
+    })
+    it('throws for invalid paths', () => {
+      expect(() => new Template('{{a..b}}')).toThrow('Invalid path "a..b"')
+      expect(() => new Template('{{}}')).toThrow('Invalid path ""')
+    })
+    it('throws for loop paths outside of each blocks', () => {
+      expect(() => new Template('{{this.name}}')).toThrow('"this.name" can only be used within an each block')
+      expect(() => new Template('{{@index}}')).toThrow('"@index" can only be used alone within an each block')
+    })
+  })
+  describe('render', () => {
+    it('renders values and nested paths', () => {
+      const template = new Template('{{name}} lives in {{address.city}}, item {{items.1}}')
+      expect(template.render({
+        name: 'Ana',
+        address: {
+          city: 'Lima'
+        },
+        items: ['a', 'b']
+      })).toEqual('Ana lives in Lima, item b')
+    })
+    it('renders fallbacks for missing values', () => {
+      const template = new Template('Hi {{user.name | "friend"}}{{suffix | \'!\'}}{{missing}}')
+      expect(template.render({})).toEqual('Hi friend!')
+    })
+    it('renders conditionals', () => {
+      const template = new Template('{{#if vip}}Welcome back{{else}}Hello{{/if}}, {{name}}')
+      expect(template.render({ vip: true, name: 'Ana' })).toEqual('Welcome back, Ana')
+      expect(template.render({ vip: false, name: 'Ana' })).toEqual('Hello, Ana')
+    })
+    it('treats empty arrays as false', () => {
+      const template = new Template('{{#if items}}some{{else}}none{{/if}}')
+      expect(template.render({ items: [] })).toEqual('none')
+      expect(template.render({ items: [1] })).toEqual('some')
+    })
+    it('renders loops with the item and index', () => {
+      const template = new Template('{{#each items}}{{@number}}. {{this.name}} ({{@index}})\n{{/each}}')
+      expect(template.render({
+        items: [{ name: 'a' }, { name: 'b' }]
+      })).toEqual('1. a (0)\n2. b (1)\n')
+    })
+    it('renders nested loops', () => {
+      const template = new Template('{{#each groups}}{{this.name}}:{{#each this.tags}} {{this}}{{/each}};{{/each}}')
+      expect(template.render({
+        groups: [{ name: 'x', tags: ['a', 'b'] }, { name: 'y', tags: [] }]
+      })).toEqual('x: a b;y:;')
+    })
+    it('renders nothing for loops over values that are not arrays', () => {
+      expect(new Template('{{#each items}}{{this}}{{/each}}').render({})).toEqual('')
+    })
+    it('joins arrays and formats dates', () => {
+      const template = new Template('{{tags}} at {{date}}')
+      expect(template.render({
+        tags: ['a', 'b'],
+        date: new Date('2020-04-30T00:00:00Z')
+      })).toEqual('a, b at 2020-04-30T00:00:00.000Z')
+    })
+  })
+  describe('findUnknownFields', () => {
+    const schema = Schemas.object({
+      name: Schemas.string(),
+      address: Schemas.optional(Schemas.object({
+        city: Schemas.string()
+      })),
+      items: Schemas.array(Schemas.object({
+        label: Schemas.string()
+      })),
+      extra: Schemas.unknown()
+    })
+    it('returns the paths that are not in the schema', () => {
+      const template = new Template('{{nmae}} {{address.city}} {{address.zip}} {{#each items}}{{this.label}}{{this.lable}}{{/each}} {{items.length}} {{extra.anything}}')
+      expect(template.findUnknownFields(schema)).toEqual(['nmae', 'address.zip', 'this.lable'])
+    })
+    it('returns the paths of conditionals and loops', () => {
+      const template = new Template('{{#if vip}}{{/if}}{{#each things}}{{/each}}')
+      expect(template.findUnknownFields(schema)).toEqual(['vip', 'things'])
+    })
+    it('returns each path once', () => {
+      expect(new Template('{{a}}{{a}}').findUnknownFields(schema)).toEqual(['a'])
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { Transcript } from '../Transcript'
+import { ManualClock } from '../clocks/ManualClock'
+import { EventEmitter } from 'events'
+import { Rejection } from '../errors/Rejection'
+import { UserVoluntaryExitError } from '../errors/user/UserVoluntaryExitError'
+import { UserInactivityError } from '../errors/user/UserInactivityError'
+
+describe('Unit::Transcript', () => {
+  it('records entries with the time of the clock', () => {
+    const clock = new ManualClock()
+    const transcript = new Transcript(clock)
+    clock.advance(1000)
+    transcript.record({
+      type: 'message',
+      content: 'hello'
+    })
+    expect(transcript.entries).toEqual([{
+      time: 1000,
+      type: 'message',
+      content: 'hello'
+    }])
+  })
+  describe('wrapChannel', () => {
+    it('records and sends visuals', async () => {
+      const transcript = new Transcript(new ManualClock())
+      const message = {
+        content: 'sent'
+      }
+      const channel = {
+        send: jest.fn().mockResolvedValue(message)
+      }
+      const wrapped = transcript.wrapChannel(channel)
+      const visual = {
+        text: 'Hi'
+      }
+      await expect(wrapped.send(visual)).resolves.toEqual(message)
+      expect(channel.send).toHaveBeenCalledWith(visual)
+      expect(transcript.entries).toEqual([{
+        time: 0,
+        type: 'visual',
+        text: 'Hi',
+        visual
+      }])
+    })
+    it('keeps the other properties of the channel', () => {
+      const transcript = new Transcript(new ManualClock())
+      class MyChannel {
+        id = 'abc'
+        async send (): Promise<{ content: string }> {
+          return {
+            content: ''
+          }
+        }
+        getID (): string {
+          return this.id
+        }
+      }
+      const wrapped = transcript.wrapChannel(new MyChannel())
+      expect(wrapped.id).toEqual('abc')
+      expect(wrapped.getID()).toEqual('abc')
+    })
+  })
+  describe('watchCollector', () => {
+    it('records messages and rejections', () => {
+      const transcript = new Transcript(new ManualClock())
+      const collector = new EventEmitter()
+      transcript.watchCollector(collector)
+      const message = {
+        content: 'abc'
+      }
+      collector.emit('input', message)
+      collector.emit('reject', message, new Rejection('Not a number'))
+      expect(transcript.entries).toEqual([{
+        time: 0,
+        type: 'message',
+        content: 'abc'
+      }, {
+        time: 0,
+        type: 'rejection',
+        content: 'abc',
+        reason: 'Not a number'
+      }])
+    })
+  })
+  describe('recordEnd', () => {
+    it('records the reason of the end', () => {
+      const transcript = new Transcript(new ManualClock())
+      transcript.recordEnd()
+      transcript.recordEnd(new UserVoluntaryExitError())
+      transcript.recordEnd(new UserInactivityError())
+      transcript.recordEnd(new Error('Broken'))
+      expect(transcript.entries).toEqual([{
+        time: 0,
+        type: 'end',
+        reason: 'completed'
+      }, {
+        time: 0,
+        type: 'end',
+        reason: 'exit'
+      }, {
+        time: 0,
+        type: 'end',
+        reason: 'inactivity'
+      }, {
+        time: 0,
+        type: 'end',
+        reason: 'error',
+        error: 'Broken'
+      }])
+    })
+  })
+  describe('exports', () => {
+    const createTranscript = (): Transcript => {
+      const transcript = new Transcript(new ManualClock())
+      transcript.record({
+        type: 'transition',
+        from: null,
+        to: 'askAge'
+      })
+      transcript.record({
+        type: 'visual',
+        text: 'How old are you?',
+        visual: {
+          text: 'How old are you?'
+        }
+      })
+      transcript.record({
+        type: 'message',
+        content: 'abc'
+      })
+      transcript.record({
+        type: 'rejection',
+        content: 'abc',
+        reason: 'Not a number'
+      })
+      transcript.record({
+        type: 'transition',
+        from: 'askAge',
+        to: 'done'
+      })
+      transcript.record({
+        type: 'end',
+        reason: 'error',
+        error: 'Broken'
+      })
+      return transcript
+    }
+    it('exports JSON Lines', () => {
+      const transcript = createTranscript()
+      const lines = transcript.toJSONLines().split('\n')
+      expect(lines).toHaveLength(6)
+      expect(lines.map(line => JSON.parse(line))).toEqual(transcript.entries)
+    })
+    it('exports plain text', () => {
+      expect(createTranscript().toText()).toEqual([
+        '[1970-01-01T00:00:00.000Z] NODE: start -> askAge',
+        '[1970-01-01T00:00:00.000Z] BOT: How old are you?',
+        '[1970-01-01T00:00:00.000Z] USER: abc',
+        '[1970-01-01T00:00:00.000Z] REJECTED: abc (Not a number)',
+        '[1970-01-01T00:00:00.000Z] NODE: askAge -> done',
+        '[1970-01-01T00:00:00.000Z] END: error (Broken)'
+      ].join('\n'))
+    })
+  })
+})
@@ -0,0 +1,194 @@
+import { TreeAnalyzer } from "../TreeAnalyzer"
+import { Prompt, PromptFunction } from "../Prompt"
+import { PromptNode } from "../PromptNode"
+import { MessageInterface } from "../interfaces/Message"
+import { EventEmitter } from "events"
+import { Schemas } from "../Schema"
+import { SubFlowNode } from "../SubFlowNode"
+
+class MyPrompt extends Prompt<{}, MessageInterface> {
+  onReject(): Promise<void> {
+    throw new Error("Method not implemented.")
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+describe('Unit::TreeAnalyzer', () => {
+  const promptFunc: PromptFunction<{}, MessageInterface> = async () => ({})
+  const condition = async (): Promise<boolean> => true
+  const createNode = (id: string, f?: PromptFunction<{}, MessageInterface>, nodeCondition?: () => Promise<boolean>): PromptNode<{}, MessageInterface> => {
+    return new PromptNode(new MyPrompt({ text: id }, f), nodeCondition, id)
+  }
+  describe('static analyze', () => {
+    it('returns no diagnostics for a valid tree', () => {
+      const root = createNode('root', promptFunc)
+      const a = createNode('a', promptFunc, condition)
+      const b = createNode('b', undefined, condition)
+      root.setChildren([a, b])
+      // A loop that can be left
+      a.setChildren([root])
+      expect(TreeAnalyzer.analyze(root)).toEqual([])
+    })
+    it('reports unconditional children before siblings', () => {
+      const root = createNode('root', promptFunc)
+      const a = createNode('a', promptFunc, condition)
+      const b = createNode('b', promptFunc)
+      const c = createNode('c', promptFunc, condition)
+      root.setChildren([a, b, c])
+      expect(TreeAnalyzer.analyze(root)).toEqual([{
+        severity: 'error',
+        code: 'missing-condition',
+        message: 'Node has siblings but no condition',
+        path: ['root', 'b']
+      }, {
+        severity: 'error',
+        code: 'unreachable-sibling',
+        message: 'Node is unreachable since its earlier sibling "b" has no condition',
+        path: ['root', 'c']
+      }])
+    })
+    it('reports cycles that cannot be left', () => {
+      const root = createNode('root', promptFunc)
+      const a = createNode('a', promptFunc)
+      const b = createNode('b', promptFunc)
+      root.setChildren([a])
+      a.setChildren([b])
+      b.setChildren([a])
+      expect(TreeAnalyzer.analyze(root)).toEqual([{
+        severity: 'error',
+        code: 'inescapable-cycle',
+        message: 'Cycle through "b", "a" has no node that can leave it',
+        path: ['root', 'a']
+      }])
+    })
+    it('allows cycles that end when no condition matches', () => {
+      const menu = createNode('menu', promptFunc)
+      const again = createNode('again', promptFunc, condition)
+      const other = createNode('other', promptFunc, condition)
+      menu.setChildren([again, other])
+      again.setChildren([menu])
+      other.setChildren([menu])
+      expect(TreeAnalyzer.analyze(menu)).toEqual([])
+    })
+    it('reports nodes with no function with children after collecting nodes', () => {
+      const root = createNode('root', promptFunc)
+      const a = createNode('a')
+      const b = createNode('b')
+      root.setChildren([a])
+      a.setChildren([b])
+      expect(TreeAnalyzer.analyze(root)).toEqual([{
+        severity: 'warning',
+        code: 'passthrough-node',
+        message: 'Node has no function but has children after the collecting node "root", so its children run without waiting for input',
+        path: ['root', 'a']
+      }])
+    })
+    it('reports nodes attached under several parents', () => {
+      const root = createNode('root', promptFunc)
+      const a = createNode('a', promptFunc, condition)
+      const b = createNode('b', promptFunc, condition)
+      const shared = createNode('shared', promptFunc)
+      root.setChildren([a, b])
+      a.setChildren([shared])
+      b.setChildren([shared])
+      expect(TreeAnalyzer.analyze(root)).toEqual([{
+        severity: 'warning',
+        code: 'shared-node',
+        message: 'Node is attached under several parents: "a", "b"',
+        path: ['root', 'a', 'shared']
+      }])
+    })
+    it('analyzes fallback nodes and the child trees of sub-flows', () => {
+      const help = createNode('help', promptFunc)
+      help.setChildren([createNode('x'), createNode('y')])
+      const root = new PromptNode(new MyPrompt({ text: 'root' }, promptFunc, 0, {
+        retry: {
+          maxAttempts: 2,
+          fallback: help
+        }
+      }), undefined, 'root')
+      const a = createNode('a', promptFunc)
+      const b = createNode('b', promptFunc)
+      a.setChildren([b])
+      b.setChildren([a])
+      root.setChildren([
+        new SubFlowNode<{}, {}, MessageInterface>(a, {
+          input: async (): Promise<{}> => ({}),
+          output: async (data): Promise<{}> => data
+        }, undefined, 'address')
+      ])
+      expect(TreeAnalyzer.analyze(root)).toEqual([{
+        severity: 'error',
+        code: 'missing-condition',
+        message: 'Node has siblings but no condition',
+        path: ['root', 'help', 'x']
+      }, {
+        severity: 'error',
+        code: 'missing-condition',
+        message: 'Node has siblings but no condition',
+        path: ['root', 'help', 'y']
+      }, {
+        severity: 'error',
+        code: 'unreachable-sibling',
+        message: 'Node is unreachable since its earlier sibling "x" has no condition',
+        path: ['root', 'help', 'y']
+      }, {
+        severity: 'error',
+        code: 'inescapable-cycle',
+        message: 'Cycle through "address.flow.b", "address.flow.a" has no node that can leave it',
+        path: ['root', 'address', 'address.flow.a']
+      }])
+    })
+  })
+  describe('static analyze with templates', () => {
+    const schema = Schemas.object({
+      name: Schemas.string()
+    })
+    it('reports templates with fields that are not in the schema of the tree', () => {
+      const root = new PromptNode(new MyPrompt('Hi {{nmae}}, {{name}}', promptFunc), undefined, 'root')
+      expect(TreeAnalyzer.analyze(root, { schema })).toEqual([{
+        severity: 'error',
+        code: 'unknown-template-field',
+        message: 'Template uses unknown fields: "nmae"',
+        path: ['root']
+      }])
+    })
+    it('checks the input contract of the node instead', () => {
+      const root = new PromptNode(new MyPrompt('Age {{age}}', promptFunc), undefined, 'root')
+        .setContract({
+          input: Schemas.object({
+            age: Schemas.number()
+          })
+        })
+      expect(TreeAnalyzer.analyze(root, { schema })).toEqual([])
+    })
+    it('does not check child trees against the schema of the tree', () => {
+      const root = new SubFlowNode<{}, {}, MessageInterface>(new PromptNode(new MyPrompt('Street {{street}}', promptFunc)), {
+        input: async (): Promise<{}> => ({}),
+        output: async (data): Promise<{}> => data
+      }, undefined, 'address')
+      expect(TreeAnalyzer.analyze(root, { schema })).toEqual([])
+    })
+    it('does not check templates without a schema', () => {
+      const root = new PromptNode(new MyPrompt('Hi {{nmae}}', promptFunc), undefined, 'root')
+      expect(TreeAnalyzer.analyze(root)).toEqual([])
+    })
+  })
+  describe('static hasErrors', () => {
+    it('returns whether any diagnostic is an error', () => {
+      const warning = {
+        severity: 'warning' as const,
+        code: 'a',
+        message: 'a',
+        path: []
+      }
+      expect(TreeAnalyzer.hasErrors([warning])).toEqual(false)
+      expect(TreeAnalyzer.hasErrors([warning, {
+        ...warning,
+        severity: 'error'
+      }])).toEqual(true)
+    })
+  })
+})
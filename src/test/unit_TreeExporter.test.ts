@@ -0,0 +1,123 @@
+import { TreeExporter } from "../TreeExporter"
+import { Prompt } from "../Prompt"
+import { PromptNode } from "../PromptNode"
+import { MessageInterface } from "../interfaces/Message"
+import { EventEmitter } from "events"
+import { SubFlowNode } from "../SubFlowNode"
+
+class MyPrompt extends Prompt<{}, MessageInterface> {
+  onReject(): Promise<void> {
+    throw new Error("Method not implemented.")
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+describe('Unit::TreeExporter', () => {
+  const isOld = async (): Promise<boolean> => true
+  const createTree = (): Array<PromptNode<{}, MessageInterface>> => {
+    const shared = new MyPrompt({ text: 'Bye "friend"' })
+    const root = new PromptNode(new MyPrompt({ text: 'Name?' }), undefined, 'askName')
+    const old = new PromptNode(shared, isOld, 'old')
+    const young = new PromptNode(shared, async () => true)
+    const generated = new PromptNode(new MyPrompt(async () => ({ text: 'a' })), undefined, 'generated')
+    root.setChildren([old, young])
+    young.setChildren([generated])
+    generated.setChildren([root])
+    return [root, old, young, generated]
+  }
+  describe('static getGraph', () => {
+    it('visits each node once and marks shared prompts', () => {
+      const [root, old, young, generated] = createTree()
+      const graph = TreeExporter.getGraph(root)
+      expect(graph.nodes).toEqual([root, old, young, generated])
+      expect(graph.edges.length).toEqual(4)
+      expect(graph.sharedPrompts).toEqual(new Set([old.prompt]))
+    })
+    it('includes fallback nodes and the child trees of sub-flows', () => {
+      const help = new PromptNode(new MyPrompt({ text: 'Help' }), undefined, 'help')
+      const root = new PromptNode(new MyPrompt({ text: 'Name?' }, async () => ({}), 0, {
+        retry: {
+          maxAttempts: 2,
+          fallback: help
+        }
+      }), undefined, 'askName')
+      const street = new PromptNode(new MyPrompt({ text: 'Street?' }))
+      const address = new SubFlowNode<{}, {}, MessageInterface>(street, {
+        input: async (): Promise<{}> => ({}),
+        output: async (data): Promise<{}> => data
+      }, undefined, 'address')
+      root.setChildren([address])
+      const graph = TreeExporter.getGraph(root)
+      expect(graph.nodes).toEqual([root, address, street, help])
+      expect(graph.ids.get(street)).toEqual('address.flow')
+      expect(TreeExporter.toDOT(root)).toEqual([
+        'digraph {',
+        '  "askName" [label="askName\\nName?"];',
+        '  "address" [label="address"];',
+        '  "address.flow" [label="address.flow\\nStreet?"];',
+        '  "help" [label="help\\nHelp"];',
+        '  "askName" -> "address" [label="1"];',
+        '  "address" -> "address.flow" [label="sub-flow", style=dotted];',
+        '  "askName" -> "help" [label="fallback", style=dotted];',
+        '}'
+      ].join('\n'))
+    })
+  })
+  describe('static toDOT', () => {
+    it('exports nodes and labelled edges', () => {
+      const [root] = createTree()
+      expect(TreeExporter.toDOT(root)).toEqual([
+        'digraph {',
+        '  "askName" [label="askName\\nName?"];',
+        '  "old" [label="old\\nBye \\"friend\\"", style=dashed];',
+        '  "0.1" [label="0.1\\nBye \\"friend\\"", style=dashed];',
+        '  "generated" [label="generated"];',
+        '  "askName" -> "old" [label="1. isOld"];',
+        '  "askName" -> "0.1" [label="2. condition"];',
+        '  "0.1" -> "generated" [label="1"];',
+        '  "generated" -> "askName" [label="1"];',
+        '}'
+      ].join('\n'))
+    })
+    it('highlights the path of a run', () => {
+      const [root, , young] = createTree()
+      const dot = TreeExporter.toDOT(root, {
+        highlight: [root, young]
+      })
+      expect(dot).toContain('"askName" [label="askName\\nName?", color=red, penwidth=2];')
+      expect(dot).toContain('"askName" -> "0.1" [label="2. condition", color=red, penwidth=2];')
+      expect(dot).toContain('"askName" -> "old" [label="1. isOld"];')
+    })
+  })
+  describe('static getNodeLabel', () => {
+    it('uses the source of templates', () => {
+      const node = new PromptNode(new MyPrompt('Hi {{name}}'), undefined, 'greet')
+      expect(TreeExporter.getNodeLabel(node, 'greet')).toEqual('greet\nHi {{name}}')
+    })
+  })
+  describe('static toMermaid', () => {
+    it('exports a flowchart', () => {
+      const [root, , young] = createTree()
+      expect(TreeExporter.toMermaid(root, {
+        highlight: [root, young]
+      })).toEqual([
+        'flowchart TD',
+        '  n0["askName<br>Name?"]',
+        '  n1["old<br>Bye #quot;friend#quot;"]',
+        '  n2["0.1<br>Bye #quot;friend#quot;"]',
+        '  n3["generated"]',
+        '  n0 -->|"1. isOld"| n1',
+        '  n0 -->|"2. condition"| n2',
+        '  n2 -->|"1"| n3',
+        '  n3 -->|"1"| n0',
+        '  classDef shared stroke-dasharray: 5 5',
+        '  class n1,n2 shared',
+        '  classDef highlighted stroke:red,stroke-width:2px',
+        '  class n0,n2 highlighted',
+        '  linkStyle 1 stroke:red,stroke-width:2px'
+      ].join('\n'))
+    })
+  })
+})
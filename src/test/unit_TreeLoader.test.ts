@@ -0,0 +1,251 @@
+import { TreeLoader, TreeRegistry } from "../loader/TreeLoader"
+import { Prompt, PromptFunction, VisualGenerator } from "../Prompt"
+import { MessageInterface } from "../interfaces/Message"
+import { VisualInterface } from "../interfaces/Visual"
+import { TreeDefinitionError } from "../errors/TreeDefinitionError"
+import { EventEmitter } from "events"
+
+type AgeData = {
+  name?: string;
+  age?: number;
+}
+
+class MyPrompt extends Prompt<AgeData, MessageInterface> {
+  onReject(): Promise<void> {
+    throw new Error("Method not implemented.")
+  }
+  createCollector (): EventEmitter {
+    return new EventEmitter()
+  }
+}
+
+describe('Unit::TreeLoader', () => {
+  const askNameFn: PromptFunction<AgeData, MessageInterface> = async (m, data) => ({
+    ...data,
+    name: m.content
+  })
+  const isOld = async (data: AgeData): Promise<boolean> => !!data.age && data.age > 20
+  const ageVisual: VisualGenerator<AgeData> = async (data) => ({
+    text: `How old are you, ${data.name}?`
+  })
+  const registry: TreeRegistry<AgeData, MessageInterface> = {
+    createPrompt: (visual: VisualGenerator<AgeData>|VisualInterface|string, f?: PromptFunction<AgeData, MessageInterface>, duration?: number) => new MyPrompt(visual, f, duration),
+    functions: {
+      askName: askNameFn
+    },
+    conditions: {
+      isOld
+    },
+    visuals: {
+      ageVisual
+    }
+  }
+  const definition = {
+    root: 'askName',
+    nodes: {
+      askName: {
+        visual: "What's your name?",
+        function: 'askName',
+        duration: 1000,
+        children: ['askAge']
+      },
+      askAge: {
+        visualGenerator: 'ageVisual',
+        function: 'askName',
+        children: ['old', 'young']
+      },
+      old: {
+        visual: { text: 'Old' },
+        condition: 'isOld'
+      },
+      young: {
+        visual: [{ text: 'Young' }],
+        condition: { field: 'age', lessThan: 21 },
+        children: ['askName']
+      }
+    }
+  }
+  describe('load', () => {
+    it('builds the tree of nodes', async () => {
+      const loader = new TreeLoader(registry)
+      const root = loader.load(definition)
+      expect(root.id).toEqual('askName')
+      expect(root.prompt.function).toEqual(askNameFn)
+      expect(root.prompt.duration).toEqual(1000)
+      expect(root.prompt.visualGenerator).toEqual({ text: "What's your name?" })
+      const askAge = root.children[0]
+      expect(askAge.id).toEqual('askAge')
+      expect(askAge.prompt.visualGenerator).toEqual(ageVisual)
+      const [old, young] = askAge.children
+      expect(old.condition).toEqual(isOld)
+      await expect(young.prompt.getVisual({})).resolves.toEqual([{ text: 'Young' }])
+      expect(young.prompt.function).toBeUndefined()
+      await expect(young.condition && young.condition({ age: 20 }))
+        .resolves.toEqual(true)
+      // Cycles reuse the same node
+      expect(young.children[0]).toBe(root)
+    })
+    it('throws all issues with their paths', () => {
+      const loader = new TreeLoader(registry)
+      const badDefinition = {
+        root: 'askName',
+        nodes: {
+          askName: {
+            visual: { txt: 'a' },
+            function: 'missing',
+            children: ['a', 'b']
+          },
+          a: {
+            visualGenerator: 'missing',
+            duration: -1,
+            colour: 'red'
+          },
+          b: {
+            visual: 'b',
+            condition: { field: 'age', greaterThan: 'x' }
+          }
+        }
+      }
+      let error: TreeDefinitionError|undefined
+      try {
+        loader.load(badDefinition)
+      } catch (err) {
+        error = err
+      }
+      expect(error).toBeInstanceOf(TreeDefinitionError)
+      expect(error && error.issues).toEqual([{
+        path: '$.nodes.askName.visual',
+        message: 'Visual must be a string, an object with a text string, or an array of them'
+      }, {
+        path: '$.nodes.askName.function',
+        message: 'Unknown function "missing"'
+      }, {
+        path: '$.nodes.askName.children[0]',
+        message: 'Node "a" must have a condition since its parent has more than 1 child'
+      }, {
+        path: '$.nodes.a.colour',
+        message: 'Unknown property'
+      }, {
+        path: '$.nodes.a.visualGenerator',
+        message: 'Unknown visual generator "missing"'
+      }, {
+        path: '$.nodes.a.duration',
+        message: 'Must be a non-negative number of milliseconds'
+      }, {
+        path: '$.nodes.b.condition.greaterThan',
+        message: 'Must be a number'
+      }])
+    })
+    it('builds prompts with templates', async () => {
+      const loader = new TreeLoader(registry)
+      const root = loader.load({
+        root: 'askAge',
+        nodes: {
+          askAge: {
+            template: 'How old are you, {{name | "friend"}}?'
+          }
+        }
+      })
+      await expect(root.prompt.getVisual({ name: 'George' })).resolves.toEqual({
+        text: 'How old are you, George?'
+      })
+    })
+    it('sends arrays of texts and visuals', async () => {
+      const loader = new TreeLoader(registry)
+      const root = loader.load({
+        root: 'greet',
+        nodes: {
+          greet: {
+            visual: ['Hello', { text: 'World' }]
+          }
+        }
+      })
+      const channel = {
+        send: jest.fn()
+      }
+      await root.prompt.sendUserVisual(channel, {})
+      expect(channel.send).toHaveBeenCalledTimes(2)
+      expect(channel.send).toHaveBeenNthCalledWith(1, { text: 'Hello' })
+      expect(channel.send).toHaveBeenNthCalledWith(2, { text: 'World' })
+    })
+    it('reports nested arrays of visuals', () => {
+      const loader = new TreeLoader(registry)
+      expect(loader.validate({
+        root: 'a',
+        nodes: {
+          a: {
+            visual: ['a', ['b']]
+          }
+        }
+      })).toEqual([{
+        path: '$.nodes.a.visual[1]',
+        message: 'Visuals in an array must be strings or objects with a text string'
+      }])
+    })
+    it('reports invalid templates and several visuals', () => {
+      const loader = new TreeLoader(registry)
+      expect(loader.validate({
+        root: 'a',
+        nodes: {
+          a: {
+            template: '{{#if name}}'
+          },
+          b: {
+            visual: 'b',
+            template: 'b'
+          }
+        }
+      })).toEqual([{
+        path: '$.nodes.a.template',
+        message: 'Invalid template "{{#if name}}": Missing {{/if}}'
+      }, {
+        path: '$.nodes.b',
+        message: 'Node must have exactly one of visual, visualGenerator or template'
+      }])
+    })
+    it('reports unknown roots and children', () => {
+      const loader = new TreeLoader(registry)
+      expect(loader.validate({
+        root: 'missing',
+        nodes: {
+          a: {
+            visual: 'a',
+            children: ['constructor']
+          }
+        }
+      })).toEqual([{
+        path: '$.root',
+        message: 'Unknown node "missing"'
+      }, {
+        path: '$.nodes.a.children[0]',
+        message: 'Unknown node "constructor"'
+      }])
+    })
+  })
+  describe('loadJSON', () => {
+    it('loads the parsed JSON', () => {
+      const loader = new TreeLoader(registry)
+      const load = jest.spyOn(loader, 'load')
+      loader.loadJSON(JSON.stringify(definition))
+      expect(load).toHaveBeenCalledWith(definition)
+    })
+  })
+  describe('loadYAML', () => {
+    it('loads the parsed YAML', () => {
+      const loader = new TreeLoader(registry)
+      const root = loader.loadYAML([
+        'root: askName',
+        'nodes:',
+        '  askName:',
+        '    visual: What is your name?',
+        '    function: askName',
+        '    children:',
+        '      - end',
+        '  end:',
+        '    visual: Bye'
+      ].join('\n'))
+      expect(root.id).toEqual('askName')
+      expect(root.children[0].id).toEqual('end')
+    })
+  })
+})
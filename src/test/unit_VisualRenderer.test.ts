@@ -0,0 +1,130 @@
+import { VisualRenderer } from '../VisualRenderer'
+import { VisualInterface } from '../interfaces/Visual'
+import { Rejection } from '../errors/Rejection'
+
+describe('Unit::VisualRenderer', () => {
+  const visual: VisualInterface = {
+    title: 'Order',
+    text: 'Confirm your order?',
+    fields: [{
+      name: 'Item',
+      value: 'Pizza'
+    }, {
+      name: 'Total',
+      value: '$12'
+    }],
+    buttons: [{
+      label: 'Yes',
+      value: 'yes'
+    }, {
+      label: 'No',
+      value: 'no'
+    }],
+    attachments: [{
+      url: 'https://example.com/menu.pdf',
+      name: 'menu.pdf'
+    }, {
+      url: 'https://example.com/pizza.png'
+    }]
+  }
+  describe('static render', () => {
+    it('writes every part into the text for channels without capabilities', () => {
+      expect(VisualRenderer.render(visual)).toEqual({
+        text: [
+          'Order',
+          'Confirm your order?',
+          'Item: Pizza\nTotal: $12',
+          '1. Yes\n2. No',
+          'menu.pdf: https://example.com/menu.pdf\nhttps://example.com/pizza.png'
+        ].join('\n\n')
+      })
+    })
+    it('keeps the parts the channel can show', () => {
+      expect(VisualRenderer.render(visual, {
+        title: true,
+        buttons: true
+      })).toEqual({
+        title: 'Order',
+        text: [
+          'Confirm your order?',
+          'Item: Pizza\nTotal: $12',
+          'menu.pdf: https://example.com/menu.pdf\nhttps://example.com/pizza.png'
+        ].join('\n\n'),
+        buttons: visual.buttons
+      })
+    })
+    it('returns visuals the channel can show fully as they are', () => {
+      const textOnly = {
+        text: 'Hi',
+        embed: {
+          title: 'Custom'
+        }
+      }
+      expect(VisualRenderer.render(textOnly)).toBe(textOnly)
+      expect(VisualRenderer.render(visual, {
+        title: true,
+        fields: true,
+        buttons: true,
+        attachments: true
+      })).toBe(visual)
+    })
+    it('keeps other properties and skips empty text', () => {
+      expect(VisualRenderer.render({
+        text: '',
+        buttons: [{ label: 'Ok', value: 'ok' }],
+        embed: true
+      })).toEqual({
+        text: '1. Ok',
+        embed: true
+      })
+    })
+  })
+  describe('static getButtons', () => {
+    it('returns the buttons of every visual', () => {
+      expect(VisualRenderer.getButtons([visual, { text: 'a' }, { text: 'b', buttons: [{ label: 'C', value: 'c' }] }]))
+        .toEqual([...(visual.buttons || []), { label: 'C', value: 'c' }])
+      expect(VisualRenderer.getButtons({ text: 'a' })).toEqual([])
+    })
+  })
+  describe('static createClick', () => {
+    it('sets the content and choice to the value', () => {
+      const message = {
+        content: '',
+        author: {
+          id: '1'
+        }
+      }
+      expect(VisualRenderer.createClick(message, { label: 'Yes', value: 'yes' })).toEqual({
+        content: 'yes',
+        choice: 'yes',
+        author: {
+          id: '1'
+        }
+      })
+    })
+  })
+  describe('static createChoiceParser', () => {
+    const parse = VisualRenderer.createChoiceParser(visual.buttons || [])
+    it('accepts values, labels and numbers', () => {
+      expect(parse('yes')).toEqual('yes')
+      expect(parse(' NO ')).toEqual('no')
+      expect(parse('Yes')).toEqual('yes')
+      expect(parse('2')).toEqual('no')
+    })
+    it('prefers values over numbers', () => {
+      const parseNumbers = VisualRenderer.createChoiceParser([{
+        label: 'Ten',
+        value: '10'
+      }, {
+        label: 'One',
+        value: '1'
+      }])
+      expect(parseNumbers('1')).toEqual('1')
+      expect(parseNumbers('2')).toEqual('1')
+    })
+    it('rejects other answers with the labels', () => {
+      expect(() => parse('maybe')).toThrow(Rejection)
+      expect(() => parse('3')).toThrow('Please choose one of: Yes, No')
+    })
+  })
+})
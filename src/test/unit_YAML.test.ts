@@ -0,0 +1,108 @@
+import { YAML } from "../loader/YAML"
+
+describe('Unit::YAML', () => {
+  describe('static parse', () => {
+    it('parses nested mappings and sequences', () => {
+      const text = [
+        '# Tree',
+        'root: askName',
+        'nodes:',
+        '  askName:',
+        '    visual: "What\'s your name?" # trailing comment',
+        '    duration: 9000',
+        '    children:',
+        '    - askAge',
+        '  askAge:',
+        '    visual:',
+        '      - text: How old are you?',
+        '        newline: true',
+        "      - { text: 'It''s fine' }",
+        '    children: [old, young]',
+        '    enabled: false',
+        '    extra: ~'
+      ].join('\n')
+      expect(YAML.parse(text)).toEqual({
+        root: 'askName',
+        nodes: {
+          askName: {
+            visual: "What's your name?",
+            duration: 9000,
+            children: ['askAge']
+          },
+          askAge: {
+            visual: [{
+              text: 'How old are you?',
+              newline: true
+            }, {
+              text: "It's fine"
+            }],
+            children: ['old', 'young'],
+            enabled: false,
+            extra: null
+          }
+        }
+      })
+    })
+    it('parses nested sequences and flow mappings', () => {
+      const text = [
+        'and:',
+        '  - field: age',
+        '    greaterThan: 20',
+        '  - not: { field: name, equals: "George" }',
+        '  -',
+        '    - 1',
+        '    - -2.5'
+      ].join('\n')
+      expect(YAML.parse(text)).toEqual({
+        and: [{
+          field: 'age',
+          greaterThan: 20
+        }, {
+          not: {
+            field: 'name',
+            equals: 'George'
+          }
+        }, [1, -2.5]]
+      })
+    })
+    it('parses sequences at the indent of their key', () => {
+      const text = [
+        'root:',
+        '  children:',
+        '  - a',
+        '  - b',
+        '  duration: 1',
+        'other: 1'
+      ].join('\n')
+      expect(YAML.parse(text)).toEqual({
+        root: {
+          children: ['a', 'b'],
+          duration: 1
+        },
+        other: 1
+      })
+      expect(YAML.parse('key:\n- a\n- b\nother: 1')).toEqual({
+        key: ['a', 'b'],
+        other: 1
+      })
+    })
+    it('keeps colons that are not key separators', () => {
+      expect(YAML.parse('text: "Time: 5pm"\nurl: http://a.b')).toEqual({
+        text: 'Time: 5pm',
+        url: 'http://a.b'
+      })
+    })
+    it('throws with the line number for bad indentation', () => {
+      expect(() => YAML.parse('a: 1\n    b: 2'))
+        .toThrow('YAML line 2: Unexpected indentation')
+    })
+    it('throws for duplicate keys', () => {
+      expect(() => YAML.parse('a: 1\na: 2'))
+        .toThrow('YAML line 2: Duplicate key "a"')
+    })
+    it('throws for unterminated strings', () => {
+      expect(() => YAML.parse('a: "1'))
+        .toThrow('YAML line 1: Unterminated string')
+    })
+  })
+})